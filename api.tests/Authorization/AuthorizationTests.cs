@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Authorization;
 using StargateAPI.Controllers;
+using StargateAPI.Security;
 using Xunit;
 using System.Reflection;
 
@@ -33,6 +34,20 @@ public class AuthorizationTests
         Assert.NotNull(authorize);
     }
 
+    [Fact]
+    public void UsersController_RequiresAdminRole()
+    {
+        // Arrange
+        var controllerType = typeof(UsersController);
+
+        // Act
+        var authorize = controllerType.GetCustomAttribute<AuthorizeAttribute>();
+
+        // Assert
+        Assert.NotNull(authorize);
+        Assert.Equal(Roles.Admin, authorize!.Roles);
+    }
+
     [Fact]
     public void AuthController_RegisterEndpoint_AllowsAnonymous()
     {
@@ -92,16 +107,48 @@ public class AuthorizationTests
     }
 
     [Fact]
-    public void RoleBasedAccessControl_UserRole_Defined()
+    public void RoleBasedAccessControl_WritersIncludeEditorAndAdmin()
     {
-        // This test verifies that the User role is properly configured
-        // and can be used for authorization
-        
         // Arrange
-        var userRole = "User";
+        var writers = Roles.Writers.Split(',');
 
         // Act & Assert
-        Assert.NotNull(userRole);
-        Assert.Equal("User", userRole);
+        Assert.Contains(Roles.Editor, writers);
+        Assert.Contains(Roles.Admin, writers);
+        Assert.DoesNotContain(Roles.Viewer, writers);
+    }
+
+    [Theory]
+    [InlineData(typeof(PersonController), "CreatePerson")]
+    [InlineData(typeof(PersonController), "RenamePerson")]
+    [InlineData(typeof(AstronautDutyController), "CreateAstronautDuty")]
+    [InlineData(typeof(AstronautDutyController), "UpdateAstronautDuty")]
+    public void WriteEndpoints_RequireWriterRole(Type controllerType, string methodName)
+    {
+        // Arrange
+        var method = controllerType.GetMethod(methodName);
+
+        // Act
+        var authorize = method?.GetCustomAttribute<AuthorizeAttribute>();
+
+        // Assert
+        Assert.NotNull(authorize);
+        Assert.Equal(Roles.Writers, authorize!.Roles);
+    }
+
+    [Theory]
+    [InlineData(typeof(PersonController), "GetPeople")]
+    [InlineData(typeof(PersonController), "GetPersonByName")]
+    [InlineData(typeof(AstronautDutyController), "GetAstronautDutiesByName")]
+    public void ReadEndpoints_AllowAnyAuthenticatedRole(Type controllerType, string methodName)
+    {
+        // Arrange
+        var method = controllerType.GetMethod(methodName);
+
+        // Act
+        var authorize = method?.GetCustomAttribute<AuthorizeAttribute>();
+
+        // Assert
+        Assert.Null(authorize);
     }
 }
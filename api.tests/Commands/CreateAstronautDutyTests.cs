@@ -0,0 +1,66 @@
+using StargateAPI.Business.Commands;
+using StargateAPI.Business.Data;
+using StargateAPI.Controllers;
+using StargateAPI.Tests.Fixtures;
+using Xunit;
+
+namespace StargateAPI.Tests.Commands;
+
+public class CreateAstronautDutyTests
+{
+    private static DateTime Utc(int year, int month, int day) => new(year, month, day, 0, 0, 0, DateTimeKind.Utc);
+
+    [Fact]
+    public async Task Process_UnknownPerson_ThrowsNameFieldError()
+    {
+        // Arrange
+        var context = TestDbContextFactory.Create();
+        var preProcessor = new CreateAstronautDutyPreProcessor(context);
+
+        // Act
+        var exception = await Assert.ThrowsAsync<FieldValidationException>(() => preProcessor.Process(new CreateAstronautDuty
+        {
+            Name = "Nobody",
+            Rank = "1LT",
+            DutyTitle = "Pilot",
+            DutyStartDate = Utc(2020, 1, 1)
+        }, CancellationToken.None));
+
+        // Assert
+        Assert.Equal(nameof(CreateAstronautDuty.Name), exception.Field);
+    }
+
+    [Fact]
+    public async Task Handle_StartDateBeforeCurrentDuty_ThrowsStartDateFieldError()
+    {
+        // Arrange
+        var context = TestDbContextFactory.Create();
+        var person = new Person { Name = "Jane Doe" };
+        context.People.Add(person);
+        await context.SaveChangesAsync();
+
+        context.AstronautDuties.Add(new AstronautDuty
+        {
+            PersonId = person.Id,
+            Rank = "CPT",
+            DutyTitle = "Commander",
+            DutyStartDate = Utc(2021, 6, 1)
+        });
+        await context.SaveChangesAsync();
+
+        var handler = new CreateAstronautDutyHandler(context);
+
+        // Act
+        var exception = await Assert.ThrowsAsync<FieldValidationException>(() => handler.Handle(new CreateAstronautDuty
+        {
+            Name = "Jane Doe",
+            Rank = "MAJ",
+            DutyTitle = "Mission Commander",
+            DutyStartDate = Utc(2021, 1, 1)
+        }, CancellationToken.None));
+
+        // Assert
+        Assert.Equal(nameof(CreateAstronautDuty.DutyStartDate), exception.Field);
+        Assert.Contains("2021-06-01", exception.Message);
+    }
+}
@@ -0,0 +1,69 @@
+using StargateAPI.Business.Commands;
+using StargateAPI.Business.Data;
+using StargateAPI.Business.Queries;
+using StargateAPI.Tests.Fixtures;
+using System.Net;
+using Xunit;
+
+namespace StargateAPI.Tests.Commands;
+
+public class RenamePersonTests
+{
+    private static async Task<StargateContext> SeedAsync()
+    {
+        var context = TestDbContextFactory.Create();
+        context.People.AddRange(new Person { Name = "Jon Doe" }, new Person { Name = "Jane Doe" });
+        await context.SaveChangesAsync();
+        return context;
+    }
+
+    [Fact]
+    public async Task Handle_WithUnusedName_RenamesAndRecordsHistory()
+    {
+        // Arrange
+        var context = await SeedAsync();
+        var handler = new RenamePersonHandler(context);
+
+        // Act
+        var result = await handler.Handle(new RenamePerson { CurrentName = "Jon Doe", NewName = "John Doe" }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        Assert.Equal("John Doe", result.Name);
+        var history = Assert.Single(context.PersonNameHistory);
+        Assert.Equal("Jon Doe", history.PreviousName);
+    }
+
+    [Fact]
+    public async Task Handle_WithExistingNameInDifferentCase_ReturnsConflict()
+    {
+        // Arrange
+        var context = await SeedAsync();
+        var handler = new RenamePersonHandler(context);
+
+        // Act
+        var result = await handler.Handle(new RenamePerson { CurrentName = "Jon Doe", NewName = "jane doe" }, CancellationToken.None);
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.Conflict, result.ResponseCode);
+        Assert.Empty(context.PersonNameHistory);
+    }
+
+    [Fact]
+    public async Task GetPersonByName_WithPreviousName_ReturnsRenamedPerson()
+    {
+        // Arrange
+        var context = await SeedAsync();
+        await new RenamePersonHandler(context)
+            .Handle(new RenamePerson { CurrentName = "Jon Doe", NewName = "John Doe" }, CancellationToken.None);
+
+        // Act
+        var result = await new GetPersonByNameHandler(context)
+            .Handle(new GetPersonByName { Name = "Jon Doe" }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        Assert.Equal("John Doe", result.Person?.Name);
+    }
+}
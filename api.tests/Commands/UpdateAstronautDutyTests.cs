@@ -0,0 +1,208 @@
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Commands;
+using StargateAPI.Business.Data;
+using StargateAPI.Tests.Fixtures;
+using System.Net;
+using Xunit;
+
+namespace StargateAPI.Tests.Commands;
+
+public class UpdateAstronautDutyTests
+{
+    private static DateTime Utc(int year, int month, int day) => new(year, month, day, 0, 0, 0, DateTimeKind.Utc);
+
+    /// <summary>
+    /// Seeds one astronaut with a closed Pilot duty followed by an open Commander duty
+    /// </summary>
+    private static async Task<(StargateContext Context, AstronautDuty Pilot, AstronautDuty Commander)> SeedAsync()
+    {
+        var context = TestDbContextFactory.Create();
+        var person = new Person { Name = "Jane Doe" };
+        context.People.Add(person);
+        await context.SaveChangesAsync();
+
+        var pilot = new AstronautDuty
+        {
+            PersonId = person.Id,
+            Rank = "1LT",
+            DutyTitle = "Pilot",
+            DutyStartDate = Utc(2020, 1, 1),
+            DutyEndDate = Utc(2021, 5, 31)
+        };
+        var commander = new AstronautDuty
+        {
+            PersonId = person.Id,
+            Rank = "CPT",
+            DutyTitle = "Commander",
+            DutyStartDate = Utc(2021, 6, 1)
+        };
+        context.AstronautDuties.AddRange(pilot, commander);
+        context.AstronautDetails.Add(new AstronautDetail
+        {
+            PersonId = person.Id,
+            CurrentRank = "CPT",
+            CurrentDutyTitle = "Commander",
+            CareerStartDate = Utc(2020, 1, 1)
+        });
+        await context.SaveChangesAsync();
+
+        return (context, pilot, commander);
+    }
+
+    [Fact]
+    public async Task Handle_MovingStartDate_RealignsPreviousDutyEndDate()
+    {
+        // Arrange
+        var (context, pilot, commander) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = commander.Id,
+            Rank = "CPT",
+            DutyTitle = "Commander",
+            DutyStartDate = Utc(2021, 3, 1)
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        var saved = await context.AstronautDuties.AsNoTracking().SingleAsync(d => d.Id == pilot.Id);
+        Assert.Equal(Utc(2021, 2, 28), saved.DutyEndDate);
+    }
+
+    [Fact]
+    public async Task Handle_ReopeningPastDuty_ReturnsConflict()
+    {
+        // Arrange
+        var (context, pilot, _) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = pilot.Id,
+            Rank = "1LT",
+            DutyTitle = "Pilot",
+            DutyStartDate = Utc(2020, 1, 1),
+            DutyEndDate = null
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.Conflict, result.ResponseCode);
+    }
+
+    [Fact]
+    public async Task Handle_EndDateOverlappingNextDuty_ReturnsConflict()
+    {
+        // Arrange
+        var (context, pilot, _) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = pilot.Id,
+            Rank = "1LT",
+            DutyTitle = "Pilot",
+            DutyStartDate = Utc(2020, 1, 1),
+            DutyEndDate = Utc(2021, 6, 1)
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.Conflict, result.ResponseCode);
+    }
+
+    [Fact]
+    public async Task Handle_EndDateBeforeStartDate_ReturnsFieldError()
+    {
+        // Arrange
+        var (context, pilot, _) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = pilot.Id,
+            Rank = "1LT",
+            DutyTitle = "Pilot",
+            DutyStartDate = Utc(2020, 1, 1),
+            DutyEndDate = Utc(2019, 12, 31)
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.BadRequest, result.ResponseCode);
+        Assert.NotNull(result.Errors);
+        Assert.Equal(new[] { result.Message }, result.Errors[nameof(UpdateAstronautDuty.DutyEndDate)]);
+    }
+
+    [Fact]
+    public async Task Handle_EditingCurrentDuty_UpdatesAstronautDetail()
+    {
+        // Arrange
+        var (context, _, commander) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = commander.Id,
+            Rank = "MAJ",
+            DutyTitle = "Mission Commander",
+            DutyStartDate = Utc(2021, 6, 1)
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        var detail = await context.AstronautDetails.AsNoTracking().SingleAsync();
+        Assert.Equal("MAJ", detail.CurrentRank);
+        Assert.Equal("Mission Commander", detail.CurrentDutyTitle);
+    }
+
+    [Fact]
+    public async Task Handle_DryRun_ReturnsResultWithoutSaving()
+    {
+        // Arrange
+        var (context, _, commander) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = commander.Id,
+            Rank = "MAJ",
+            DutyTitle = "Commander",
+            DutyStartDate = Utc(2021, 6, 1),
+            DryRun = true
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        Assert.Equal("MAJ", result.AstronautDuties.Single(d => d.Id == commander.Id).Rank);
+        var saved = await context.AstronautDuties.AsNoTracking().SingleAsync(d => d.Id == commander.Id);
+        Assert.Equal("CPT", saved.Rank);
+    }
+
+    [Fact]
+    public async Task Handle_UnknownDuty_ReturnsNotFound()
+    {
+        // Arrange
+        var (context, _, _) = await SeedAsync();
+        var handler = new UpdateAstronautDutyHandler(context);
+
+        // Act
+        var result = await handler.Handle(new UpdateAstronautDuty
+        {
+            Id = 9999,
+            Rank = "CPT",
+            DutyTitle = "Commander",
+            DutyStartDate = Utc(2021, 6, 1)
+        }, CancellationToken.None);
+
+        // Assert
+        Assert.Equal((int)HttpStatusCode.NotFound, result.ResponseCode);
+    }
+}
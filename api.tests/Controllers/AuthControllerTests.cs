@@ -5,6 +5,8 @@ using Microsoft.Extensions.Configuration;
 using Moq;
 using StargateAPI.Business.Data;
 using StargateAPI.Controllers;
+using StargateAPI.Security;
+using StargateAPI.Tests.Fixtures;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
 using SignInResult = Microsoft.AspNetCore.Identity.SignInResult;
@@ -14,13 +16,19 @@ namespace StargateAPI.Tests.Controllers;
 
 public class AuthControllerTests
 {
+    private readonly StargateContext _context;
     private readonly Mock<UserManager<ApplicationUser>> _mockUserManager;
     private readonly Mock<SignInManager<ApplicationUser>> _mockSignInManager;
     private readonly Mock<IConfiguration> _mockConfiguration;
+    private readonly Mock<IRefreshTokenService> _mockRefreshTokens;
+    private readonly Mock<ISignInHistoryService> _mockSignInHistory;
+    private readonly Mock<IOidcClient> _mockOidcClient;
+    private readonly OidcOptions _oidcOptions;
     private readonly AuthController _controller;
 
     public AuthControllerTests()
     {
+        _context = TestDbContextFactory.Create();
         _mockUserManager = new Mock<UserManager<ApplicationUser>>(
             new Mock<IUserStore<ApplicationUser>>().Object,
             null!, null!, null!, null!, null!, null!, null!, null!);
@@ -32,7 +40,29 @@ public class AuthControllerTests
             null!, null!, null!, null!);
         
         _mockConfiguration = new Mock<IConfiguration>();
-        _controller = new AuthController(_mockUserManager.Object, _mockSignInManager.Object, _mockConfiguration.Object);
+        _mockRefreshTokens = new Mock<IRefreshTokenService>();
+        _mockRefreshTokens.Setup(x => x.IssueAsync(It.IsAny<ApplicationUser>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync("refresh-token");
+        _mockSignInHistory = new Mock<ISignInHistoryService>();
+        _mockOidcClient = new Mock<IOidcClient>();
+        _oidcOptions = new OidcOptions
+        {
+            Enabled = true,
+            ClientId = "stargate-client",
+            RoleMappings = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase)
+            {
+                ["stargate-editors"] = Roles.Editor
+            }
+        };
+        _controller = new AuthController(
+            _context,
+            _mockUserManager.Object,
+            _mockSignInManager.Object,
+            _mockConfiguration.Object,
+            _mockRefreshTokens.Object,
+            _mockSignInHistory.Object,
+            _mockOidcClient.Object,
+            _oidcOptions);
 
         // Setup default JWT configuration
         SetupJwtConfiguration();
@@ -79,7 +109,7 @@ public class AuthControllerTests
             .ReturnsAsync(IdentityResult.Success);
 
         _mockUserManager.Setup(x => x.GetRolesAsync(It.IsAny<ApplicationUser>()))
-            .ReturnsAsync(new List<string> { "User" });
+            .ReturnsAsync(new List<string> { "Viewer" });
 
         // Act
         var result = await _controller.Register(request);
@@ -95,7 +125,7 @@ public class AuthControllerTests
         Assert.Equal("Doe", response?.LastName);
 
         _mockUserManager.Verify(x => x.CreateAsync(It.IsAny<ApplicationUser>(), request.Password), Times.Once);
-        _mockUserManager.Verify(x => x.AddToRoleAsync(It.IsAny<ApplicationUser>(), "User"), Times.Once);
+        _mockUserManager.Verify(x => x.AddToRoleAsync(It.IsAny<ApplicationUser>(), "Viewer"), Times.Once);
     }
 
     [Fact]
@@ -174,13 +204,13 @@ public class AuthControllerTests
             .ReturnsAsync(IdentityResult.Success);
 
         _mockUserManager.Setup(x => x.GetRolesAsync(It.IsAny<ApplicationUser>()))
-            .ReturnsAsync(new List<string> { "User" });
+            .ReturnsAsync(new List<string> { "Viewer" });
 
         // Act
         await _controller.Register(request);
 
         // Assert
-        _mockUserManager.Verify(x => x.AddToRoleAsync(It.IsAny<ApplicationUser>(), "User"), Times.Once);
+        _mockUserManager.Verify(x => x.AddToRoleAsync(It.IsAny<ApplicationUser>(), "Viewer"), Times.Once);
     }
 
     #endregion
@@ -279,6 +309,74 @@ public class AuthControllerTests
         Assert.NotNull(unauthorizedResult.Value);
     }
 
+    [Fact]
+    public async Task Login_WithLockedAccount_ReturnsUnauthorizedWithoutTokens()
+    {
+        // Arrange
+        var request = new LoginRequest
+        {
+            Email = "locked@example.com",
+            Password = "Password123!"
+        };
+
+        var user = new ApplicationUser
+        {
+            Id = "user-1",
+            Email = request.Email,
+            UserName = request.Email
+        };
+
+        _mockUserManager.Setup(x => x.FindByEmailAsync(request.Email))
+            .ReturnsAsync(user);
+
+        _mockSignInManager.Setup(x => x.CheckPasswordSignInAsync(user, request.Password, false))
+            .ReturnsAsync(SignInResult.LockedOut);
+
+        // Act
+        var result = await _controller.Login(request);
+
+        // Assert
+        Assert.IsType<UnauthorizedObjectResult>(result);
+        _mockRefreshTokens.Verify(x => x.IssueAsync(It.IsAny<ApplicationUser>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task Login_WithValidCredentials_RecordsLastLogin()
+    {
+        // Arrange
+        var request = new LoginRequest
+        {
+            Email = "user@example.com",
+            Password = "Password123!"
+        };
+
+        var user = new ApplicationUser
+        {
+            Id = "user-1",
+            Email = request.Email,
+            UserName = request.Email
+        };
+
+        _mockUserManager.Setup(x => x.FindByEmailAsync(request.Email))
+            .ReturnsAsync(user);
+
+        _mockSignInManager.Setup(x => x.CheckPasswordSignInAsync(user, request.Password, false))
+            .ReturnsAsync(SignInResult.Success);
+
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { "Viewer" });
+
+        _mockUserManager.Setup(x => x.UpdateAsync(user))
+            .ReturnsAsync(IdentityResult.Success);
+
+        // Act
+        await _controller.Login(request);
+
+        // Assert
+        Assert.NotNull(user.LastLoginAt);
+        _mockUserManager.Verify(x => x.UpdateAsync(user), Times.Once);
+    }
+
     #endregion
 
     #region GetCurrentUser Tests
@@ -308,7 +406,7 @@ public class AuthControllerTests
             .ReturnsAsync(user);
 
         _mockUserManager.Setup(x => x.GetRolesAsync(user))
-            .ReturnsAsync(new List<string> { "User" });
+            .ReturnsAsync(new List<string> { "Viewer" });
 
         _controller.ControllerContext = new Microsoft.AspNetCore.Mvc.ControllerContext
         {
@@ -347,6 +445,357 @@ public class AuthControllerTests
 
     #endregion
 
+    #region Refresh Tests
+
+    [Fact]
+    public async Task Refresh_WithValidToken_ReturnsNewTokens()
+    {
+        // Arrange
+        var user = TestDataBuilder.CreateTestUser(id: "user-1");
+
+        _mockRefreshTokens.Setup(x => x.RotateAsync("old-refresh", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new RefreshTokenRotation(user.Id, "new-refresh"));
+
+        _mockUserManager.Setup(x => x.FindByIdAsync(user.Id))
+            .ReturnsAsync(user);
+
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { "Viewer" });
+
+        // Act
+        var result = await _controller.Refresh(new RefreshRequest { RefreshToken = "old-refresh" });
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<AuthResponse>(okResult.Value);
+        Assert.False(string.IsNullOrEmpty(response.Token));
+        Assert.Equal("new-refresh", response.RefreshToken);
+        Assert.True(response.ExpiresAt > DateTime.UtcNow);
+    }
+
+    [Fact]
+    public async Task Refresh_WithRejectedToken_ReturnsUnauthorized()
+    {
+        // Arrange
+        _mockRefreshTokens.Setup(x => x.RotateAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync((RefreshTokenRotation?)null);
+
+        // Act
+        var result = await _controller.Refresh(new RefreshRequest { RefreshToken = "used-refresh" });
+
+        // Assert
+        Assert.IsType<UnauthorizedObjectResult>(result);
+    }
+
+    [Fact]
+    public async Task Logout_RevokesRefreshToken()
+    {
+        // Act
+        var result = await _controller.Logout(new RefreshRequest { RefreshToken = "refresh-token" });
+
+        // Assert
+        Assert.IsType<NoContentResult>(result);
+        _mockRefreshTokens.Verify(x => x.RevokeAsync("refresh-token", It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    #endregion
+
+    #region Account Tests
+
+    [Fact]
+    public async Task Login_WithInvalidPassword_RecordsFailedSignIn()
+    {
+        // Arrange
+        var request = new LoginRequest
+        {
+            Email = "user@example.com",
+            Password = "WrongPassword123!"
+        };
+
+        var user = new ApplicationUser { Id = "user-1", Email = request.Email, UserName = request.Email };
+
+        _mockUserManager.Setup(x => x.FindByEmailAsync(request.Email))
+            .ReturnsAsync(user);
+
+        _mockSignInManager.Setup(x => x.CheckPasswordSignInAsync(user, request.Password, false))
+            .ReturnsAsync(SignInResult.Failed);
+
+        // Act
+        await _controller.Login(request);
+
+        // Assert
+        _mockSignInHistory.Verify(x => x.RecordAsync(user, false, It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task UpdateProfile_TrimsNamesAndReturnsUserInfo()
+    {
+        // Arrange
+        var user = SignInAs("user@example.com");
+
+        _mockUserManager.Setup(x => x.UpdateAsync(user))
+            .ReturnsAsync(IdentityResult.Success);
+
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { "Viewer" });
+
+        // Act
+        var result = await _controller.UpdateProfile(new UpdateProfileRequest { FirstName = "  Daniel ", LastName = "" });
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var info = Assert.IsType<UserInfo>(okResult.Value);
+        Assert.Equal("Daniel", info.FirstName);
+        Assert.Null(info.LastName);
+    }
+
+    [Fact]
+    public async Task ChangePassword_WithWrongCurrentPassword_ReturnsBadRequest()
+    {
+        // Arrange
+        var user = SignInAs("user@example.com");
+
+        _mockUserManager.Setup(x => x.ChangePasswordAsync(user, "Wrong123!", "NewPass123!"))
+            .ReturnsAsync(IdentityResult.Failed(new IdentityErrorDescriber().PasswordMismatch()));
+
+        // Act
+        var result = await _controller.ChangePassword(new ChangePasswordRequest { CurrentPassword = "Wrong123!", NewPassword = "NewPass123!" });
+
+        // Assert
+        Assert.IsType<BadRequestObjectResult>(result);
+        _mockRefreshTokens.Verify(x => x.RevokeAllAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ChangePassword_WithValidRequest_EndsOtherSessionsAndReturnsNewTokens()
+    {
+        // Arrange
+        var user = SignInAs("user@example.com");
+
+        _mockUserManager.Setup(x => x.ChangePasswordAsync(user, "OldPass123!", "NewPass123!"))
+            .ReturnsAsync(IdentityResult.Success);
+
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { "Viewer" });
+
+        // Act
+        var result = await _controller.ChangePassword(new ChangePasswordRequest { CurrentPassword = "OldPass123!", NewPassword = "NewPass123!" });
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<AuthResponse>(okResult.Value);
+        Assert.Equal("refresh-token", response.RefreshToken);
+        _mockRefreshTokens.Verify(x => x.RevokeAllAsync(user.Id, It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    private ApplicationUser SignInAs(string email)
+    {
+        var user = new ApplicationUser { Id = "user-1", Email = email, UserName = email };
+
+        _mockUserManager.Setup(x => x.FindByEmailAsync(email))
+            .ReturnsAsync(user);
+
+        _controller.ControllerContext = new Microsoft.AspNetCore.Mvc.ControllerContext
+        {
+            HttpContext = new DefaultHttpContext
+            {
+                User = new ClaimsPrincipal(new ClaimsIdentity(new[] { new Claim(ClaimTypes.Email, email) }))
+            }
+        };
+
+        return user;
+    }
+
+    #endregion
+
+    #region Single Sign-On Tests
+
+    [Fact]
+    public async Task GetSsoConfiguration_WhenDisabled_ReturnsDisabledWithoutContactingProvider()
+    {
+        // Arrange
+        _oidcOptions.Enabled = false;
+
+        // Act
+        var result = await _controller.GetSsoConfiguration();
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var config = Assert.IsType<SsoConfiguration>(okResult.Value);
+        Assert.False(config.Enabled);
+        _mockOidcClient.Verify(x => x.GetAuthorizationEndpointAsync(It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_FirstSignIn_CreatesLinkedAccountWithMappedRoles()
+    {
+        // Arrange
+        SetupSsoIdentity(new OidcIdentity
+        {
+            Subject = "idp-42",
+            Email = "sam@stargate.com",
+            EmailVerified = true,
+            GivenName = "Samantha",
+            FamilyName = "Carter",
+            Groups = new[] { "stargate-editors" }
+        });
+
+        _mockUserManager.Setup(x => x.CreateAsync(It.IsAny<ApplicationUser>()))
+            .ReturnsAsync(IdentityResult.Success);
+        _mockUserManager.Setup(x => x.AddLoginAsync(It.IsAny<ApplicationUser>(), It.IsAny<UserLoginInfo>()))
+            .ReturnsAsync(IdentityResult.Success);
+        _mockUserManager.Setup(x => x.GetRolesAsync(It.IsAny<ApplicationUser>()))
+            .ReturnsAsync(new List<string>());
+
+        // Act
+        var result = await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<AuthResponse>(okResult.Value);
+        Assert.Equal("sam@stargate.com", response.Email);
+        Assert.Equal("refresh-token", response.RefreshToken);
+
+        _mockUserManager.Verify(x => x.CreateAsync(It.Is<ApplicationUser>(u =>
+            u.Email == "sam@stargate.com" && u.FirstName == "Samantha" && u.LastName == "Carter")), Times.Once);
+        _mockUserManager.Verify(x => x.AddLoginAsync(It.IsAny<ApplicationUser>(), It.Is<UserLoginInfo>(l =>
+            l.LoginProvider == AuthController.SsoLoginProvider && l.ProviderKey == "idp-42")), Times.Once);
+        _mockUserManager.Verify(x => x.AddToRolesAsync(It.IsAny<ApplicationUser>(), It.Is<IEnumerable<string>>(r => r.SequenceEqual(new[] { Roles.Editor }))), Times.Once);
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_ExistingLink_ReplacesRolesFromGroups()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        SetupSsoIdentity(new OidcIdentity { Subject = "idp-7", Email = user.Email, Groups = Array.Empty<string>() });
+
+        _mockUserManager.Setup(x => x.FindByLoginAsync(AuthController.SsoLoginProvider, "idp-7"))
+            .ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { Roles.Editor });
+
+        // Act
+        var result = await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        Assert.IsType<OkObjectResult>(result);
+        _mockUserManager.Verify(x => x.CreateAsync(It.IsAny<ApplicationUser>()), Times.Never);
+        _mockUserManager.Verify(x => x.RemoveFromRolesAsync(user, It.Is<IEnumerable<string>>(r => r.SequenceEqual(new[] { Roles.Editor }))), Times.Once);
+        _mockUserManager.Verify(x => x.AddToRolesAsync(user, It.Is<IEnumerable<string>>(r => r.SequenceEqual(new[] { Roles.Viewer }))), Times.Once);
+        _mockSignInHistory.Verify(x => x.RecordAsync(user, true, It.IsAny<string?>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_LinkedLocalAccount_KeepsRolesFromAdminConsole()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        SetupSsoIdentity(new OidcIdentity { Subject = "idp-7", Email = user.Email, Groups = Array.Empty<string>() });
+
+        _mockUserManager.Setup(x => x.FindByLoginAsync(AuthController.SsoLoginProvider, "idp-7"))
+            .ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.HasPasswordAsync(user))
+            .ReturnsAsync(true);
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { Roles.Editor });
+
+        // Act
+        var result = await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        Assert.IsType<OkObjectResult>(result);
+        _mockUserManager.Verify(x => x.RemoveFromRolesAsync(It.IsAny<ApplicationUser>(), It.IsAny<IEnumerable<string>>()), Times.Never);
+        _mockUserManager.Verify(x => x.AddToRolesAsync(It.IsAny<ApplicationUser>(), It.IsAny<IEnumerable<string>>()), Times.Never);
+        Assert.Empty(_context.UserAccountAudits);
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_WithoutAdminMapping_KeepsAdminAndAuditsChanges()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        SetupSsoIdentity(new OidcIdentity { Subject = "idp-7", Email = user.Email, Groups = Array.Empty<string>() });
+
+        _mockUserManager.Setup(x => x.FindByLoginAsync(AuthController.SsoLoginProvider, "idp-7"))
+            .ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.GetRolesAsync(user))
+            .ReturnsAsync(new List<string> { Roles.Admin, Roles.Editor });
+
+        // Act
+        await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        _mockUserManager.Verify(x => x.RemoveFromRolesAsync(user, It.Is<IEnumerable<string>>(r => r.SequenceEqual(new[] { Roles.Editor }))), Times.Once);
+        _mockUserManager.Verify(x => x.AddToRolesAsync(user, It.Is<IEnumerable<string>>(r => r.SequenceEqual(new[] { Roles.Viewer }))), Times.Once);
+
+        var audits = _context.UserAccountAudits.OrderBy(a => a.Action).ToList();
+        Assert.Collection(audits,
+            granted =>
+            {
+                Assert.Equal("RoleGranted", granted.Action);
+                Assert.StartsWith(Roles.Viewer, granted.Detail);
+            },
+            revoked =>
+            {
+                Assert.Equal("RoleRevoked", revoked.Action);
+                Assert.StartsWith(Roles.Editor, revoked.Detail);
+            });
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_UnverifiedEmailOfLocalAccount_ReturnsUnauthorized()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        SetupSsoIdentity(new OidcIdentity { Subject = "idp-7", Email = user.Email, EmailVerified = false });
+
+        _mockUserManager.Setup(x => x.FindByEmailAsync(user.Email))
+            .ReturnsAsync(user);
+
+        // Act
+        var result = await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        Assert.IsType<UnauthorizedObjectResult>(result);
+        _mockUserManager.Verify(x => x.AddLoginAsync(It.IsAny<ApplicationUser>(), It.IsAny<UserLoginInfo>()), Times.Never);
+        _mockRefreshTokens.Verify(x => x.IssueAsync(It.IsAny<ApplicationUser>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task CompleteSsoLogin_WhenProviderRejectsCode_ReturnsUnauthorized()
+    {
+        // Arrange
+        _mockOidcClient.Setup(x => x.ExchangeCodeAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new OidcException("The identity provider rejected the sign-in (400)."));
+
+        // Act
+        var result = await _controller.CompleteSsoLogin(SsoCallback());
+
+        // Assert
+        Assert.IsType<UnauthorizedObjectResult>(result);
+        _mockUserManager.Verify(x => x.FindByLoginAsync(It.IsAny<string>(), It.IsAny<string>()), Times.Never);
+    }
+
+    private void SetupSsoIdentity(OidcIdentity identity)
+    {
+        _mockOidcClient.Setup(x => x.ExchangeCodeAsync("auth-code", "verifier", "http://localhost:4200/auth/callback", "nonce", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(identity);
+    }
+
+    private static SsoCallbackRequest SsoCallback()
+    {
+        return new SsoCallbackRequest
+        {
+            Code = "auth-code",
+            CodeVerifier = "verifier",
+            RedirectUri = "http://localhost:4200/auth/callback",
+            Nonce = "nonce"
+        };
+    }
+
+    #endregion
+
     #region JWT Token Tests
 
     [Fact]
@@ -362,7 +811,7 @@ public class AuthControllerTests
         };
 
         _mockUserManager.Setup(x => x.GetRolesAsync(user))
-            .ReturnsAsync(new List<string> { "Admin", "User" });
+            .ReturnsAsync(new List<string> { "Admin", "Viewer" });
 
         var request = new LoginRequest { Email = user.Email, Password = "Password123!" };
 
@@ -0,0 +1,176 @@
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using Moq;
+using StargateAPI.Business.Data;
+using StargateAPI.Controllers;
+using StargateAPI.Security;
+using StargateAPI.Tests.Fixtures;
+using System.Security.Claims;
+using Xunit;
+
+namespace StargateAPI.Tests.Controllers;
+
+public class UsersControllerTests
+{
+    private const string AdminId = "admin-1";
+    private const string AdminEmail = "admin@stargate.com";
+
+    private readonly Mock<UserManager<ApplicationUser>> _mockUserManager;
+    private readonly Mock<IRefreshTokenService> _mockRefreshTokens;
+    private readonly StargateContext _context;
+    private readonly UsersController _controller;
+
+    public UsersControllerTests()
+    {
+        _mockUserManager = new Mock<UserManager<ApplicationUser>>(
+            new Mock<IUserStore<ApplicationUser>>().Object,
+            null!, null!, null!, null!, null!, null!, null!, null!);
+        _mockRefreshTokens = new Mock<IRefreshTokenService>();
+        _context = TestDbContextFactory.Create();
+        _controller = new UsersController(_mockUserManager.Object, _context, _mockRefreshTokens.Object);
+
+        var identity = new ClaimsIdentity(new[]
+        {
+            new Claim(ClaimTypes.NameIdentifier, AdminId),
+            new Claim(ClaimTypes.Email, AdminEmail),
+            new Claim(ClaimTypes.Role, Roles.Admin)
+        }, "Test");
+
+        _controller.ControllerContext = new ControllerContext
+        {
+            HttpContext = new DefaultHttpContext { User = new ClaimsPrincipal(identity) }
+        };
+    }
+
+    [Fact]
+    public async Task GetUsers_WithSearch_ReturnsMatchingUsersWithRoles()
+    {
+        // Arrange
+        _context.Users.AddRange(
+            new ApplicationUser { Id = "user-1", Email = "jack@stargate.com", UserName = "jack@stargate.com", FirstName = "Jack" },
+            new ApplicationUser { Id = "user-2", Email = "sam@stargate.com", UserName = "sam@stargate.com", FirstName = "Samantha" });
+        _context.Roles.Add(new IdentityRole { Id = "3", Name = Roles.Editor });
+        _context.UserRoles.Add(new IdentityUserRole<string> { UserId = "user-1", RoleId = "3" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _controller.GetUsers("JACK");
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var users = Assert.IsAssignableFrom<List<UserSummary>>(okResult.Value);
+        var user = Assert.Single(users);
+        Assert.Equal("jack@stargate.com", user.Email);
+        Assert.Equal(new[] { Roles.Editor }, user.Roles);
+    }
+
+    [Fact]
+    public async Task GrantRole_AddsRoleAndRecordsWhoMadeTheChange()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        _mockUserManager.Setup(x => x.FindByIdAsync(user.Id)).ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.IsInRoleAsync(user, Roles.Editor)).ReturnsAsync(false);
+        _mockUserManager.Setup(x => x.AddToRoleAsync(user, Roles.Editor)).ReturnsAsync(IdentityResult.Success);
+        _mockUserManager.Setup(x => x.GetRolesAsync(user)).ReturnsAsync(new List<string> { Roles.Editor });
+
+        // Act
+        var result = await _controller.GrantRole(user.Id, "editor");
+
+        // Assert
+        Assert.IsType<OkObjectResult>(result);
+        _mockUserManager.Verify(x => x.AddToRoleAsync(user, Roles.Editor), Times.Once);
+
+        var audit = Assert.Single(_context.UserAccountAudits);
+        Assert.Equal("RoleGranted", audit.Action);
+        Assert.Equal(Roles.Editor, audit.Detail);
+        Assert.Equal(user.Id, audit.TargetUserId);
+        Assert.Equal(AdminId, audit.PerformedByUserId);
+        Assert.Equal(AdminEmail, audit.PerformedByEmail);
+    }
+
+    [Fact]
+    public async Task GrantRole_WithUnknownRole_ReturnsBadRequest()
+    {
+        // Act
+        var result = await _controller.GrantRole("user-1", "Superuser");
+
+        // Assert
+        Assert.IsType<BadRequestObjectResult>(result);
+        Assert.Empty(_context.UserAccountAudits);
+    }
+
+    [Fact]
+    public async Task RevokeRole_OwnAdminRole_ReturnsBadRequest()
+    {
+        // Arrange
+        var admin = new ApplicationUser { Id = AdminId, Email = AdminEmail };
+        _mockUserManager.Setup(x => x.FindByIdAsync(AdminId)).ReturnsAsync(admin);
+
+        // Act
+        var result = await _controller.RevokeRole(AdminId, Roles.Admin);
+
+        // Assert
+        Assert.IsType<BadRequestObjectResult>(result);
+        _mockUserManager.Verify(x => x.RemoveFromRoleAsync(It.IsAny<ApplicationUser>(), It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task LockUser_EndsSessionsAndRecordsAudit()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        _mockUserManager.Setup(x => x.FindByIdAsync(user.Id)).ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.SetLockoutEnabledAsync(user, true)).ReturnsAsync(IdentityResult.Success);
+        _mockUserManager.Setup(x => x.SetLockoutEndDateAsync(user, DateTimeOffset.MaxValue)).ReturnsAsync(IdentityResult.Success);
+        _mockUserManager.Setup(x => x.GetRolesAsync(user)).ReturnsAsync(new List<string>());
+
+        // Act
+        var result = await _controller.LockUser(user.Id);
+
+        // Assert
+        Assert.IsType<OkObjectResult>(result);
+        _mockRefreshTokens.Verify(x => x.RevokeAllAsync(user.Id, It.IsAny<CancellationToken>()), Times.Once);
+        Assert.Equal("Locked", Assert.Single(_context.UserAccountAudits).Action);
+    }
+
+    [Fact]
+    public async Task LockUser_OwnAccount_ReturnsBadRequest()
+    {
+        // Arrange
+        var admin = new ApplicationUser { Id = AdminId, Email = AdminEmail };
+        _mockUserManager.Setup(x => x.FindByIdAsync(AdminId)).ReturnsAsync(admin);
+
+        // Act
+        var result = await _controller.LockUser(AdminId);
+
+        // Assert
+        Assert.IsType<BadRequestObjectResult>(result);
+        Assert.Empty(_context.UserAccountAudits);
+    }
+
+    [Fact]
+    public async Task ResetPassword_ReturnsTemporaryPasswordWithoutStoringIt()
+    {
+        // Arrange
+        var user = new ApplicationUser { Id = "user-1", Email = "jack@stargate.com" };
+        _mockUserManager.Setup(x => x.FindByIdAsync(user.Id)).ReturnsAsync(user);
+        _mockUserManager.Setup(x => x.GeneratePasswordResetTokenAsync(user)).ReturnsAsync("reset-token");
+        _mockUserManager.Setup(x => x.ResetPasswordAsync(user, "reset-token", It.IsAny<string>()))
+            .ReturnsAsync(IdentityResult.Success);
+
+        // Act
+        var result = await _controller.ResetPassword(user.Id);
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<PasswordResetResponse>(okResult.Value);
+        Assert.True(response.TemporaryPassword.Length >= 8);
+        _mockRefreshTokens.Verify(x => x.RevokeAllAsync(user.Id, It.IsAny<CancellationToken>()), Times.Once);
+
+        var audit = Assert.Single(_context.UserAccountAudits);
+        Assert.Equal("PasswordReset", audit.Action);
+        Assert.DoesNotContain(response.TemporaryPassword, audit.Detail ?? string.Empty);
+    }
+}
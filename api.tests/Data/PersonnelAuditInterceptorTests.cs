@@ -0,0 +1,185 @@
+using Microsoft.AspNetCore.Http;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using StargateAPI.Business.Commands;
+using StargateAPI.Business.Data;
+using StargateAPI.Business.Queries;
+using StargateAPI.Middleware;
+using StargateAPI.Tests.Fixtures;
+using System.Security.Claims;
+using System.Text.Json;
+using Xunit;
+
+namespace StargateAPI.Tests.Data;
+
+public class PersonnelAuditInterceptorTests
+{
+    private readonly StargateContext _context;
+    private readonly DefaultHttpContext _httpContext;
+    private readonly HttpContextAccessor _httpContextAccessor;
+
+    public PersonnelAuditInterceptorTests()
+    {
+        _httpContext = new DefaultHttpContext
+        {
+            User = new ClaimsPrincipal(new ClaimsIdentity(new[]
+            {
+                new Claim(ClaimTypes.NameIdentifier, "editor-1"),
+                new Claim(ClaimTypes.Email, "editor@stargate.com")
+            }, "Test"))
+        };
+        _httpContextAccessor = new HttpContextAccessor { HttpContext = _httpContext };
+
+        _context = TestDbContextFactory.Create(new PersonnelAuditInterceptor(_httpContextAccessor));
+    }
+
+    [Fact]
+    public async Task SaveChanges_NewPerson_RecordsCreationWithActingUser()
+    {
+        // Act
+        var person = new Person { Name = "John Doe" };
+        _context.People.Add(person);
+        await _context.SaveChangesAsync();
+
+        // Assert
+        var audit = Assert.Single(_context.PersonnelAudits);
+        Assert.Equal("Created", audit.Action);
+        Assert.Equal(nameof(Person), audit.EntityType);
+        Assert.Equal(person.Id, audit.EntityId);
+        Assert.Equal(person.Id, audit.PersonId);
+        Assert.Equal("editor-1", audit.PerformedByUserId);
+        Assert.Equal("editor@stargate.com", audit.PerformedByEmail);
+
+        var change = Assert.Single(Changes(audit));
+        Assert.Equal("Name", change.Field);
+        Assert.Null(change.OldValue);
+        Assert.Equal("John Doe", change.NewValue);
+    }
+
+    [Fact]
+    public async Task SaveChanges_Rename_RecordsOnlyTheChangedField()
+    {
+        // Arrange
+        _context.People.Add(new Person { Name = "Jon Doe" });
+        await _context.SaveChangesAsync();
+        var handler = new RenamePersonHandler(_context);
+
+        // Act
+        await handler.Handle(new RenamePerson { CurrentName = "Jon Doe", NewName = "John Doe" }, CancellationToken.None);
+
+        // Assert
+        var audit = Assert.Single(_context.PersonnelAudits, a => a.Action == "Updated");
+        var change = Assert.Single(Changes(audit));
+        Assert.Equal("Name", change.Field);
+        Assert.Equal("Jon Doe", change.OldValue);
+        Assert.Equal("John Doe", change.NewValue);
+    }
+
+    [Fact]
+    public async Task SaveChanges_DeletedDuty_RecordsPreviousValuesAgainstThePerson()
+    {
+        // Arrange
+        var person = new Person { Name = "John Doe" };
+        var duty = new AstronautDuty
+        {
+            Person = person,
+            Rank = "1LT",
+            DutyTitle = "Commander",
+            DutyStartDate = new DateTime(2020, 1, 1, 0, 0, 0, DateTimeKind.Utc)
+        };
+        _context.AstronautDuties.Add(duty);
+        await _context.SaveChangesAsync();
+
+        // Act
+        _context.AstronautDuties.Remove(duty);
+        await _context.SaveChangesAsync();
+
+        // Assert
+        var audit = Assert.Single(_context.PersonnelAudits, a => a.Action == "Deleted");
+        Assert.Equal(nameof(AstronautDuty), audit.EntityType);
+        Assert.Equal(person.Id, audit.PersonId);
+        var changes = Changes(audit);
+        Assert.Contains(changes, c => c.Field == "DutyTitle" && c.OldValue == "Commander" && c.NewValue == null);
+        Assert.Contains(changes, c => c.Field == "DutyStartDate" && c.OldValue == "2020-01-01T00:00:00.0000000Z");
+    }
+
+    [Fact]
+    public async Task GetPersonHistory_ByPreviousName_ReturnsNewestFirst()
+    {
+        // Arrange
+        _context.People.Add(new Person { Name = "Jon Doe" });
+        await _context.SaveChangesAsync();
+        await new RenamePersonHandler(_context)
+            .Handle(new RenamePerson { CurrentName = "Jon Doe", NewName = "John Doe" }, CancellationToken.None);
+
+        // Act
+        var result = await new GetPersonHistoryHandler(_context)
+            .Handle(new GetPersonHistory { Name = "Jon Doe" }, CancellationToken.None);
+
+        // Assert
+        Assert.True(result.Success);
+        Assert.Equal(new[] { "Updated", "Created" }, result.History.Select(h => h.Action));
+    }
+
+    [Fact]
+    public async Task SaveChanges_WithCorrelationHeader_IsFoundByTheTrace()
+    {
+        // Arrange
+        _httpContext.Request.Headers[CorrelationIdMiddleware.HeaderName] = "action-42";
+        await new CorrelationIdMiddleware().InvokeAsync(_httpContext, _ => Task.CompletedTask);
+
+        // Act
+        _context.People.Add(new Person { Name = "John Doe" });
+        await _context.SaveChangesAsync();
+        var result = await new GetTraceAuditsHandler(_context)
+            .Handle(new GetTraceAudits { CorrelationIds = new List<string> { "action-42" } }, CancellationToken.None);
+
+        // Assert
+        Assert.Equal("action-42", Assert.Single(_context.PersonnelAudits).CorrelationId);
+        var audit = Assert.Single(result.Audits);
+        Assert.Equal("Personnel", audit.Source);
+        Assert.Equal("Created", audit.Action);
+    }
+
+    [Fact]
+    public async Task SaveChanges_WhenAuditWriteFails_RollsBackTheChange()
+    {
+        // Arrange
+        using var connection = new SqliteConnection("DataSource=:memory:");
+        connection.Open();
+        using var context = TestDbContextFactory.CreateSqlite(connection,
+            new PersonnelAuditInterceptor(_httpContextAccessor), new FailingAuditWriteInterceptor());
+
+        // Act
+        context.People.Add(new Person { Name = "John Doe" });
+        await Assert.ThrowsAsync<DbUpdateException>(() => context.SaveChangesAsync());
+
+        // Assert
+        using var stored = TestDbContextFactory.CreateSqlite(connection);
+        Assert.Empty(stored.People);
+        Assert.Empty(stored.PersonnelAudits);
+        Assert.Empty(context.ChangeTracker.Entries<PersonnelAudit>());
+    }
+
+    private static List<PersonnelAuditChange> Changes(PersonnelAudit audit)
+    {
+        return JsonSerializer.Deserialize<List<PersonnelAuditChange>>(audit.Changes)!;
+    }
+
+    /// <summary>
+    /// Fails any save that writes audit entries, as a lost connection would
+    /// </summary>
+    private class FailingAuditWriteInterceptor : SaveChangesInterceptor
+    {
+        public override ValueTask<InterceptionResult<int>> SavingChangesAsync(DbContextEventData eventData, InterceptionResult<int> result, CancellationToken cancellationToken = default)
+        {
+            if (eventData.Context!.ChangeTracker.Entries<PersonnelAudit>().Any(e => e.State == EntityState.Added))
+            {
+                throw new DbUpdateException("The audit table is unavailable.");
+            }
+
+            return base.SavingChangesAsync(eventData, result, cancellationToken);
+        }
+    }
+}
@@ -0,0 +1,70 @@
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Tests.Fixtures;
+
+/// <summary>
+/// Creates an isolated in-memory StargateContext for handler tests
+/// </summary>
+public static class TestDbContextFactory
+{
+    public static StargateContext Create(params IInterceptor[] interceptors)
+    {
+        var options = new DbContextOptionsBuilder<StargateContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .AddInterceptors(interceptors)
+            .Options;
+
+        return Create(options);
+    }
+
+    /// <summary>
+    /// A context over an open SQLite in-memory connection, for tests that need
+    /// real transactions. Contexts sharing the connection share the database.
+    /// </summary>
+    public static StargateContext CreateSqlite(SqliteConnection connection, params IInterceptor[] interceptors)
+    {
+        var options = new DbContextOptionsBuilder<StargateContext>()
+            .UseSqlite(connection)
+            .AddInterceptors(interceptors)
+            .Options;
+
+        var context = Create(options);
+        context.Database.EnsureCreated();
+        return context;
+    }
+
+    private static StargateContext Create(DbContextOptions<StargateContext> options)
+    {
+
+        // The DbSets are required members, so satisfy the initializer and then
+        // point them back at the context's own sets
+        var context = new StargateContext(options)
+        {
+            AlertIncidents = null!,
+            AlertRules = null!,
+            People = null!,
+            AstronautDetails = null!,
+            AstronautDuties = null!,
+            PersonNameHistory = null!,
+            PersonnelAudits = null!,
+            RefreshTokens = null!,
+            UserAccountAudits = null!,
+            UserSignIns = null!
+        };
+        context.AlertIncidents = context.Set<AlertIncident>();
+        context.AlertRules = context.Set<AlertRule>();
+        context.People = context.Set<Person>();
+        context.AstronautDetails = context.Set<AstronautDetail>();
+        context.AstronautDuties = context.Set<AstronautDuty>();
+        context.PersonNameHistory = context.Set<PersonNameHistory>();
+        context.PersonnelAudits = context.Set<PersonnelAudit>();
+        context.RefreshTokens = context.Set<RefreshToken>();
+        context.UserAccountAudits = context.Set<UserAccountAudit>();
+        context.UserSignIns = context.Set<UserSignIn>();
+
+        return context;
+    }
+}
@@ -0,0 +1,53 @@
+using StargateAPI.Logging;
+using Xunit;
+
+namespace StargateAPI.Tests.Logging;
+
+public class LogSearchQueryTests
+{
+    [Fact]
+    public void Validate_WithDefaults_ReturnsNull()
+    {
+        // Arrange
+        var query = new LogSearchQuery();
+
+        // Act
+        var error = query.Validate();
+
+        // Assert
+        Assert.Null(error);
+    }
+
+    [Theory]
+    [InlineData(0, 20, null, null)]
+    [InlineData(1, 500, null, null)]
+    [InlineData(1, 20, 500, 400)]
+    public void Validate_WithInvalidPagingOrStatusRange_ReturnsError(int page, int pageSize, int? statusFrom, int? statusTo)
+    {
+        // Arrange
+        var query = new LogSearchQuery { Page = page, PageSize = pageSize, StatusFrom = statusFrom, StatusTo = statusTo };
+
+        // Act
+        var error = query.Validate();
+
+        // Assert
+        Assert.NotNull(error);
+    }
+
+    [Fact]
+    public void Validate_WithTimeRangeEndingBeforeItStarts_ReturnsError()
+    {
+        // Arrange
+        var query = new LogSearchQuery
+        {
+            From = new DateTime(2026, 10, 18, 12, 0, 0, DateTimeKind.Utc),
+            To = new DateTime(2026, 10, 18, 11, 0, 0, DateTimeKind.Utc)
+        };
+
+        // Act
+        var error = query.Validate();
+
+        // Assert
+        Assert.Equal("The start of the time range must be before its end.", error);
+    }
+}
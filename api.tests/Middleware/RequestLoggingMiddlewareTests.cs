@@ -0,0 +1,55 @@
+using Microsoft.AspNetCore.Http;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using StargateAPI.Logging;
+using StargateAPI.Middleware;
+using Xunit;
+
+namespace StargateAPI.Tests.Middleware;
+
+public class RequestLoggingMiddlewareTests
+{
+    private readonly Mock<ILogService> _mockLogService = new();
+    private readonly RequestLoggingMiddleware _middleware;
+
+    public RequestLoggingMiddlewareTests()
+    {
+        _middleware = new RequestLoggingMiddleware(_mockLogService.Object, NullLogger<RequestLoggingMiddleware>.Instance);
+    }
+
+    [Fact]
+    public async Task InvokeAsync_Request_LogsIt()
+    {
+        // Arrange
+        var context = new DefaultHttpContext();
+        context.Request.Path = "/api/Person";
+
+        // Act
+        await _middleware.InvokeAsync(context, ctx =>
+        {
+            ctx.Response.ContentType = "application/json";
+            return Task.CompletedTask;
+        });
+
+        // Assert
+        _mockLogService.Verify(x => x.LogRequestAsync(It.Is<RequestLogEntry>(e => e.Path == "/api/Person"), It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task InvokeAsync_EventStream_IsNotLoggedAsARequest()
+    {
+        // Arrange
+        var context = new DefaultHttpContext();
+        context.Request.Path = "/api/Health/stream";
+
+        // Act
+        await _middleware.InvokeAsync(context, ctx =>
+        {
+            ctx.Response.ContentType = "text/event-stream";
+            return Task.CompletedTask;
+        });
+
+        // Assert
+        _mockLogService.Verify(x => x.LogRequestAsync(It.IsAny<RequestLogEntry>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+}
@@ -0,0 +1,71 @@
+using Moq;
+using StargateAPI.Logging;
+using StargateAPI.Monitoring;
+using Xunit;
+
+namespace StargateAPI.Tests.Monitoring;
+
+public class AdminEventHubTests
+{
+    [Fact]
+    public void Publish_DeliversEventToEverySubscriber()
+    {
+        // Arrange
+        var hub = new AdminEventHub();
+        using var first = hub.Subscribe();
+        using var second = hub.Subscribe();
+
+        // Act
+        hub.Publish(new AdminEvent(AdminEventTypes.Requests, "tick"));
+
+        // Assert
+        Assert.True(first.Events.TryRead(out var firstEvent));
+        Assert.True(second.Events.TryRead(out var secondEvent));
+        Assert.Equal(AdminEventTypes.Requests, firstEvent!.Type);
+        Assert.Equal("tick", secondEvent!.Data);
+    }
+
+    [Fact]
+    public void Dispose_RemovesSubscriber()
+    {
+        // Arrange
+        var hub = new AdminEventHub();
+        var subscription = hub.Subscribe();
+
+        // Act
+        subscription.Dispose();
+        hub.Publish(new AdminEvent(AdminEventTypes.Requests, "tick"));
+
+        // Assert
+        Assert.Equal(0, hub.SubscriberCount);
+        Assert.False(subscription.Events.TryRead(out _));
+    }
+
+    [Fact]
+    public async Task BroadcastingLogService_PublishesExceptionsAndCountsRequests()
+    {
+        // Arrange
+        var hub = new AdminEventHub();
+        var counter = new RequestRateCounter();
+        var inner = new Mock<ILogService>();
+        var logService = new BroadcastingLogService(inner.Object, hub, counter);
+        using var subscription = hub.Subscribe();
+        var entry = new ExceptionLogEntry { ExceptionId = "abc", ExceptionType = "TestException" };
+
+        // Act
+        await logService.LogExceptionAsync(entry, CancellationToken.None);
+        await logService.LogRequestAsync(new RequestLogEntry { StatusCode = 500, DurationMs = 40 }, CancellationToken.None);
+        await logService.LogRequestAsync(new RequestLogEntry { StatusCode = 404, DurationMs = 20 }, CancellationToken.None);
+        var snapshot = counter.TakeSnapshot();
+
+        // Assert
+        Assert.True(subscription.Events.TryRead(out var published));
+        Assert.Equal(AdminEventTypes.Exception, published!.Type);
+        Assert.Same(entry, published.Data);
+        Assert.Equal(2, snapshot.Requests);
+        Assert.Equal(1, snapshot.ServerErrors);
+        Assert.Equal(1, snapshot.ClientErrors);
+        Assert.Equal(30, snapshot.AverageDurationMs);
+        inner.Verify(s => s.LogExceptionAsync(entry, CancellationToken.None), Times.Once);
+    }
+}
@@ -0,0 +1,127 @@
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+using Microsoft.Extensions.Logging;
+using Moq;
+using StargateAPI.Business.Data;
+using StargateAPI.Monitoring;
+using StargateAPI.Tests.Fixtures;
+using Xunit;
+
+namespace StargateAPI.Tests.Monitoring;
+
+public class AlertEvaluatorTests
+{
+    private static readonly DateTime Now = new(2026, 10, 18, 12, 0, 0, DateTimeKind.Utc);
+
+    private readonly StargateContext _context = TestDbContextFactory.Create();
+    private readonly Mock<IAlertMetricsSource> _metrics = new();
+    private readonly Mock<IAlertNotifier> _notifier = new();
+    private readonly AlertEvaluator _evaluator;
+
+    public AlertEvaluatorTests()
+    {
+        _evaluator = new AlertEvaluator(_metrics.Object, _notifier.Object, Mock.Of<ILogger<AlertEvaluator>>());
+    }
+
+    [Fact]
+    public async Task EvaluateAsync_UnhealthyComponent_FiresOnlyOnceTheWindowHasPassed()
+    {
+        // Arrange
+        AddRule(AlertRuleKinds.ComponentUnhealthy, threshold: 0, windowMinutes: 2);
+        _metrics.Setup(m => m.GetComponentStatusesAsync(It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new Dictionary<string, HealthStatus> { ["database"] = HealthStatus.Unhealthy });
+
+        // Act
+        await _evaluator.EvaluateAsync(_context, Now, CancellationToken.None);
+        var firedEarly = _context.AlertIncidents.Any();
+        await _evaluator.EvaluateAsync(_context, Now.AddMinutes(2), CancellationToken.None);
+
+        // Assert
+        Assert.False(firedEarly);
+        var incident = Assert.Single(_context.AlertIncidents);
+        Assert.Equal("database", incident.Subject);
+        Assert.Equal(AlertIncidentStatuses.Open, incident.Status);
+        _notifier.Verify(n => n.NotifyAsync(incident, It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task EvaluateAsync_ExceptionCountStillHigh_KeepsTheAcknowledgedIncident()
+    {
+        // Arrange
+        AddRule(AlertRuleKinds.ExceptionCount, threshold: 5, windowMinutes: 15);
+        SetExceptionCounts(new Dictionary<string, long> { ["TimeoutException"] = 6 });
+        await _evaluator.EvaluateAsync(_context, Now, CancellationToken.None);
+        _context.AlertIncidents.Single().Status = AlertIncidentStatuses.Acknowledged;
+        await _context.SaveChangesAsync();
+        SetExceptionCounts(new Dictionary<string, long> { ["TimeoutException"] = 9 });
+
+        // Act
+        await _evaluator.EvaluateAsync(_context, Now.AddMinutes(1), CancellationToken.None);
+
+        // Assert
+        var incident = Assert.Single(_context.AlertIncidents);
+        Assert.Equal(AlertIncidentStatuses.Acknowledged, incident.Status);
+        Assert.Equal(9, incident.Value);
+    }
+
+    [Fact]
+    public async Task EvaluateAsync_ConditionCleared_ResolvesTheIncident()
+    {
+        // Arrange
+        AddRule(AlertRuleKinds.ExceptionCount, threshold: 5, windowMinutes: 15);
+        SetExceptionCounts(new Dictionary<string, long> { ["TimeoutException"] = 6 });
+        await _evaluator.EvaluateAsync(_context, Now, CancellationToken.None);
+        SetExceptionCounts(new Dictionary<string, long> { ["TimeoutException"] = 2 });
+
+        // Act
+        await _evaluator.EvaluateAsync(_context, Now.AddMinutes(1), CancellationToken.None);
+
+        // Assert
+        var incident = Assert.Single(_context.AlertIncidents);
+        Assert.Equal(AlertIncidentStatuses.Resolved, incident.Status);
+        Assert.Equal(Now.AddMinutes(1), incident.ResolvedAt);
+        Assert.Null(incident.ResolvedByEmail);
+        _notifier.Verify(n => n.NotifyAsync(incident, It.IsAny<CancellationToken>()), Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task EvaluateAsync_RuleDisabled_ResolvesItsActiveIncidents()
+    {
+        // Arrange
+        var rule = AddRule(AlertRuleKinds.ExceptionCount, threshold: 5, windowMinutes: 15);
+        SetExceptionCounts(new Dictionary<string, long> { ["TimeoutException"] = 6 });
+        await _evaluator.EvaluateAsync(_context, Now, CancellationToken.None);
+        _context.AlertIncidents.Single().Status = AlertIncidentStatuses.Acknowledged;
+        rule.Enabled = false;
+        await _context.SaveChangesAsync();
+
+        // Act
+        await _evaluator.EvaluateAsync(_context, Now.AddMinutes(1), CancellationToken.None);
+
+        // Assert
+        var incident = Assert.Single(_context.AlertIncidents);
+        Assert.Equal(AlertIncidentStatuses.Resolved, incident.Status);
+        Assert.Equal(Now.AddMinutes(1), incident.ResolvedAt);
+        _notifier.Verify(n => n.NotifyAsync(incident, It.IsAny<CancellationToken>()), Times.Exactly(2));
+    }
+
+    private AlertRule AddRule(string kind, double threshold, int windowMinutes)
+    {
+        var rule = new AlertRule
+        {
+            Name = kind,
+            Kind = kind,
+            Threshold = threshold,
+            WindowMinutes = windowMinutes,
+            Enabled = true
+        };
+        _context.AlertRules.Add(rule);
+        _context.SaveChanges();
+        return rule;
+    }
+
+    private void SetExceptionCounts(Dictionary<string, long> counts)
+    {
+        _metrics.Setup(m => m.GetExceptionCountsAsync(It.IsAny<DateTime>(), null, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(counts);
+    }
+}
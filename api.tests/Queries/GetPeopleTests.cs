@@ -0,0 +1,272 @@
+using StargateAPI.Business.Data;
+using StargateAPI.Business.Dtos;
+using StargateAPI.Business.Queries;
+using StargateAPI.Tests.Fixtures;
+using System.Net;
+using Xunit;
+
+namespace StargateAPI.Tests.Queries;
+
+public class GetPeopleTests
+{
+    private static DateTime Utc(int year, int month, int day) => new(year, month, day, 0, 0, 0, DateTimeKind.Utc);
+
+    /// <summary>
+    /// Seeds three active astronauts, one retired astronaut and one person
+    /// who has never held a duty
+    /// </summary>
+    private static async Task<StargateContext> SeedAsync()
+    {
+        var context = TestDbContextFactory.Create();
+        context.People.AddRange(
+            Astronaut("Ada Lovelace", "Captain", "Pilot", Utc(2020, 3, 1)),
+            Astronaut("Buzz Aldrin", "Colonel", "RETIRED", Utc(2015, 6, 1), Utc(2022, 1, 1)),
+            Astronaut("Chris Hadfield", "Captain", "Commander", Utc(2018, 1, 15)),
+            new Person { Name = "Dana Scully" },
+            Astronaut("Ed White", "Major", "Pilot", Utc(2021, 9, 1)));
+        await context.SaveChangesAsync();
+        return context;
+    }
+
+    private static Person Astronaut(string name, string rank, string dutyTitle, DateTime careerStart, DateTime? careerEnd = null)
+    {
+        return new Person
+        {
+            Name = name,
+            AstronautDetail = new AstronautDetail
+            {
+                CurrentRank = rank,
+                CurrentDutyTitle = dutyTitle,
+                CareerStartDate = careerStart,
+                CareerEndDate = careerEnd
+            }
+        };
+    }
+
+    private static async Task<GetPeopleResult> HandleAsync(StargateContext context, GetPeople request)
+    {
+        return await new GetPeopleHandler(context).Handle(request, CancellationToken.None);
+    }
+
+    private static string[] Names(GetPeopleResult result) => result.People.Select(p => p.Name).ToArray();
+
+    private static int CountOf(List<FacetCount> facet, string value) => facet.Single(f => f.Value == value).Count;
+
+    [Fact]
+    public async Task Handle_WithoutPage_ReturnsWholeDirectoryWithCounts()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople());
+
+        // Assert
+        Assert.True(result.Success);
+        Assert.Equal(new[] { "Ada Lovelace", "Buzz Aldrin", "Chris Hadfield", "Dana Scully", "Ed White" }, Names(result));
+        Assert.Equal(5, result.Total);
+        Assert.Equal(1, result.TotalPages);
+        Assert.Equal(5, result.TotalPeople);
+        Assert.Equal(3, result.ActiveAstronautCount);
+        Assert.Equal(1, result.NonAstronautCount);
+    }
+
+    [Fact]
+    public async Task Handle_WithPage_ReturnsThatPage()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Page = 2, PageSize = 2 });
+
+        // Assert
+        Assert.Equal(new[] { "Chris Hadfield", "Dana Scully" }, Names(result));
+        Assert.Equal(5, result.Total);
+        Assert.Equal(3, result.TotalPages);
+    }
+
+    [Theory]
+    [InlineData(1, null, 1, GetPeopleHandler.DefaultPageSize, 1)]
+    [InlineData(0, 2, 1, 2, 3)]
+    [InlineData(-3, 2, 1, 2, 3)]
+    [InlineData(1, 0, 1, 1, 5)]
+    [InlineData(1, 1000, 1, GetPeopleHandler.MaxPageSize, 1)]
+    public async Task Handle_WithOutOfRangePaging_ClampsPageAndPageSize(
+        int page, int? pageSize, int expectedPage, int expectedPageSize, int expectedTotalPages)
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Page = page, PageSize = pageSize });
+
+        // Assert
+        Assert.Equal(expectedPage, result.Page);
+        Assert.Equal(expectedPageSize, result.PageSize);
+        Assert.Equal(expectedTotalPages, result.TotalPages);
+        Assert.Equal(Math.Min(expectedPageSize, 5), result.People.Count);
+    }
+
+    [Theory]
+    [InlineData("name", "asc", "Ada Lovelace,Buzz Aldrin,Chris Hadfield,Dana Scully,Ed White")]
+    [InlineData("name", "desc", "Ed White,Dana Scully,Chris Hadfield,Buzz Aldrin,Ada Lovelace")]
+    [InlineData("currentRank", "asc", "Dana Scully,Ada Lovelace,Chris Hadfield,Buzz Aldrin,Ed White")]
+    [InlineData("currentRank", "desc", "Ed White,Buzz Aldrin,Ada Lovelace,Chris Hadfield,Dana Scully")]
+    [InlineData("currentDutyTitle", "asc", "Dana Scully,Chris Hadfield,Ada Lovelace,Ed White,Buzz Aldrin")]
+    [InlineData("CURRENTDUTYTITLE", "DESC", "Buzz Aldrin,Ada Lovelace,Ed White,Chris Hadfield,Dana Scully")]
+    public async Task Handle_WithSort_OrdersByFieldThenName(string sortBy, string sortDirection, string expected)
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { SortBy = sortBy, SortDirection = sortDirection });
+
+        // Assert
+        Assert.Equal(expected.Split(','), Names(result));
+    }
+
+    [Fact]
+    public async Task Handle_WithUnsupportedSortField_ReturnsBadRequest()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { SortBy = "careerStartDate" });
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.BadRequest, result.ResponseCode);
+    }
+
+    [Theory]
+    [InlineData("aldrin", "Buzz Aldrin")]
+    [InlineData("  CAPTAIN ", "Ada Lovelace,Chris Hadfield")]
+    [InlineData("pilot", "Ada Lovelace,Ed White")]
+    public async Task Handle_WithSearch_MatchesNameRankOrDutyTitle(string search, string expected)
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Search = search });
+
+        // Assert
+        Assert.Equal(expected.Split(','), Names(result));
+        Assert.Equal(expected.Split(',').Length, result.Total);
+        Assert.Equal(5, result.TotalPeople);
+    }
+
+    [Theory]
+    [InlineData("active", "Ada Lovelace,Chris Hadfield,Ed White")]
+    [InlineData("retired", "Buzz Aldrin")]
+    [InlineData("unassigned", "Dana Scully")]
+    [InlineData("Retired,UNASSIGNED", "Buzz Aldrin,Dana Scully")]
+    public async Task Handle_WithStatuses_DerivesStatusFromCareerDates(string statuses, string expected)
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Statuses = statuses.Split(',').ToList() });
+
+        // Assert
+        Assert.Equal(expected.Split(','), Names(result));
+    }
+
+    [Fact]
+    public async Task Handle_WithUnsupportedStatus_ReturnsBadRequest()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Statuses = { "deceased" } });
+
+        // Assert
+        Assert.False(result.Success);
+        Assert.Equal((int)HttpStatusCode.BadRequest, result.ResponseCode);
+    }
+
+    [Fact]
+    public async Task Handle_WithSeveralFilters_ReturnsPeopleMatchingAll()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople
+        {
+            Ranks = { "Captain", "Major" },
+            DutyTitles = { "Pilot" },
+            Statuses = { "active" },
+            CareerStartFrom = new DateTime(2020, 3, 1),
+            CareerStartTo = new DateTime(2021, 9, 1)
+        });
+
+        // Assert
+        Assert.Equal(new[] { "Ada Lovelace", "Ed White" }, Names(result));
+        Assert.Equal(2, result.Total);
+    }
+
+    [Fact]
+    public async Task Handle_WithCareerStartRange_ExcludesPeopleOutsideIt()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople
+        {
+            CareerStartFrom = new DateTime(2018, 1, 16),
+            CareerStartTo = new DateTime(2021, 8, 31)
+        });
+
+        // Assert
+        Assert.Equal(new[] { "Ada Lovelace" }, Names(result));
+    }
+
+    [Fact]
+    public async Task Handle_WithRankFilter_CountsEachFacetWithTheOtherFiltersOnly()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Ranks = { "Captain" } });
+
+        // Assert
+        // The rank facet ignores the rank filter; people without a rank are not a value
+        Assert.Equal(new[] { "Captain", "Colonel", "Major" }, result.Facets.Ranks.Select(f => f.Value));
+        Assert.Equal(2, CountOf(result.Facets.Ranks, "Captain"));
+        Assert.Equal(1, CountOf(result.Facets.Ranks, "Colonel"));
+        Assert.Equal(1, CountOf(result.Facets.Ranks, "Major"));
+
+        // The other facets count the captains only
+        Assert.Equal(new[] { "Commander", "Pilot" }, result.Facets.DutyTitles.Select(f => f.Value));
+        Assert.Equal(1, CountOf(result.Facets.DutyTitles, "Commander"));
+        Assert.Equal(1, CountOf(result.Facets.DutyTitles, "Pilot"));
+        Assert.Equal(2, CountOf(result.Facets.Statuses, PersonStatus.Active));
+        Assert.Equal(0, CountOf(result.Facets.Statuses, PersonStatus.Retired));
+        Assert.Equal(0, CountOf(result.Facets.Statuses, PersonStatus.Unassigned));
+    }
+
+    [Fact]
+    public async Task Handle_WithSearchAndStatusFilter_CountsFacetsWithinTheSearch()
+    {
+        // Arrange
+        var context = await SeedAsync();
+
+        // Act
+        var result = await HandleAsync(context, new GetPeople { Search = "pilot", Statuses = { "retired" } });
+
+        // Assert
+        Assert.Empty(result.People);
+        Assert.Equal(2, CountOf(result.Facets.Statuses, PersonStatus.Active));
+        Assert.Equal(0, CountOf(result.Facets.Statuses, PersonStatus.Retired));
+        Assert.Empty(result.Facets.Ranks);
+        Assert.Empty(result.Facets.DutyTitles);
+    }
+}
@@ -0,0 +1,52 @@
+using StargateAPI.Security;
+using Xunit;
+
+namespace StargateAPI.Tests.Security;
+
+public class OidcOptionsTests
+{
+    private readonly OidcOptions _options;
+
+    public OidcOptionsTests()
+    {
+        _options = new OidcOptions
+        {
+            RoleMappings = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase)
+            {
+                ["stargate-admins"] = "Admin",
+                ["stargate-editors"] = "editor",
+                ["stargate-owners"] = "Owner"
+            }
+        };
+    }
+
+    [Fact]
+    public void MapRoles_WithMappedGroups_ReturnsAppRoles()
+    {
+        // Act
+        var roles = _options.MapRoles(new[] { "Stargate-Admins", "stargate-editors", "unrelated" });
+
+        // Assert
+        Assert.Equal(new[] { Roles.Admin, Roles.Editor }, roles);
+    }
+
+    [Fact]
+    public void MapRoles_WithNoMappedGroups_ReturnsDefaultRole()
+    {
+        // Act
+        var roles = _options.MapRoles(new[] { "unrelated" });
+
+        // Assert
+        Assert.Equal(new[] { Roles.Viewer }, roles);
+    }
+
+    [Fact]
+    public void MapRoles_IgnoresMappingsToUnknownRoles()
+    {
+        // Act
+        var roles = _options.MapRoles(new[] { "stargate-owners" });
+
+        // Assert
+        Assert.Equal(new[] { Roles.Viewer }, roles);
+    }
+}
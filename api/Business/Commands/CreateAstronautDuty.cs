@@ -44,21 +44,32 @@ namespace StargateAPI.Business.Commands
 
         public Task Process(CreateAstronautDuty request, CancellationToken cancellationToken)
         {
-            if (string.IsNullOrWhiteSpace(request.Name)
-                || string.IsNullOrWhiteSpace(request.Rank)
-                || string.IsNullOrWhiteSpace(request.DutyTitle))
+            if (string.IsNullOrWhiteSpace(request.Name))
             {
-                throw new BadHttpRequestException("Name, rank, and duty title are required.");
+                throw new FieldValidationException(nameof(request.Name), "Name is required.");
+            }
+
+            if (string.IsNullOrWhiteSpace(request.Rank))
+            {
+                throw new FieldValidationException(nameof(request.Rank), "Rank is required.");
+            }
+
+            if (string.IsNullOrWhiteSpace(request.DutyTitle))
+            {
+                throw new FieldValidationException(nameof(request.DutyTitle), "Duty title is required.");
             }
 
             if (request.DutyStartDate == default)
             {
-                throw new BadHttpRequestException("Duty start date is required.");
+                throw new FieldValidationException(nameof(request.DutyStartDate), "Duty start date is required.");
             }
 
             var person = _context.People.AsNoTracking().FirstOrDefault(z => z.Name == request.Name);
 
-            if (person is null) throw new BadHttpRequestException("Bad Request");
+            if (person is null)
+            {
+                throw new FieldValidationException(nameof(request.Name), $"No person named \"{request.Name}\" was found.");
+            }
 
             var dutyStartDate = CreateAstronautDutyHelper.NormalizeToUtcDate(request.DutyStartDate);
 
@@ -67,7 +78,12 @@ namespace StargateAPI.Business.Commands
                     && z.DutyTitle == request.DutyTitle
                     && z.DutyStartDate == dutyStartDate);
 
-            if (verifyNoPreviousDuty is not null) throw new BadHttpRequestException("Bad Request");
+            if (verifyNoPreviousDuty is not null)
+            {
+                throw new FieldValidationException(
+                    nameof(request.DutyStartDate),
+                    $"{request.Name} already has a {request.DutyTitle} duty starting on {dutyStartDate:yyyy-MM-dd}.");
+            }
 
             return Task.CompletedTask;
         }
@@ -132,7 +148,9 @@ namespace StargateAPI.Business.Commands
             {
                 if (dutyStartDate <= currentDuty.DutyStartDate)
                 {
-                    throw new InvalidOperationException("The new duty start date must be after the current open duty's start date.");
+                    throw new FieldValidationException(
+                        nameof(request.DutyStartDate),
+                        $"The new duty start date must be after the current duty's start date ({currentDuty.DutyStartDate:yyyy-MM-dd}).");
                 }
                 currentDuty.DutyEndDate = dutyStartDate.AddDays(-1);
                 _context.AstronautDuties.Update(currentDuty);
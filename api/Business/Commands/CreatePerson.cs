@@ -22,7 +22,7 @@ namespace StargateAPI.Business.Commands
         {
             if (string.IsNullOrWhiteSpace(request.Name))
             {
-                throw new BadHttpRequestException("Name is required.");
+                throw new FieldValidationException(nameof(request.Name), "Name is required.");
             }
 
             return Task.CompletedTask;
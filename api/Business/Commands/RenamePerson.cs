@@ -0,0 +1,97 @@
+﻿using MediatR;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Controllers;
+using System.Net;
+
+namespace StargateAPI.Business.Commands
+{
+    public class RenamePerson : IRequest<RenamePersonResult>
+    {
+        public string CurrentName { get; set; } = string.Empty;
+
+        public required string NewName { get; set; }
+    }
+
+    public class RenamePersonHandler : IRequestHandler<RenamePerson, RenamePersonResult>
+    {
+        private readonly StargateContext _context;
+
+        public RenamePersonHandler(StargateContext context)
+        {
+            _context = context;
+        }
+
+        public async Task<RenamePersonResult> Handle(RenamePerson request, CancellationToken cancellationToken)
+        {
+            var result = new RenamePersonResult();
+            var newName = request.NewName?.Trim() ?? string.Empty;
+
+            if (string.IsNullOrWhiteSpace(newName))
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = "New name is required.";
+                return result;
+            }
+
+            var person = await _context.People
+                .FirstOrDefaultAsync(p => p.Name == request.CurrentName, cancellationToken);
+
+            if (person is null)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.NotFound;
+                result.Message = "Person not found.";
+                return result;
+            }
+
+            if (person.Name == newName)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = "New name is the same as the current name.";
+                return result;
+            }
+
+            // Names are matched exactly elsewhere, but two people differing only
+            // by case would be indistinguishable to users
+            var normalizedName = newName.ToLower();
+            var conflict = await _context.People
+                .AsNoTracking()
+                .Where(p => p.Id != person.Id && p.Name.ToLower() == normalizedName)
+                .Select(p => p.Name)
+                .FirstOrDefaultAsync(cancellationToken);
+
+            if (conflict is not null)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.Conflict;
+                result.Message = $"A person named \"{conflict}\" already exists.";
+                return result;
+            }
+
+            await _context.PersonNameHistory.AddAsync(new PersonNameHistory
+            {
+                PersonId = person.Id,
+                PreviousName = person.Name,
+                RenamedAt = DateTime.UtcNow
+            }, cancellationToken);
+
+            person.Name = newName;
+
+            await _context.SaveChangesAsync(cancellationToken);
+
+            result.Id = person.Id;
+            result.Name = person.Name;
+            return result;
+        }
+    }
+
+    public class RenamePersonResult : BaseResponse
+    {
+        public int Id { get; set; }
+
+        public string Name { get; set; } = string.Empty;
+    }
+}
@@ -0,0 +1,189 @@
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Controllers;
+using System.Net;
+
+namespace StargateAPI.Business.Commands
+{
+    public class UpdateAstronautDuty : IRequest<UpdateAstronautDutyResult>
+    {
+        public int Id { get; set; }
+
+        public required string Rank { get; set; }
+
+        public required string DutyTitle { get; set; }
+
+        public DateTime DutyStartDate { get; set; }
+
+        public DateTime? DutyEndDate { get; set; }
+
+        /// <summary>
+        /// Validate and return the resulting duty history without saving it
+        /// </summary>
+        public bool DryRun { get; set; }
+    }
+
+    public class UpdateAstronautDutyHandler : IRequestHandler<UpdateAstronautDuty, UpdateAstronautDutyResult>
+    {
+        private readonly StargateContext _context;
+
+        public UpdateAstronautDutyHandler(StargateContext context)
+        {
+            _context = context;
+        }
+
+        public async Task<UpdateAstronautDutyResult> Handle(UpdateAstronautDuty request, CancellationToken cancellationToken)
+        {
+            var result = new UpdateAstronautDutyResult();
+
+            if (string.IsNullOrWhiteSpace(request.Rank) || string.IsNullOrWhiteSpace(request.DutyTitle))
+            {
+                return Fail(result, HttpStatusCode.BadRequest, "Rank and duty title are required.");
+            }
+
+            if (request.DutyStartDate == default)
+            {
+                return Fail(result, HttpStatusCode.BadRequest, "Duty start date is required.", nameof(request.DutyStartDate));
+            }
+
+            var duty = await _context.AstronautDuties
+                .FirstOrDefaultAsync(d => d.Id == request.Id, cancellationToken);
+
+            if (duty is null)
+            {
+                return Fail(result, HttpStatusCode.NotFound, "Astronaut duty not found.");
+            }
+
+            var dutyStartDate = CreateAstronautDutyHelper.NormalizeToUtcDate(request.DutyStartDate);
+            DateTime? dutyEndDate = request.DutyEndDate.HasValue
+                ? CreateAstronautDutyHelper.NormalizeToUtcDate(request.DutyEndDate.Value)
+                : null;
+
+            if (dutyStartDate > DateTime.UtcNow.Date)
+            {
+                return Fail(result, HttpStatusCode.BadRequest, "Duty start date cannot be in the future.", nameof(request.DutyStartDate));
+            }
+
+            if (dutyEndDate.HasValue && dutyEndDate.Value < dutyStartDate)
+            {
+                return Fail(result, HttpStatusCode.BadRequest, "Duty end date cannot be before its start date.", nameof(request.DutyEndDate));
+            }
+
+            var duties = await _context.AstronautDuties
+                .Where(d => d.PersonId == duty.PersonId)
+                .OrderBy(d => d.DutyStartDate)
+                .ToListAsync(cancellationToken);
+
+            // A previous duty that ended the day before this one started keeps
+            // following the "ends the day before the next duty starts" rule
+            var previous = duties.LastOrDefault(d => d.Id != duty.Id && d.DutyStartDate < duty.DutyStartDate);
+            if (previous is not null
+                && previous.DutyEndDate == duty.DutyStartDate.AddDays(-1)
+                && dutyStartDate != duty.DutyStartDate)
+            {
+                previous.DutyEndDate = dutyStartDate.AddDays(-1);
+            }
+
+            duty.Rank = request.Rank;
+            duty.DutyTitle = request.DutyTitle;
+            duty.DutyStartDate = dutyStartDate;
+            duty.DutyEndDate = dutyEndDate;
+
+            var ordered = duties.OrderBy(d => d.DutyStartDate).ToList();
+            var conflict = FindConflict(ordered);
+            if (conflict is not null)
+            {
+                return Fail(result, HttpStatusCode.Conflict, conflict);
+            }
+
+            var astronautDetail = await _context.AstronautDetails
+                .FirstOrDefaultAsync(detail => detail.PersonId == duty.PersonId, cancellationToken);
+
+            if (astronautDetail is not null)
+            {
+                var first = ordered[0];
+                var current = ordered[^1];
+                var isRetired = string.Equals(current.DutyTitle, "RETIRED", StringComparison.OrdinalIgnoreCase);
+
+                astronautDetail.CareerStartDate = first.DutyStartDate;
+                astronautDetail.CurrentRank = current.Rank;
+                astronautDetail.CurrentDutyTitle = current.DutyTitle;
+                astronautDetail.CareerEndDate = isRetired ? current.DutyStartDate.AddDays(-1) : null;
+            }
+
+            if (!request.DryRun)
+            {
+                await _context.SaveChangesAsync(cancellationToken);
+            }
+
+            result.AstronautDuties = ordered
+                .OrderByDescending(d => d.DutyStartDate)
+                .Select(d => new AstronautDuty
+                {
+                    Id = d.Id,
+                    PersonId = d.PersonId,
+                    Rank = d.Rank,
+                    DutyTitle = d.DutyTitle,
+                    DutyStartDate = d.DutyStartDate,
+                    DutyEndDate = d.DutyEndDate
+                })
+                .ToList();
+
+            return result;
+        }
+
+        /// <summary>
+        /// Check a chronologically ordered duty history: every duty but the
+        /// latest must be closed before the next one starts, and only the
+        /// latest may stay open.
+        /// </summary>
+        private static string? FindConflict(List<AstronautDuty> ordered)
+        {
+            for (var i = 0; i < ordered.Count - 1; i++)
+            {
+                var duty = ordered[i];
+                var next = ordered[i + 1];
+
+                if (duty.DutyStartDate == next.DutyStartDate)
+                {
+                    return $"Another duty ({next.DutyTitle}) already starts on {next.DutyStartDate:yyyy-MM-dd}.";
+                }
+
+                if (duty.DutyEndDate is null)
+                {
+                    return $"Only the most recent duty can be open; {duty.DutyTitle} needs an end date before {next.DutyStartDate:yyyy-MM-dd}.";
+                }
+
+                if (duty.DutyEndDate.Value >= next.DutyStartDate)
+                {
+                    return $"{duty.DutyTitle} must end before {next.DutyTitle} starts on {next.DutyStartDate:yyyy-MM-dd}.";
+                }
+            }
+
+            if (ordered.Count > 0 && ordered[^1].DutyEndDate is not null)
+            {
+                return "The most recent duty must remain open.";
+            }
+
+            return null;
+        }
+
+        private static UpdateAstronautDutyResult Fail(UpdateAstronautDutyResult result, HttpStatusCode code, string message, string? field = null)
+        {
+            result.Success = false;
+            result.ResponseCode = (int)code;
+            result.Message = message;
+            if (field is not null)
+            {
+                result.Errors = new Dictionary<string, string[]> { [field] = new[] { message } };
+            }
+            return result;
+        }
+    }
+
+    public class UpdateAstronautDutyResult : BaseResponse
+    {
+        public List<AstronautDuty> AstronautDuties { get; set; } = new List<AstronautDuty>();
+    }
+}
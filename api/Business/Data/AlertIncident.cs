@@ -0,0 +1,70 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// One firing of an <see cref="AlertRule"/> for a subject (the component,
+    /// exception type or path that breached it). Open until an admin
+    /// acknowledges it, and resolved by an admin or when the condition clears.
+    /// </summary>
+    [Table("AlertIncident")]
+    public class AlertIncident
+    {
+        public int Id { get; set; }
+
+        public int AlertRuleId { get; set; }
+
+        public string Subject { get; set; } = string.Empty;
+
+        /// <summary>
+        /// One of <see cref="AlertIncidentStatuses"/>
+        /// </summary>
+        public string Status { get; set; } = AlertIncidentStatuses.Open;
+
+        public string Message { get; set; } = string.Empty;
+
+        /// <summary>
+        /// The measured value when last evaluated: minutes unhealthy, exception
+        /// count or p95 latency in milliseconds
+        /// </summary>
+        public double Value { get; set; }
+
+        public DateTime TriggeredAt { get; set; }
+
+        public DateTime? AcknowledgedAt { get; set; }
+
+        public string? AcknowledgedByEmail { get; set; }
+
+        public DateTime? ResolvedAt { get; set; }
+
+        /// <summary>
+        /// Empty when the incident resolved itself because the condition cleared
+        /// </summary>
+        public string? ResolvedByEmail { get; set; }
+
+        public virtual AlertRule AlertRule { get; set; }
+    }
+
+    public static class AlertIncidentStatuses
+    {
+        public const string Open = "Open";
+        public const string Acknowledged = "Acknowledged";
+        public const string Resolved = "Resolved";
+    }
+
+    public class AlertIncidentConfiguration : IEntityTypeConfiguration<AlertIncident>
+    {
+        public void Configure(EntityTypeBuilder<AlertIncident> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.Property(x => x.Subject).HasMaxLength(256);
+            builder.Property(x => x.Status).HasMaxLength(16);
+            builder.HasIndex(x => new { x.AlertRuleId, x.Status });
+            builder.HasIndex(x => x.TriggeredAt);
+            builder.HasOne(x => x.AlertRule).WithMany().HasForeignKey(x => x.AlertRuleId);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// An admin-defined condition on system health, exceptions or latency that
+    /// is checked on a schedule and raises an <see cref="AlertIncident"/> when
+    /// it holds
+    /// </summary>
+    [Table("AlertRule")]
+    public class AlertRule
+    {
+        public int Id { get; set; }
+
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// One of <see cref="AlertRuleKinds"/>
+        /// </summary>
+        public string Kind { get; set; } = string.Empty;
+
+        /// <summary>
+        /// The component, exception type or request path to watch; any when empty
+        /// </summary>
+        public string? Target { get; set; }
+
+        /// <summary>
+        /// Exceptions allowed in the window, or the p95 latency limit in
+        /// milliseconds. Unused for component health.
+        /// </summary>
+        public double Threshold { get; set; }
+
+        /// <summary>
+        /// How long a component must stay Unhealthy, or the period exceptions
+        /// and latency are measured over
+        /// </summary>
+        public int WindowMinutes { get; set; }
+
+        public string? WebhookUrl { get; set; }
+
+        public bool Enabled { get; set; } = true;
+
+        public string? CreatedByEmail { get; set; }
+
+        public DateTime CreatedAt { get; set; }
+
+        public DateTime UpdatedAt { get; set; }
+    }
+
+    public static class AlertRuleKinds
+    {
+        public const string ComponentUnhealthy = "ComponentUnhealthy";
+        public const string ExceptionCount = "ExceptionCount";
+        public const string LatencyP95 = "LatencyP95";
+
+        public static readonly string[] All = { ComponentUnhealthy, ExceptionCount, LatencyP95 };
+    }
+
+    public class AlertRuleConfiguration : IEntityTypeConfiguration<AlertRule>
+    {
+        public void Configure(EntityTypeBuilder<AlertRule> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.Property(x => x.Name).HasMaxLength(128);
+            builder.Property(x => x.Kind).HasMaxLength(32);
+            builder.Property(x => x.Target).HasMaxLength(256);
+            builder.Property(x => x.WebhookUrl).HasMaxLength(512);
+        }
+    }
+}
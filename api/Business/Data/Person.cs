@@ -15,6 +15,8 @@ namespace StargateAPI.Business.Data
 
         public virtual ICollection<AstronautDuty> AstronautDuties { get; set; } = new HashSet<AstronautDuty>();
 
+        public virtual ICollection<PersonNameHistory> NameHistory { get; set; } = new HashSet<PersonNameHistory>();
+
     }
 
     public class PersonConfiguration : IEntityTypeConfiguration<Person>
@@ -25,6 +27,7 @@ namespace StargateAPI.Business.Data
             builder.Property(x => x.Id).ValueGeneratedOnAdd();
             builder.HasOne(z => z.AstronautDetail).WithOne(z => z.Person).HasForeignKey<AstronautDetail>(z => z.PersonId);
             builder.HasMany(z => z.AstronautDuties).WithOne(z => z.Person).HasForeignKey(z => z.PersonId);
+            builder.HasMany(z => z.NameHistory).WithOne(z => z.Person).HasForeignKey(z => z.PersonId);
         }
     }
 }
@@ -0,0 +1,30 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    [Table("PersonNameHistory")]
+    public class PersonNameHistory
+    {
+        public int Id { get; set; }
+
+        public int PersonId { get; set; }
+
+        public string PreviousName { get; set; } = string.Empty;
+
+        public DateTime RenamedAt { get; set; }
+
+        public virtual Person Person { get; set; }
+    }
+
+    public class PersonNameHistoryConfiguration : IEntityTypeConfiguration<PersonNameHistory>
+    {
+        public void Configure(EntityTypeBuilder<PersonNameHistory> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.HasIndex(x => x.PreviousName);
+        }
+    }
+}
@@ -0,0 +1,64 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// A create, update or delete of a person, astronaut detail or duty, with
+    /// the fields that changed. Entries are keyed by person id without a
+    /// foreign key so they outlive the records they describe.
+    /// </summary>
+    [Table("PersonnelAudit")]
+    public class PersonnelAudit
+    {
+        public int Id { get; set; }
+
+        public int PersonId { get; set; }
+
+        public string EntityType { get; set; } = string.Empty;
+
+        public int EntityId { get; set; }
+
+        public string Action { get; set; } = string.Empty;
+
+        /// <summary>
+        /// JSON array of <see cref="PersonnelAuditChange"/>
+        /// </summary>
+        public string Changes { get; set; } = "[]";
+
+        public string? PerformedByUserId { get; set; }
+
+        public string? PerformedByEmail { get; set; }
+
+        public DateTime PerformedAt { get; set; }
+
+        /// <summary>
+        /// The user action that caused the change, from the X-Correlation-ID header
+        /// </summary>
+        public string? CorrelationId { get; set; }
+    }
+
+    public class PersonnelAuditChange
+    {
+        public string Field { get; set; } = string.Empty;
+
+        public string? OldValue { get; set; }
+
+        public string? NewValue { get; set; }
+    }
+
+    public class PersonnelAuditConfiguration : IEntityTypeConfiguration<PersonnelAudit>
+    {
+        public void Configure(EntityTypeBuilder<PersonnelAudit> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.Property(x => x.EntityType).HasMaxLength(64);
+            builder.Property(x => x.Action).HasMaxLength(16);
+            builder.Property(x => x.CorrelationId).HasMaxLength(64);
+            builder.HasIndex(x => new { x.PersonId, x.PerformedAt });
+            builder.HasIndex(x => x.CorrelationId);
+        }
+    }
+}
@@ -0,0 +1,293 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.ChangeTracking;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.EntityFrameworkCore.Storage;
+using System.Globalization;
+using System.Security.Claims;
+using StargateAPI.Middleware;
+using System.Text.Json;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// Records a <see cref="PersonnelAudit"/> entry for every saved create,
+    /// update or delete of a person, astronaut detail or duty. Changes are
+    /// captured before the save and written straight after it, once generated
+    /// ids are known, so the acting command needs no audit code of its own.
+    /// Both saves run in one transaction, so a change is never kept without
+    /// its audit entry.
+    /// </summary>
+    public class PersonnelAuditInterceptor : SaveChangesInterceptor
+    {
+        private readonly IHttpContextAccessor _httpContextAccessor;
+        private List<PendingAudit> _pending = new();
+
+        // Started here when the caller has no transaction of its own
+        private IDbContextTransaction? _transaction;
+
+        public PersonnelAuditInterceptor(IHttpContextAccessor httpContextAccessor)
+        {
+            _httpContextAccessor = httpContextAccessor;
+        }
+
+        public override InterceptionResult<int> SavingChanges(DbContextEventData eventData, InterceptionResult<int> result)
+        {
+            Capture(eventData.Context);
+            if (NeedsTransaction(eventData.Context))
+            {
+                _transaction = eventData.Context!.Database.BeginTransaction();
+            }
+
+            return base.SavingChanges(eventData, result);
+        }
+
+        public override async ValueTask<InterceptionResult<int>> SavingChangesAsync(DbContextEventData eventData, InterceptionResult<int> result, CancellationToken cancellationToken = default)
+        {
+            Capture(eventData.Context);
+            if (NeedsTransaction(eventData.Context))
+            {
+                _transaction = await eventData.Context!.Database.BeginTransactionAsync(cancellationToken);
+            }
+
+            return await base.SavingChangesAsync(eventData, result, cancellationToken);
+        }
+
+        public override int SavedChanges(SaveChangesCompletedEventData eventData, int result)
+        {
+            var context = eventData.Context;
+            if (context != null && AddAuditEntries(context, out var audits))
+            {
+                try
+                {
+                    context.SaveChanges();
+                    _transaction?.Commit();
+                }
+                catch
+                {
+                    Discard(context, audits);
+                    throw;
+                }
+                finally
+                {
+                    EndTransaction();
+                }
+            }
+
+            return base.SavedChanges(eventData, result);
+        }
+
+        public override async ValueTask<int> SavedChangesAsync(SaveChangesCompletedEventData eventData, int result, CancellationToken cancellationToken = default)
+        {
+            var context = eventData.Context;
+            if (context != null && AddAuditEntries(context, out var audits))
+            {
+                try
+                {
+                    await context.SaveChangesAsync(cancellationToken);
+                    if (_transaction != null)
+                    {
+                        await _transaction.CommitAsync(cancellationToken);
+                    }
+                }
+                catch
+                {
+                    Discard(context, audits);
+                    throw;
+                }
+                finally
+                {
+                    await EndTransactionAsync();
+                }
+            }
+
+            return await base.SavedChangesAsync(eventData, result, cancellationToken);
+        }
+
+        public override void SaveChangesFailed(DbContextErrorEventData eventData)
+        {
+            _pending.Clear();
+            EndTransaction();
+            base.SaveChangesFailed(eventData);
+        }
+
+        public override async Task SaveChangesFailedAsync(DbContextErrorEventData eventData, CancellationToken cancellationToken = default)
+        {
+            _pending.Clear();
+            await EndTransactionAsync();
+            await base.SaveChangesFailedAsync(eventData, cancellationToken);
+        }
+
+        /// <summary>
+        /// Whether the save about to run needs a transaction from here to hold
+        /// its audit entries. Providers without transactions, such as the
+        /// in-memory one, go without.
+        /// </summary>
+        private bool NeedsTransaction(DbContext? context)
+        {
+            return _pending.Count > 0
+                && _transaction == null
+                && context != null
+                && context.Database.IsRelational()
+                && context.Database.CurrentTransaction == null;
+        }
+
+        /// <summary>
+        /// Dispose the transaction started here, which rolls it back unless it
+        /// was committed
+        /// </summary>
+        private void EndTransaction()
+        {
+            _transaction?.Dispose();
+            _transaction = null;
+        }
+
+        private async Task EndTransactionAsync()
+        {
+            if (_transaction != null)
+            {
+                await _transaction.DisposeAsync();
+                _transaction = null;
+            }
+        }
+
+        /// <summary>
+        /// Stop tracking audit entries that could not be written, so a later
+        /// save does not write them on their own
+        /// </summary>
+        private static void Discard(DbContext context, List<PersonnelAudit> audits)
+        {
+            foreach (var audit in audits)
+            {
+                context.Entry(audit).State = EntityState.Detached;
+            }
+        }
+
+        private void Capture(DbContext? context)
+        {
+            _pending.Clear();
+
+            if (context == null)
+            {
+                return;
+            }
+
+            foreach (var entry in context.ChangeTracker.Entries())
+            {
+                if (entry.Entity is not (Person or AstronautDetail or AstronautDuty))
+                {
+                    continue;
+                }
+
+                var action = entry.State switch
+                {
+                    EntityState.Added => "Created",
+                    EntityState.Modified => "Updated",
+                    EntityState.Deleted => "Deleted",
+                    _ => null
+                };
+
+                if (action == null)
+                {
+                    continue;
+                }
+
+                var changes = GetChanges(entry);
+
+                // Setting a field to the value it already had is not a change
+                if (entry.State == EntityState.Modified && changes.Count == 0)
+                {
+                    continue;
+                }
+
+                _pending.Add(new PendingAudit(entry.Entity, action, changes));
+            }
+        }
+
+        /// <summary>
+        /// Queue audit entries for the changes just saved. Returns false when
+        /// there is nothing to write.
+        /// </summary>
+        private bool AddAuditEntries(DbContext context, out List<PersonnelAudit> audits)
+        {
+            audits = new();
+            if (_pending.Count == 0)
+            {
+                return false;
+            }
+
+            var httpContext = _httpContextAccessor.HttpContext;
+            var user = httpContext?.User;
+            var userId = user?.FindFirstValue(ClaimTypes.NameIdentifier);
+            var email = user?.FindFirstValue(ClaimTypes.Email);
+            var correlationId = httpContext?.GetCorrelationId();
+            var performedAt = DateTime.UtcNow;
+
+            audits = _pending.Select(pending =>
+            {
+                var (entityType, entityId, personId) = Describe(pending.Entity);
+
+                return new PersonnelAudit
+                {
+                    PersonId = personId,
+                    EntityType = entityType,
+                    EntityId = entityId,
+                    Action = pending.Action,
+                    Changes = JsonSerializer.Serialize(pending.Changes),
+                    PerformedByUserId = userId,
+                    PerformedByEmail = email,
+                    PerformedAt = performedAt,
+                    CorrelationId = correlationId
+                };
+            }).ToList();
+
+            // Cleared before the audit save, which runs through this interceptor too
+            _pending = new();
+
+            context.Set<PersonnelAudit>().AddRange(audits);
+            return true;
+        }
+
+        private static List<PersonnelAuditChange> GetChanges(EntityEntry entry)
+        {
+            return entry.Properties
+                .Where(p => !p.Metadata.IsPrimaryKey() && !p.Metadata.IsForeignKey())
+                .Where(p => entry.State switch
+                {
+                    EntityState.Added => p.CurrentValue != null,
+                    EntityState.Deleted => p.OriginalValue != null,
+                    _ => p.IsModified && !Equals(p.OriginalValue, p.CurrentValue)
+                })
+                .Select(p => new PersonnelAuditChange
+                {
+                    Field = p.Metadata.Name,
+                    OldValue = entry.State == EntityState.Added ? null : Format(p.OriginalValue),
+                    NewValue = entry.State == EntityState.Deleted ? null : Format(p.CurrentValue)
+                })
+                .ToList();
+        }
+
+        private static (string EntityType, int EntityId, int PersonId) Describe(object entity)
+        {
+            return entity switch
+            {
+                Person person => (nameof(Person), person.Id, person.Id),
+                AstronautDetail detail => (nameof(AstronautDetail), detail.Id, detail.PersonId),
+                AstronautDuty duty => (nameof(AstronautDuty), duty.Id, duty.PersonId),
+                _ => throw new ArgumentOutOfRangeException(nameof(entity))
+            };
+        }
+
+        private static string? Format(object? value)
+        {
+            return value switch
+            {
+                null => null,
+                DateTime date => date.ToString("o", CultureInfo.InvariantCulture),
+                IFormattable formattable => formattable.ToString(null, CultureInfo.InvariantCulture),
+                _ => value.ToString()
+            };
+        }
+
+        private record PendingAudit(object Entity, string Action, List<PersonnelAuditChange> Changes);
+    }
+}
@@ -0,0 +1,41 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// A long-lived token exchanged for a new access token. Only a hash of the
+    /// token value is stored; each use rotates it to a new one.
+    /// </summary>
+    [Table("RefreshToken")]
+    public class RefreshToken
+    {
+        public int Id { get; set; }
+
+        public string UserId { get; set; } = string.Empty;
+
+        public string TokenHash { get; set; } = string.Empty;
+
+        public DateTime CreatedAt { get; set; }
+
+        public DateTime ExpiresAt { get; set; }
+
+        public DateTime? RevokedAt { get; set; }
+
+        public string? ReplacedByTokenHash { get; set; }
+
+        public virtual ApplicationUser User { get; set; }
+    }
+
+    public class RefreshTokenConfiguration : IEntityTypeConfiguration<RefreshToken>
+    {
+        public void Configure(EntityTypeBuilder<RefreshToken> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.HasIndex(x => x.TokenHash).IsUnique();
+            builder.HasOne(x => x.User).WithMany().HasForeignKey(x => x.UserId);
+        }
+    }
+}
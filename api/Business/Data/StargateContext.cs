@@ -8,9 +8,16 @@ namespace StargateAPI.Business.Data
     public class StargateContext(DbContextOptions<StargateContext> options) : IdentityDbContext<ApplicationUser>(options)
     {
         public IDbConnection Connection => Database.GetDbConnection();
+        public required DbSet<AlertIncident> AlertIncidents { get; set; }
+        public required DbSet<AlertRule> AlertRules { get; set; }
         public required DbSet<Person> People { get; set; }
         public required DbSet<AstronautDetail> AstronautDetails { get; set; }
         public required DbSet<AstronautDuty> AstronautDuties { get; set; }
+        public required DbSet<PersonNameHistory> PersonNameHistory { get; set; }
+        public required DbSet<PersonnelAudit> PersonnelAudits { get; set; }
+        public required DbSet<RefreshToken> RefreshTokens { get; set; }
+        public required DbSet<UserAccountAudit> UserAccountAudits { get; set; }
+        public required DbSet<UserSignIn> UserSignIns { get; set; }
 
         protected override void OnConfiguring(DbContextOptionsBuilder optionsBuilder)
         {
@@ -36,7 +43,8 @@ namespace StargateAPI.Business.Data
 
             // Seed roles
             var adminRoleId = "1";
-            var userRoleId = "2";
+            var viewerRoleId = "2";
+            var editorRoleId = "3";
 
             modelBuilder.Entity<IdentityRole>().HasData(
                 new IdentityRole
@@ -48,10 +56,17 @@ namespace StargateAPI.Business.Data
                 },
                 new IdentityRole
                 {
-                    Id = userRoleId,
-                    Name = "User",
-                    NormalizedName = "USER",
-                    ConcurrencyStamp = userRoleId
+                    Id = viewerRoleId,
+                    Name = "Viewer",
+                    NormalizedName = "VIEWER",
+                    ConcurrencyStamp = viewerRoleId
+                },
+                new IdentityRole
+                {
+                    Id = editorRoleId,
+                    Name = "Editor",
+                    NormalizedName = "EDITOR",
+                    ConcurrencyStamp = editorRoleId
                 }
             );
 
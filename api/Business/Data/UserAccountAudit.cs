@@ -0,0 +1,48 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// A change an administrator made to a user account. Emails are copied so
+    /// the entry stays readable if either account is later removed.
+    /// </summary>
+    [Table("UserAccountAudit")]
+    public class UserAccountAudit
+    {
+        public int Id { get; set; }
+
+        public string TargetUserId { get; set; } = string.Empty;
+
+        public string TargetEmail { get; set; } = string.Empty;
+
+        public string Action { get; set; } = string.Empty;
+
+        public string? Detail { get; set; }
+
+        public string PerformedByUserId { get; set; } = string.Empty;
+
+        public string PerformedByEmail { get; set; } = string.Empty;
+
+        public DateTime PerformedAt { get; set; }
+
+        /// <summary>
+        /// The user action that caused the change, from the X-Correlation-ID header
+        /// </summary>
+        public string? CorrelationId { get; set; }
+    }
+
+    public class UserAccountAuditConfiguration : IEntityTypeConfiguration<UserAccountAudit>
+    {
+        public void Configure(EntityTypeBuilder<UserAccountAudit> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.HasIndex(x => x.TargetUserId);
+            builder.Property(x => x.CorrelationId).HasMaxLength(64);
+            builder.HasIndex(x => x.PerformedAt);
+            builder.HasIndex(x => x.CorrelationId);
+        }
+    }
+}
@@ -0,0 +1,40 @@
+﻿using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StargateAPI.Business.Data
+{
+    /// <summary>
+    /// A sign-in attempt against a known account, shown to the user so they
+    /// can spot activity they do not recognise
+    /// </summary>
+    [Table("UserSignIn")]
+    public class UserSignIn
+    {
+        public int Id { get; set; }
+
+        public string UserId { get; set; } = string.Empty;
+
+        public DateTime SignedInAt { get; set; }
+
+        public bool Succeeded { get; set; }
+
+        public string? IpAddress { get; set; }
+
+        public string? UserAgent { get; set; }
+
+        public virtual ApplicationUser User { get; set; }
+    }
+
+    public class UserSignInConfiguration : IEntityTypeConfiguration<UserSignIn>
+    {
+        public void Configure(EntityTypeBuilder<UserSignIn> builder)
+        {
+            builder.HasKey(x => x.Id);
+            builder.Property(x => x.Id).ValueGeneratedOnAdd();
+            builder.Property(x => x.UserAgent).HasMaxLength(512);
+            builder.HasIndex(x => new { x.UserId, x.SignedInAt });
+            builder.HasOne(x => x.User).WithMany().HasForeignKey(x => x.UserId);
+        }
+    }
+}
@@ -0,0 +1,25 @@
+namespace StargateAPI.Business.Dtos
+{
+    public static class PersonStatus
+    {
+        public const string Active = "active";
+        public const string Retired = "retired";
+        public const string Unassigned = "unassigned";
+    }
+
+    public class FacetCount
+    {
+        public string Value { get; set; } = string.Empty;
+
+        public int Count { get; set; }
+    }
+
+    public class PeopleFacets
+    {
+        public List<FacetCount> Ranks { get; set; } = new List<FacetCount>();
+
+        public List<FacetCount> DutyTitles { get; set; } = new List<FacetCount>();
+
+        public List<FacetCount> Statuses { get; set; } = new List<FacetCount>();
+    }
+}
@@ -0,0 +1,21 @@
+﻿using StargateAPI.Business.Data;
+
+namespace StargateAPI.Business.Dtos
+{
+    public class PersonHistoryEntry
+    {
+        public int Id { get; set; }
+
+        public string EntityType { get; set; } = string.Empty;
+
+        public int EntityId { get; set; }
+
+        public string Action { get; set; } = string.Empty;
+
+        public List<PersonnelAuditChange> Changes { get; set; } = new List<PersonnelAuditChange>();
+
+        public string? PerformedByEmail { get; set; }
+
+        public DateTime PerformedAt { get; set; }
+    }
+}
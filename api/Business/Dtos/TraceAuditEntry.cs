@@ -0,0 +1,33 @@
+﻿using StargateAPI.Business.Data;
+
+namespace StargateAPI.Business.Dtos
+{
+    /// <summary>
+    /// A personnel or user account audit entry written by a traced request
+    /// </summary>
+    public class TraceAuditEntry
+    {
+        /// <summary>
+        /// "Personnel" or "UserAccount"
+        /// </summary>
+        public string Source { get; set; } = string.Empty;
+
+        public int Id { get; set; }
+
+        public string EntityType { get; set; } = string.Empty;
+
+        public string EntityId { get; set; } = string.Empty;
+
+        public string Action { get; set; } = string.Empty;
+
+        public List<PersonnelAuditChange> Changes { get; set; } = new List<PersonnelAuditChange>();
+
+        public string? Detail { get; set; }
+
+        public string? PerformedByEmail { get; set; }
+
+        public DateTime PerformedAt { get; set; }
+
+        public string CorrelationId { get; set; } = string.Empty;
+    }
+}
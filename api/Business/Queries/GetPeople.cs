@@ -1,18 +1,50 @@
 ﻿using MediatR;
 using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Commands;
 using StargateAPI.Business.Data;
 using StargateAPI.Business.Dtos;
 using StargateAPI.Controllers;
+using System.Net;
 
 namespace StargateAPI.Business.Queries
 {
     public class GetPeople : IRequest<GetPeopleResult>
     {
+        /// <summary>
+        /// 1-based page number. When omitted the full directory is returned.
+        /// </summary>
+        public int? Page { get; set; }
 
+        public int? PageSize { get; set; }
+
+        public string? Search { get; set; }
+
+        public string? SortBy { get; set; }
+
+        public string? SortDirection { get; set; }
+
+        public List<string> Ranks { get; set; } = new List<string>();
+
+        public List<string> DutyTitles { get; set; } = new List<string>();
+
+        /// <summary>
+        /// Any of "active", "retired" or "unassigned"
+        /// </summary>
+        public List<string> Statuses { get; set; } = new List<string>();
+
+        public DateTime? CareerStartFrom { get; set; }
+
+        public DateTime? CareerStartTo { get; set; }
     }
 
     public class GetPeopleHandler : IRequestHandler<GetPeople, GetPeopleResult>
     {
+        public const int DefaultPageSize = 10;
+        public const int MaxPageSize = 100;
+
+        private static readonly string[] SortFields = { "name", "currentRank", "currentDutyTitle" };
+        private static readonly string[] StatusValues = { PersonStatus.Active, PersonStatus.Retired, PersonStatus.Unassigned };
+
         public readonly StargateContext _context;
         public GetPeopleHandler(StargateContext context)
         {
@@ -22,7 +54,27 @@ namespace StargateAPI.Business.Queries
         {
             var result = new GetPeopleResult();
 
-            var people = await _context.People
+            var sortBy = string.IsNullOrWhiteSpace(request.SortBy) ? "name" : request.SortBy;
+            if (!SortFields.Contains(sortBy, StringComparer.OrdinalIgnoreCase))
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = $"Unsupported sort field '{request.SortBy}'.";
+                return result;
+            }
+
+            var invalidStatus = request.Statuses.FirstOrDefault(s => !StatusValues.Contains(s, StringComparer.OrdinalIgnoreCase));
+            if (invalidStatus is not null)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = $"Unsupported status '{invalidStatus}'.";
+                return result;
+            }
+
+            var descending = string.Equals(request.SortDirection, "desc", StringComparison.OrdinalIgnoreCase);
+
+            var people = _context.People
                 .AsNoTracking()
                 .Select(person => new PersonAstronaut
                 {
@@ -32,18 +84,184 @@ namespace StargateAPI.Business.Queries
                     CurrentDutyTitle = person.AstronautDetail != null ? person.AstronautDetail.CurrentDutyTitle : string.Empty,
                     CareerStartDate = person.AstronautDetail != null ? person.AstronautDetail.CareerStartDate : null,
                     CareerEndDate = person.AstronautDetail != null ? person.AstronautDetail.CareerEndDate : null
-                })
-                .ToListAsync(cancellationToken);
+                });
+
+            result.TotalPeople = await people.CountAsync(cancellationToken);
+            result.ActiveAstronautCount = await people
+                .CountAsync(p => p.CareerStartDate != null && p.CareerEndDate == null, cancellationToken);
+            result.NonAstronautCount = await people
+                .CountAsync(p => p.CareerStartDate == null, cancellationToken);
+
+            if (!string.IsNullOrWhiteSpace(request.Search))
+            {
+                var term = request.Search.Trim().ToLower();
+                people = people.Where(p =>
+                    p.Name.ToLower().Contains(term)
+                    || p.CurrentRank.ToLower().Contains(term)
+                    || p.CurrentDutyTitle.ToLower().Contains(term));
+            }
+
+            // Each facet is counted with every other filter applied but its own,
+            // so the counts show what selecting another value would return
+            result.Facets = new PeopleFacets
+            {
+                Ranks = await CountValuesAsync(
+                    ApplyFilters(people, request, PeopleFacet.Rank), p => p.CurrentRank, cancellationToken),
+                DutyTitles = await CountValuesAsync(
+                    ApplyFilters(people, request, PeopleFacet.DutyTitle), p => p.CurrentDutyTitle, cancellationToken),
+                Statuses = await CountStatusesAsync(
+                    ApplyFilters(people, request, PeopleFacet.Status), cancellationToken)
+            };
+
+            people = ApplyFilters(people, request, null);
+
+            people = sortBy.ToLowerInvariant() switch
+            {
+                "currentrank" => descending
+                    ? people.OrderByDescending(p => p.CurrentRank).ThenBy(p => p.Name)
+                    : people.OrderBy(p => p.CurrentRank).ThenBy(p => p.Name),
+                "currentdutytitle" => descending
+                    ? people.OrderByDescending(p => p.CurrentDutyTitle).ThenBy(p => p.Name)
+                    : people.OrderBy(p => p.CurrentDutyTitle).ThenBy(p => p.Name),
+                _ => descending
+                    ? people.OrderByDescending(p => p.Name)
+                    : people.OrderBy(p => p.Name)
+            };
 
-            result.People = people;
+            var total = await people.CountAsync(cancellationToken);
+
+            if (request.Page is null)
+            {
+                result.People = await people.ToListAsync(cancellationToken);
+                result.Total = total;
+                result.Page = 1;
+                result.PageSize = total;
+                result.TotalPages = 1;
+                return result;
+            }
+
+            var pageSize = Math.Clamp(request.PageSize ?? DefaultPageSize, 1, MaxPageSize);
+            var page = Math.Max(request.Page.Value, 1);
+
+            result.People = await people
+                .Skip((page - 1) * pageSize)
+                .Take(pageSize)
+                .ToListAsync(cancellationToken);
+            result.Total = total;
+            result.Page = page;
+            result.PageSize = pageSize;
+            result.TotalPages = (int)Math.Ceiling((double)total / pageSize);
 
             return result;
         }
+
+        private enum PeopleFacet
+        {
+            Rank,
+            DutyTitle,
+            Status,
+        }
+
+        private static IQueryable<PersonAstronaut> ApplyFilters(IQueryable<PersonAstronaut> people, GetPeople request, PeopleFacet? excluded)
+        {
+            if (excluded != PeopleFacet.Rank && request.Ranks.Count > 0)
+            {
+                var ranks = request.Ranks;
+                people = people.Where(p => ranks.Contains(p.CurrentRank));
+            }
+
+            if (excluded != PeopleFacet.DutyTitle && request.DutyTitles.Count > 0)
+            {
+                var dutyTitles = request.DutyTitles;
+                people = people.Where(p => dutyTitles.Contains(p.CurrentDutyTitle));
+            }
+
+            if (excluded != PeopleFacet.Status && request.Statuses.Count > 0)
+            {
+                var active = request.Statuses.Contains(PersonStatus.Active, StringComparer.OrdinalIgnoreCase);
+                var retired = request.Statuses.Contains(PersonStatus.Retired, StringComparer.OrdinalIgnoreCase);
+                var unassigned = request.Statuses.Contains(PersonStatus.Unassigned, StringComparer.OrdinalIgnoreCase);
+
+                people = people.Where(p =>
+                    (active && p.CareerStartDate != null && p.CareerEndDate == null)
+                    || (retired && p.CareerEndDate != null)
+                    || (unassigned && p.CareerStartDate == null));
+            }
+
+            if (request.CareerStartFrom.HasValue)
+            {
+                var from = CreateAstronautDutyHelper.NormalizeToUtcDate(request.CareerStartFrom.Value);
+                people = people.Where(p => p.CareerStartDate >= from);
+            }
+
+            if (request.CareerStartTo.HasValue)
+            {
+                // Inclusive of the whole "to" day
+                var to = CreateAstronautDutyHelper.NormalizeToUtcDate(request.CareerStartTo.Value).AddDays(1);
+                people = people.Where(p => p.CareerStartDate < to);
+            }
+
+            return people;
+        }
+
+        private static async Task<List<FacetCount>> CountValuesAsync(
+            IQueryable<PersonAstronaut> people,
+            System.Linq.Expressions.Expression<Func<PersonAstronaut, string>> selector,
+            CancellationToken cancellationToken)
+        {
+            var counts = await people
+                .Select(selector)
+                .Where(value => value != string.Empty)
+                .GroupBy(value => value)
+                .Select(group => new FacetCount { Value = group.Key, Count = group.Count() })
+                .ToListAsync(cancellationToken);
+
+            return counts.OrderBy(c => c.Value).ToList();
+        }
+
+        private static async Task<List<FacetCount>> CountStatusesAsync(IQueryable<PersonAstronaut> people, CancellationToken cancellationToken)
+        {
+            return new List<FacetCount>
+            {
+                new FacetCount
+                {
+                    Value = PersonStatus.Active,
+                    Count = await people.CountAsync(p => p.CareerStartDate != null && p.CareerEndDate == null, cancellationToken)
+                },
+                new FacetCount
+                {
+                    Value = PersonStatus.Retired,
+                    Count = await people.CountAsync(p => p.CareerEndDate != null, cancellationToken)
+                },
+                new FacetCount
+                {
+                    Value = PersonStatus.Unassigned,
+                    Count = await people.CountAsync(p => p.CareerStartDate == null, cancellationToken)
+                }
+            };
+        }
     }
 
     public class GetPeopleResult : BaseResponse
     {
         public List<PersonAstronaut> People { get; set; } = new List<PersonAstronaut> { };
 
+        /// <summary>
+        /// Number of people matching the search term
+        /// </summary>
+        public int Total { get; set; }
+        public int Page { get; set; }
+        public int PageSize { get; set; }
+        public int TotalPages { get; set; }
+
+        /// <summary>
+        /// Directory-wide counts, independent of the search term
+        /// </summary>
+        public int TotalPeople { get; set; }
+        public int ActiveAstronautCount { get; set; }
+        public int NonAstronautCount { get; set; }
+
+        public PeopleFacets Facets { get; set; } = new PeopleFacets();
+
     }
 }
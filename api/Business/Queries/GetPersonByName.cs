@@ -32,9 +32,11 @@ namespace StargateAPI.Business.Queries
                 return result;
             }
 
+            var personId = await PersonNameHelper.ResolvePersonIdAsync(_context, request.Name, cancellationToken);
+
             var person = await _context.People
                 .AsNoTracking()
-                .Where(p => p.Name == request.Name)
+                .Where(p => p.Id == personId)
                 .Select(p => new PersonAstronaut
                 {
                     PersonId = p.Id,
@@ -0,0 +1,73 @@
+﻿using MediatR;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Business.Dtos;
+using StargateAPI.Controllers;
+using System.Net;
+using System.Text.Json;
+
+namespace StargateAPI.Business.Queries
+{
+    public class GetPersonHistory : IRequest<GetPersonHistoryResult>
+    {
+        public string Name { get; set; } = string.Empty;
+    }
+
+    public class GetPersonHistoryHandler : IRequestHandler<GetPersonHistory, GetPersonHistoryResult>
+    {
+        private readonly StargateContext _context;
+
+        public GetPersonHistoryHandler(StargateContext context)
+        {
+            _context = context;
+        }
+
+        public async Task<GetPersonHistoryResult> Handle(GetPersonHistory request, CancellationToken cancellationToken)
+        {
+            var result = new GetPersonHistoryResult();
+
+            if (string.IsNullOrWhiteSpace(request.Name))
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = "Name is required.";
+                return result;
+            }
+
+            var personId = await PersonNameHelper.ResolvePersonIdAsync(_context, request.Name, cancellationToken);
+
+            if (personId is null)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.NotFound;
+                result.Message = "Person not found.";
+                return result;
+            }
+
+            var audits = await _context.PersonnelAudits
+                .AsNoTracking()
+                .Where(a => a.PersonId == personId)
+                .OrderByDescending(a => a.PerformedAt)
+                .ThenByDescending(a => a.Id)
+                .ToListAsync(cancellationToken);
+
+            result.History = audits.Select(a => new PersonHistoryEntry
+            {
+                Id = a.Id,
+                EntityType = a.EntityType,
+                EntityId = a.EntityId,
+                Action = a.Action,
+                Changes = JsonSerializer.Deserialize<List<PersonnelAuditChange>>(a.Changes) ?? new List<PersonnelAuditChange>(),
+                PerformedByEmail = a.PerformedByEmail,
+                PerformedAt = a.PerformedAt
+            }).ToList();
+
+            return result;
+        }
+    }
+
+    public class GetPersonHistoryResult : BaseResponse
+    {
+        public List<PersonHistoryEntry> History { get; set; } = new List<PersonHistoryEntry>();
+    }
+}
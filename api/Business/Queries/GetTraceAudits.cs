@@ -0,0 +1,87 @@
+﻿using MediatR;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Business.Dtos;
+using StargateAPI.Controllers;
+using System.Net;
+using System.Text.Json;
+
+namespace StargateAPI.Business.Queries
+{
+    /// <summary>
+    /// Audit entries written under any of the given correlation ids, oldest first
+    /// </summary>
+    public class GetTraceAudits : IRequest<GetTraceAuditsResult>
+    {
+        public List<string> CorrelationIds { get; set; } = new List<string>();
+    }
+
+    public class GetTraceAuditsHandler : IRequestHandler<GetTraceAudits, GetTraceAuditsResult>
+    {
+        private readonly StargateContext _context;
+
+        public GetTraceAuditsHandler(StargateContext context)
+        {
+            _context = context;
+        }
+
+        public async Task<GetTraceAuditsResult> Handle(GetTraceAudits request, CancellationToken cancellationToken)
+        {
+            var result = new GetTraceAuditsResult();
+            var ids = request.CorrelationIds.Where(id => !string.IsNullOrWhiteSpace(id)).Distinct().ToList();
+
+            if (ids.Count == 0)
+            {
+                result.Success = false;
+                result.ResponseCode = (int)HttpStatusCode.BadRequest;
+                result.Message = "A correlation id is required.";
+                return result;
+            }
+
+            var personnel = await _context.PersonnelAudits
+                .AsNoTracking()
+                .Where(a => a.CorrelationId != null && ids.Contains(a.CorrelationId))
+                .ToListAsync(cancellationToken);
+
+            var accounts = await _context.UserAccountAudits
+                .AsNoTracking()
+                .Where(a => a.CorrelationId != null && ids.Contains(a.CorrelationId))
+                .ToListAsync(cancellationToken);
+
+            result.Audits = personnel.Select(a => new TraceAuditEntry
+            {
+                Source = "Personnel",
+                Id = a.Id,
+                EntityType = a.EntityType,
+                EntityId = a.EntityId.ToString(),
+                Action = a.Action,
+                Changes = JsonSerializer.Deserialize<List<PersonnelAuditChange>>(a.Changes) ?? new List<PersonnelAuditChange>(),
+                PerformedByEmail = a.PerformedByEmail,
+                PerformedAt = a.PerformedAt,
+                CorrelationId = a.CorrelationId!
+            })
+            .Concat(accounts.Select(a => new TraceAuditEntry
+            {
+                Source = "UserAccount",
+                Id = a.Id,
+                EntityType = "User",
+                EntityId = a.TargetEmail,
+                Action = a.Action,
+                Detail = a.Detail,
+                PerformedByEmail = a.PerformedByEmail,
+                PerformedAt = a.PerformedAt,
+                CorrelationId = a.CorrelationId!
+            }))
+            .OrderBy(a => a.PerformedAt)
+            .ThenBy(a => a.Id)
+            .ToList();
+
+            return result;
+        }
+    }
+
+    public class GetTraceAuditsResult : BaseResponse
+    {
+        public List<TraceAuditEntry> Audits { get; set; } = new List<TraceAuditEntry>();
+    }
+}
@@ -0,0 +1,29 @@
+﻿using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Business.Queries
+{
+    internal static class PersonNameHelper
+    {
+        /// <summary>
+        /// Resolve a name to a person id. A person's current name wins; otherwise
+        /// fall back to whoever most recently gave up that name in a rename, so
+        /// links and bookmarks to an old name keep working.
+        /// </summary>
+        internal static async Task<int?> ResolvePersonIdAsync(StargateContext context, string name, CancellationToken cancellationToken)
+        {
+            var personId = await context.People
+                .AsNoTracking()
+                .Where(p => p.Name == name)
+                .Select(p => (int?)p.Id)
+                .FirstOrDefaultAsync(cancellationToken);
+
+            return personId ?? await context.PersonNameHistory
+                .AsNoTracking()
+                .Where(h => h.PreviousName == name)
+                .OrderByDescending(h => h.RenamedAt)
+                .Select(h => (int?)h.PersonId)
+                .FirstOrDefaultAsync(cancellationToken);
+        }
+    }
+}
@@ -0,0 +1,291 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Monitoring;
+using StargateAPI.Security;
+using System.Security.Claims;
+
+namespace StargateAPI.Controllers;
+
+/// <summary>
+/// Alert rules and the incidents they raise. Rules are evaluated in the
+/// background (see <see cref="AlertEvaluator"/>); admins acknowledge incidents
+/// they are handling and resolve them once fixed. Resolving an incident whose
+/// condition still holds raises a new one on the next evaluation.
+/// </summary>
+[Authorize(Roles = Roles.Admin)]
+public class AlertsController : ApiControllerBase
+{
+    private const int MaxWindowMinutes = 24 * 60;
+
+    private readonly StargateContext _context;
+    private readonly IAlertNotifier _notifier;
+
+    public AlertsController(StargateContext context, IAlertNotifier notifier)
+    {
+        _context = context;
+        _notifier = notifier;
+    }
+
+    /// <summary>
+    /// List alert rules by name
+    /// </summary>
+    [HttpGet("rules")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetRules(CancellationToken cancellationToken = default)
+    {
+        var rules = await _context.AlertRules
+            .AsNoTracking()
+            .OrderBy(r => r.Name)
+            .ToListAsync(cancellationToken);
+
+        return Ok(rules);
+    }
+
+    /// <summary>
+    /// Create an alert rule
+    /// </summary>
+    [HttpPost("rules")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> CreateRule([FromBody] AlertRuleRequest request, CancellationToken cancellationToken = default)
+    {
+        var errors = Validate(request);
+        if (errors.Count > 0)
+        {
+            return BadRequest(new { message = errors.First().Value[0], errors });
+        }
+
+        var now = DateTime.UtcNow;
+        var rule = new AlertRule
+        {
+            CreatedByEmail = User.FindFirstValue(ClaimTypes.Email),
+            CreatedAt = now
+        };
+        Apply(request, rule, now);
+
+        _context.AlertRules.Add(rule);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return Ok(rule);
+    }
+
+    /// <summary>
+    /// Replace an alert rule's settings
+    /// </summary>
+    [HttpPut("rules/{id:int}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> UpdateRule(int id, [FromBody] AlertRuleRequest request, CancellationToken cancellationToken = default)
+    {
+        var rule = await _context.AlertRules.FirstOrDefaultAsync(r => r.Id == id, cancellationToken);
+        if (rule == null)
+        {
+            return NotFound(new { message = "Alert rule not found." });
+        }
+
+        var errors = Validate(request);
+        if (errors.Count > 0)
+        {
+            return BadRequest(new { message = errors.First().Value[0], errors });
+        }
+
+        Apply(request, rule, DateTime.UtcNow);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return Ok(rule);
+    }
+
+    /// <summary>
+    /// Delete an alert rule and its incidents
+    /// </summary>
+    [HttpDelete("rules/{id:int}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteRule(int id, CancellationToken cancellationToken = default)
+    {
+        var rule = await _context.AlertRules.FirstOrDefaultAsync(r => r.Id == id, cancellationToken);
+        if (rule == null)
+        {
+            return NotFound(new { message = "Alert rule not found." });
+        }
+
+        _context.AlertRules.Remove(rule);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Open and acknowledged incidents, newest first, followed by recently
+    /// resolved ones unless <paramref name="activeOnly"/> is set
+    /// </summary>
+    [HttpGet("incidents")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetIncidents([FromQuery] bool activeOnly = false, [FromQuery] int? take = null, CancellationToken cancellationToken = default)
+    {
+        var active = await _context.AlertIncidents
+            .AsNoTracking()
+            .Include(i => i.AlertRule)
+            .Where(i => i.Status != AlertIncidentStatuses.Resolved)
+            .OrderByDescending(i => i.TriggeredAt)
+            .ThenByDescending(i => i.Id)
+            .ToListAsync(cancellationToken);
+
+        var resolved = activeOnly
+            ? new List<AlertIncident>()
+            : await _context.AlertIncidents
+                .AsNoTracking()
+                .Include(i => i.AlertRule)
+                .Where(i => i.Status == AlertIncidentStatuses.Resolved)
+                .OrderByDescending(i => i.ResolvedAt)
+                .ThenByDescending(i => i.Id)
+                .Take(Math.Clamp(take ?? 20, 1, 200))
+                .ToListAsync(cancellationToken);
+
+        return Ok(active.Concat(resolved).Select(AlertIncidentSummary.From).ToList());
+    }
+
+    /// <summary>
+    /// Mark an open incident as being handled
+    /// </summary>
+    [HttpPost("incidents/{id:int}/acknowledge")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> AcknowledgeIncident(int id, CancellationToken cancellationToken = default)
+    {
+        var incident = await FindIncidentAsync(id, cancellationToken);
+        if (incident == null)
+        {
+            return NotFound(new { message = "Alert incident not found." });
+        }
+
+        if (incident.Status != AlertIncidentStatuses.Open)
+        {
+            return BadRequest(new { message = $"Only open incidents can be acknowledged; this one is {incident.Status.ToLower()}." });
+        }
+
+        incident.Status = AlertIncidentStatuses.Acknowledged;
+        incident.AcknowledgedAt = DateTime.UtcNow;
+        incident.AcknowledgedByEmail = User.FindFirstValue(ClaimTypes.Email);
+        await _context.SaveChangesAsync(cancellationToken);
+        await _notifier.NotifyAsync(incident, cancellationToken);
+
+        return Ok(AlertIncidentSummary.From(incident));
+    }
+
+    /// <summary>
+    /// Close an open or acknowledged incident
+    /// </summary>
+    [HttpPost("incidents/{id:int}/resolve")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ResolveIncident(int id, CancellationToken cancellationToken = default)
+    {
+        var incident = await FindIncidentAsync(id, cancellationToken);
+        if (incident == null)
+        {
+            return NotFound(new { message = "Alert incident not found." });
+        }
+
+        if (incident.Status == AlertIncidentStatuses.Resolved)
+        {
+            return BadRequest(new { message = "This incident is already resolved." });
+        }
+
+        incident.Status = AlertIncidentStatuses.Resolved;
+        incident.ResolvedAt = DateTime.UtcNow;
+        incident.ResolvedByEmail = User.FindFirstValue(ClaimTypes.Email);
+        await _context.SaveChangesAsync(cancellationToken);
+        await _notifier.NotifyAsync(incident, cancellationToken);
+
+        return Ok(AlertIncidentSummary.From(incident));
+    }
+
+    private Task<AlertIncident?> FindIncidentAsync(int id, CancellationToken cancellationToken)
+    {
+        return _context.AlertIncidents
+            .Include(i => i.AlertRule)
+            .FirstOrDefaultAsync(i => i.Id == id, cancellationToken);
+    }
+
+    private static void Apply(AlertRuleRequest request, AlertRule rule, DateTime now)
+    {
+        rule.Name = request.Name.Trim();
+        rule.Kind = AlertRuleKinds.All.First(k => string.Equals(k, request.Kind, StringComparison.OrdinalIgnoreCase));
+        rule.Target = string.IsNullOrWhiteSpace(request.Target) ? null : request.Target.Trim();
+        rule.Threshold = rule.Kind == AlertRuleKinds.ComponentUnhealthy ? 0 : request.Threshold;
+        rule.WindowMinutes = request.WindowMinutes;
+        rule.WebhookUrl = string.IsNullOrWhiteSpace(request.WebhookUrl) ? null : request.WebhookUrl.Trim();
+        rule.Enabled = request.Enabled;
+        rule.UpdatedAt = now;
+    }
+
+    private static Dictionary<string, string[]> Validate(AlertRuleRequest request)
+    {
+        var errors = new Dictionary<string, string[]>();
+        void Fail(string field, string message) => errors.TryAdd(field, new[] { message });
+
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            Fail(nameof(request.Name), "Name is required.");
+        }
+        else if (request.Name.Trim().Length > 128)
+        {
+            Fail(nameof(request.Name), "Name must be 128 characters or fewer.");
+        }
+
+        var kind = AlertRuleKinds.All.FirstOrDefault(k => string.Equals(k, request.Kind, StringComparison.OrdinalIgnoreCase));
+        if (kind == null)
+        {
+            Fail(nameof(request.Kind), $"Kind must be one of {string.Join(", ", AlertRuleKinds.All)}.");
+        }
+
+        if (request.Target?.Trim().Length > 256)
+        {
+            Fail(nameof(request.Target), "Target must be 256 characters or fewer.");
+        }
+
+        if (request.WindowMinutes < 1 || request.WindowMinutes > MaxWindowMinutes)
+        {
+            Fail(nameof(request.WindowMinutes), $"Window must be between 1 and {MaxWindowMinutes} minutes.");
+        }
+
+        if (kind == AlertRuleKinds.ExceptionCount && request.Threshold < 0)
+        {
+            Fail(nameof(request.Threshold), "Exception count must be zero or more.");
+        }
+        else if (kind == AlertRuleKinds.LatencyP95 && request.Threshold <= 0)
+        {
+            Fail(nameof(request.Threshold), "Latency limit must be more than 0 ms.");
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.WebhookUrl))
+        {
+            var url = request.WebhookUrl.Trim();
+            if (url.Length > 512
+                || !Uri.TryCreate(url, UriKind.Absolute, out var uri)
+                || (uri.Scheme != Uri.UriSchemeHttp && uri.Scheme != Uri.UriSchemeHttps))
+            {
+                Fail(nameof(request.WebhookUrl), "Webhook URL must be an http or https address of 512 characters or fewer.");
+            }
+        }
+
+        return errors;
+    }
+}
+
+public record AlertRuleRequest
+{
+    public string Name { get; init; } = string.Empty;
+    public string Kind { get; init; } = string.Empty;
+    public string? Target { get; init; }
+    public double Threshold { get; init; }
+    public int WindowMinutes { get; init; }
+    public string? WebhookUrl { get; init; }
+    public bool Enabled { get; init; } = true;
+}
@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using StargateAPI.Business.Commands;
 using StargateAPI.Business.Queries;
+using StargateAPI.Security;
 
 namespace StargateAPI.Controllers
 {
@@ -26,11 +27,22 @@ namespace StargateAPI.Controllers
             return this.GetResponse(result);
         }
 
+        [Authorize(Roles = Roles.Writers)]
         [HttpPost("")]
         public async Task<IActionResult> CreateAstronautDuty([FromBody] CreateAstronautDuty request)
         {
             var result = await _mediator.Send(request);
             return this.GetResponse(result);
         }
+
+        [Authorize(Roles = Roles.Writers)]
+        [HttpPut("{id:int}")]
+        public async Task<IActionResult> UpdateAstronautDuty(int id, [FromBody] UpdateAstronautDuty request, [FromQuery] bool dryRun = false)
+        {
+            request.Id = id;
+            request.DryRun = dryRun;
+            var result = await _mediator.Send(request);
+            return this.GetResponse(result);
+        }
     }
 }
\ No newline at end of file
@@ -3,6 +3,8 @@ using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.IdentityModel.Tokens;
 using StargateAPI.Business.Data;
+using StargateAPI.Middleware;
+using StargateAPI.Security;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
 using System.Text;
@@ -10,22 +12,41 @@ using System.Text;
 namespace StargateAPI.Controllers;
 
 /// <summary>
-/// Authentication controller for user registration and login
+/// Authentication controller for user registration and login, with optional
+/// single sign-on through an OpenID Connect identity provider
 /// </summary>
 public class AuthController : ApiControllerBase
 {
+    // Login provider name stored against accounts linked to the identity provider
+    public const string SsoLoginProvider = "oidc";
+
+    private readonly StargateContext _context;
     private readonly UserManager<ApplicationUser> _userManager;
     private readonly SignInManager<ApplicationUser> _signInManager;
     private readonly IConfiguration _configuration;
+    private readonly IRefreshTokenService _refreshTokens;
+    private readonly ISignInHistoryService _signInHistory;
+    private readonly IOidcClient _oidcClient;
+    private readonly OidcOptions _oidcOptions;
 
     public AuthController(
+        StargateContext context,
         UserManager<ApplicationUser> userManager,
         SignInManager<ApplicationUser> signInManager,
-        IConfiguration configuration)
+        IConfiguration configuration,
+        IRefreshTokenService refreshTokens,
+        ISignInHistoryService signInHistory,
+        IOidcClient oidcClient,
+        OidcOptions oidcOptions)
     {
+        _context = context;
         _userManager = userManager;
         _signInManager = signInManager;
         _configuration = configuration;
+        _refreshTokens = refreshTokens;
+        _signInHistory = signInHistory;
+        _oidcClient = oidcClient;
+        _oidcOptions = oidcOptions;
     }
 
     /// <summary>
@@ -34,7 +55,7 @@ public class AuthController : ApiControllerBase
     [HttpPost("register")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
-    public async Task<IActionResult> Register([FromBody] RegisterRequest request)
+    public async Task<IActionResult> Register([FromBody] RegisterRequest request, CancellationToken cancellationToken = default)
     {
         if (!ModelState.IsValid)
         {
@@ -56,18 +77,21 @@ public class AuthController : ApiControllerBase
             return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
         }
 
-        // Assign User role by default
-        await _userManager.AddToRoleAsync(user, "User");
+        // New accounts are read-only until an admin grants more access
+        await _userManager.AddToRoleAsync(user, Roles.Viewer);
 
-        var token = await GenerateJwtToken(user);
+        var (token, expiresAt) = await GenerateJwtToken(user);
+        var refreshToken = await _refreshTokens.IssueAsync(user, cancellationToken);
 
         return Ok(new AuthResponse
         {
             Token = token,
+            ExpiresAt = expiresAt,
+            RefreshToken = refreshToken,
             Email = user.Email!,
             FirstName = user.FirstName,
             LastName = user.LastName,
-            Roles = new[] { "User" }
+            Roles = new[] { Roles.Viewer }
         });
     }
 
@@ -77,7 +101,7 @@ public class AuthController : ApiControllerBase
     [HttpPost("login")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
-    public async Task<IActionResult> Login([FromBody] LoginRequest request)
+    public async Task<IActionResult> Login([FromBody] LoginRequest request, CancellationToken cancellationToken = default)
     {
         if (!ModelState.IsValid)
         {
@@ -91,17 +115,186 @@ public class AuthController : ApiControllerBase
         }
 
         var result = await _signInManager.CheckPasswordSignInAsync(user, request.Password, false);
+        await RecordSignInAsync(user, result.Succeeded, cancellationToken);
+
+        if (result.IsLockedOut)
+        {
+            return Unauthorized(new { message = "This account is locked. Contact an administrator." });
+        }
+
         if (!result.Succeeded)
         {
             return Unauthorized(new { message = "Invalid email or password" });
         }
 
-        var token = await GenerateJwtToken(user);
+        user.LastLoginAt = DateTime.UtcNow;
+        await _userManager.UpdateAsync(user);
+
+        return Ok(await StartSessionAsync(user, cancellationToken));
+    }
+
+    /// <summary>
+    /// Single sign-on settings for the login page
+    /// </summary>
+    [HttpGet("sso")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status503ServiceUnavailable)]
+    public async Task<IActionResult> GetSsoConfiguration(CancellationToken cancellationToken = default)
+    {
+        if (!_oidcOptions.Enabled)
+        {
+            return Ok(new SsoConfiguration { Enabled = false });
+        }
+
+        string authorizationEndpoint;
+        try
+        {
+            authorizationEndpoint = await _oidcClient.GetAuthorizationEndpointAsync(cancellationToken);
+        }
+        catch (Exception ex) when (ex is InvalidOperationException or HttpRequestException)
+        {
+            return StatusCode(StatusCodes.Status503ServiceUnavailable, new { message = "Single sign-on is currently unavailable." });
+        }
+
+        return Ok(new SsoConfiguration
+        {
+            Enabled = true,
+            DisplayName = _oidcOptions.DisplayName,
+            AuthorizationEndpoint = authorizationEndpoint,
+            ClientId = _oidcOptions.ClientId,
+            Scope = _oidcOptions.Scope
+        });
+    }
+
+    /// <summary>
+    /// Complete a single sign-on: redeem the authorization code, then sign in
+    /// the linked account, creating it on first use. The user's roles are
+    /// replaced with those mapped from their identity provider groups.
+    /// </summary>
+    [HttpPost("sso/callback")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status503ServiceUnavailable)]
+    public async Task<IActionResult> CompleteSsoLogin([FromBody] SsoCallbackRequest request, CancellationToken cancellationToken = default)
+    {
+        if (!_oidcOptions.Enabled)
+        {
+            return NotFound(new { message = "Single sign-on is not enabled." });
+        }
+
+        OidcIdentity identity;
+        try
+        {
+            identity = await _oidcClient.ExchangeCodeAsync(request.Code, request.CodeVerifier, request.RedirectUri, request.Nonce, cancellationToken);
+        }
+        catch (OidcException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (Exception ex) when (ex is InvalidOperationException or HttpRequestException)
+        {
+            return StatusCode(StatusCodes.Status503ServiceUnavailable, new { message = "Single sign-on is currently unavailable." });
+        }
+
+        var createdAccount = false;
+        var user = await _userManager.FindByLoginAsync(SsoLoginProvider, identity.Subject);
+        if (user == null)
+        {
+            if (string.IsNullOrWhiteSpace(identity.Email))
+            {
+                return Unauthorized(new { message = "The identity provider did not share an email address." });
+            }
+
+            user = await _userManager.FindByEmailAsync(identity.Email);
+
+            // Only a verified address may be linked to an existing local account
+            if (user != null && !identity.EmailVerified)
+            {
+                return Unauthorized(new { message = "An account with this email already exists. Sign in with your password instead." });
+            }
+
+            if (user == null)
+            {
+                user = new ApplicationUser
+                {
+                    UserName = identity.Email,
+                    Email = identity.Email,
+                    EmailConfirmed = identity.EmailVerified,
+                    FirstName = identity.GivenName,
+                    LastName = identity.FamilyName
+                };
+
+                var createResult = await _userManager.CreateAsync(user);
+                if (!createResult.Succeeded)
+                {
+                    return BadRequest(new { errors = createResult.Errors.Select(e => e.Description) });
+                }
+                createdAccount = true;
+            }
+
+            var linkResult = await _userManager.AddLoginAsync(user, new UserLoginInfo(SsoLoginProvider, identity.Subject, _oidcOptions.DisplayName));
+            if (!linkResult.Succeeded)
+            {
+                return BadRequest(new { errors = linkResult.Errors.Select(e => e.Description) });
+            }
+        }
+
+        if (await _userManager.IsLockedOutAsync(user))
+        {
+            await RecordSignInAsync(user, false, cancellationToken);
+            return Unauthorized(new { message = "This account is locked. Contact an administrator." });
+        }
+
+        // Accounts created here have no local password. Linked local accounts
+        // keep the roles granted to them in the admin console.
+        if (createdAccount || (_oidcOptions.SyncRoles && !await _userManager.HasPasswordAsync(user)))
+        {
+            await SyncRolesAsync(user, _oidcOptions.MapRoles(identity.Groups), cancellationToken);
+        }
+        await RecordSignInAsync(user, true, cancellationToken);
+
+        user.LastLoginAt = DateTime.UtcNow;
+        await _userManager.UpdateAsync(user);
+
+        return Ok(await StartSessionAsync(user, cancellationToken));
+    }
+
+    /// <summary>
+    /// Exchange a refresh token for a new access token. The refresh token is
+    /// rotated, so the one sent cannot be used again.
+    /// </summary>
+    [HttpPost("refresh")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> Refresh([FromBody] RefreshRequest request, CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(request.RefreshToken))
+        {
+            return BadRequest(new { message = "Refresh token is required" });
+        }
+
+        var rotation = await _refreshTokens.RotateAsync(request.RefreshToken, cancellationToken);
+        if (rotation == null)
+        {
+            return Unauthorized(new { message = "Session has expired. Please sign in again." });
+        }
+
+        var user = await _userManager.FindByIdAsync(rotation.UserId);
+        if (user == null || await _userManager.IsLockedOutAsync(user))
+        {
+            return Unauthorized(new { message = "Session has expired. Please sign in again." });
+        }
+
+        var (token, expiresAt) = await GenerateJwtToken(user);
         var roles = await _userManager.GetRolesAsync(user);
 
         return Ok(new AuthResponse
         {
             Token = token,
+            ExpiresAt = expiresAt,
+            RefreshToken = rotation.RefreshToken,
             Email = user.Email!,
             FirstName = user.FirstName,
             LastName = user.LastName,
@@ -109,6 +302,21 @@ public class AuthController : ApiControllerBase
         });
     }
 
+    /// <summary>
+    /// Revoke a refresh token when the user signs out
+    /// </summary>
+    [HttpPost("logout")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    public async Task<IActionResult> Logout([FromBody] RefreshRequest request, CancellationToken cancellationToken = default)
+    {
+        if (!string.IsNullOrWhiteSpace(request.RefreshToken))
+        {
+            await _refreshTokens.RevokeAsync(request.RefreshToken, cancellationToken);
+        }
+
+        return NoContent();
+    }
+
     /// <summary>
     /// Get current user information
     /// </summary>
@@ -118,30 +326,201 @@ public class AuthController : ApiControllerBase
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     public async Task<IActionResult> GetCurrentUser()
     {
-        var email = User.FindFirstValue(ClaimTypes.Email);
-        if (email == null)
+        var user = await GetSignedInUserAsync();
+        if (user == null)
+        {
+            return Unauthorized();
+        }
+
+        return Ok(await ToUserInfoAsync(user));
+    }
+
+    /// <summary>
+    /// Update the signed-in user's name
+    /// </summary>
+    [Authorize]
+    [HttpPut("me")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> UpdateProfile([FromBody] UpdateProfileRequest request)
+    {
+        var user = await GetSignedInUserAsync();
+        if (user == null)
+        {
+            return Unauthorized();
+        }
+
+        user.FirstName = string.IsNullOrWhiteSpace(request.FirstName) ? null : request.FirstName.Trim();
+        user.LastName = string.IsNullOrWhiteSpace(request.LastName) ? null : request.LastName.Trim();
+
+        var result = await _userManager.UpdateAsync(user);
+        if (!result.Succeeded)
+        {
+            return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+        }
+
+        return Ok(await ToUserInfoAsync(user));
+    }
+
+    /// <summary>
+    /// Change the signed-in user's password. Every other session is signed
+    /// out, and this one continues with the new tokens returned.
+    /// </summary>
+    [Authorize]
+    [HttpPost("me/password")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> ChangePassword([FromBody] ChangePasswordRequest request, CancellationToken cancellationToken = default)
+    {
+        var user = await GetSignedInUserAsync();
+        if (user == null)
         {
             return Unauthorized();
         }
 
-        var user = await _userManager.FindByEmailAsync(email);
+        var result = await _userManager.ChangePasswordAsync(user, request.CurrentPassword, request.NewPassword);
+        if (!result.Succeeded)
+        {
+            if (result.Errors.Any(e => e.Code == nameof(IdentityErrorDescriber.PasswordMismatch)))
+            {
+                return BadRequest(new { message = "Current password is incorrect" });
+            }
+
+            return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+        }
+
+        await _refreshTokens.RevokeAllAsync(user.Id, cancellationToken);
+
+        return Ok(await StartSessionAsync(user, cancellationToken));
+    }
+
+    /// <summary>
+    /// Recent sign-in attempts for the signed-in user, newest first
+    /// </summary>
+    [Authorize]
+    [HttpGet("me/sign-ins")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    public async Task<IActionResult> GetSignInHistory(CancellationToken cancellationToken = default)
+    {
+        var user = await GetSignedInUserAsync();
         if (user == null)
         {
             return Unauthorized();
         }
 
+        var signIns = await _signInHistory.GetRecentAsync(user.Id, 20, cancellationToken);
+
+        return Ok(signIns.Select(s => new SignInHistoryEntry
+        {
+            SignedInAt = s.SignedInAt,
+            Succeeded = s.Succeeded,
+            IpAddress = s.IpAddress,
+            UserAgent = s.UserAgent
+        }).ToList());
+    }
+
+    private async Task<ApplicationUser?> GetSignedInUserAsync()
+    {
+        var email = User.FindFirstValue(ClaimTypes.Email);
+        return email == null ? null : await _userManager.FindByEmailAsync(email);
+    }
+
+    private async Task<UserInfo> ToUserInfoAsync(ApplicationUser user)
+    {
         var roles = await _userManager.GetRolesAsync(user);
 
-        return Ok(new UserInfo
+        return new UserInfo
         {
             Email = user.Email!,
             FirstName = user.FirstName,
             LastName = user.LastName,
             Roles = roles.ToArray()
-        });
+        };
+    }
+
+    /// <summary>
+    /// Issue an access token and a new refresh token for a signed-in user
+    /// </summary>
+    private async Task<AuthResponse> StartSessionAsync(ApplicationUser user, CancellationToken cancellationToken)
+    {
+        var (token, expiresAt) = await GenerateJwtToken(user);
+        var refreshToken = await _refreshTokens.IssueAsync(user, cancellationToken);
+        var roles = await _userManager.GetRolesAsync(user);
+
+        return new AuthResponse
+        {
+            Token = token,
+            ExpiresAt = expiresAt,
+            RefreshToken = refreshToken,
+            Email = user.Email!,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            Roles = roles.ToArray()
+        };
     }
 
-    private async Task<string> GenerateJwtToken(ApplicationUser user)
+    /// <summary>
+    /// Make the user's roles match the set mapped from their provider groups,
+    /// recording each change in the user account audit. Admin is only taken
+    /// away when some group is mapped to it.
+    /// </summary>
+    private async Task SyncRolesAsync(ApplicationUser user, string[] roles, CancellationToken cancellationToken)
+    {
+        var currentRoles = await _userManager.GetRolesAsync(user);
+
+        var removed = currentRoles
+            .Except(roles)
+            .Where(role => role != Roles.Admin || _oidcOptions.MapsRole(Roles.Admin))
+            .ToArray();
+        if (removed.Length > 0)
+        {
+            await _userManager.RemoveFromRolesAsync(user, removed);
+        }
+
+        var added = roles.Except(currentRoles).ToArray();
+        if (added.Length > 0)
+        {
+            await _userManager.AddToRolesAsync(user, added);
+        }
+
+        if (removed.Length == 0 && added.Length == 0)
+        {
+            return;
+        }
+
+        var changes = removed.Select(role => (Action: "RoleRevoked", Role: role))
+            .Concat(added.Select(role => (Action: "RoleGranted", Role: role)));
+        foreach (var (action, role) in changes)
+        {
+            await _context.UserAccountAudits.AddAsync(new UserAccountAudit
+            {
+                TargetUserId = user.Id,
+                TargetEmail = user.Email ?? string.Empty,
+                Action = action,
+                Detail = $"{role} (synced from {_oidcOptions.DisplayName})",
+                PerformedByUserId = user.Id,
+                PerformedByEmail = user.Email ?? string.Empty,
+                PerformedAt = DateTime.UtcNow,
+                CorrelationId = HttpContext?.GetCorrelationId()
+            }, cancellationToken);
+        }
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private Task RecordSignInAsync(ApplicationUser user, bool succeeded, CancellationToken cancellationToken)
+    {
+        return _signInHistory.RecordAsync(
+            user,
+            succeeded,
+            HttpContext?.Connection.RemoteIpAddress?.ToString(),
+            HttpContext?.Request.Headers.UserAgent.ToString(),
+            cancellationToken);
+    }
+
+    private async Task<(string Token, DateTime ExpiresAt)> GenerateJwtToken(ApplicationUser user)
     {
         var jwtSettings = _configuration.GetSection("Jwt");
         var secretKey = jwtSettings["SecretKey"] ?? throw new InvalidOperationException("JWT SecretKey not configured");
@@ -174,17 +553,21 @@ public class AuthController : ApiControllerBase
             claims.Add(new Claim(ClaimTypes.Surname, user.LastName));
         }
 
-        var expirationHours = int.Parse(jwtSettings["ExpirationHours"] ?? "24");
+        // Short-lived access tokens are renewed through the refresh endpoint;
+        // ExpirationHours remains as the fallback for older configuration
+        var expiresAt = int.TryParse(jwtSettings["AccessTokenMinutes"], out var minutes)
+            ? DateTime.UtcNow.AddMinutes(minutes)
+            : DateTime.UtcNow.AddHours(int.Parse(jwtSettings["ExpirationHours"] ?? "24"));
         
         var token = new JwtSecurityToken(
             issuer: jwtSettings["Issuer"],
             audience: jwtSettings["Audience"],
             claims: claims,
-            expires: DateTime.UtcNow.AddHours(expirationHours),
+            expires: expiresAt,
             signingCredentials: credentials
         );
 
-        return new JwtSecurityTokenHandler().WriteToken(token);
+        return (new JwtSecurityTokenHandler().WriteToken(token), expiresAt);
     }
 }
 
@@ -202,15 +585,59 @@ public record LoginRequest
     public required string Password { get; init; }
 }
 
+public record RefreshRequest
+{
+    public required string RefreshToken { get; init; }
+}
+
 public record AuthResponse
 {
     public required string Token { get; init; }
+    public DateTime ExpiresAt { get; init; }
+    public string? RefreshToken { get; init; }
     public required string Email { get; init; }
     public string? FirstName { get; init; }
     public string? LastName { get; init; }
     public required string[] Roles { get; init; }
 }
 
+public record SsoConfiguration
+{
+    public bool Enabled { get; init; }
+    public string? DisplayName { get; init; }
+    public string? AuthorizationEndpoint { get; init; }
+    public string? ClientId { get; init; }
+    public string? Scope { get; init; }
+}
+
+public record SsoCallbackRequest
+{
+    public required string Code { get; init; }
+    public required string CodeVerifier { get; init; }
+    public required string RedirectUri { get; init; }
+    public required string Nonce { get; init; }
+}
+
+public record UpdateProfileRequest
+{
+    public string? FirstName { get; init; }
+    public string? LastName { get; init; }
+}
+
+public record ChangePasswordRequest
+{
+    public required string CurrentPassword { get; init; }
+    public required string NewPassword { get; init; }
+}
+
+public record SignInHistoryEntry
+{
+    public DateTime SignedInAt { get; init; }
+    public bool Succeeded { get; init; }
+    public string? IpAddress { get; init; }
+    public string? UserAgent { get; init; }
+}
+
 public record UserInfo
 {
     public required string Email { get; init; }
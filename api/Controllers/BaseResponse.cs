@@ -8,5 +8,12 @@ namespace StargateAPI.Controllers
         public string Message { get; set; } = "Successful";
         public int ResponseCode { get; set; } = (int)HttpStatusCode.OK;
         public string? ExceptionId { get; set; }
+        public string? TraceId { get; set; }
+
+        /// <summary>
+        /// Validation messages keyed by request property, for failures the
+        /// client can pin to a form field
+        /// </summary>
+        public Dictionary<string, string[]>? Errors { get; set; }
     }
 }
\ No newline at end of file
@@ -7,6 +7,11 @@ namespace StargateAPI.Controllers
 
         public static IActionResult GetResponse(this ControllerBase controllerBase, BaseResponse response)
         {
+            if (!response.Success)
+            {
+                response.TraceId ??= controllerBase.HttpContext?.TraceIdentifier;
+            }
+
             var httpResponse = new ObjectResult(response)
             {
                 StatusCode = response.ResponseCode
@@ -0,0 +1,20 @@
+﻿using System.Net;
+
+namespace StargateAPI.Controllers
+{
+    /// <summary>
+    /// A bad request caused by a single request property. The logging
+    /// middleware returns it as a 400 with the message under that field in
+    /// <see cref="BaseResponse.Errors"/> so the client can highlight it.
+    /// </summary>
+    public class FieldValidationException : BadHttpRequestException
+    {
+        public FieldValidationException(string field, string message)
+            : base(message, (int)HttpStatusCode.BadRequest)
+        {
+            Field = field;
+        }
+
+        public string Field { get; }
+    }
+}
@@ -1,29 +1,44 @@
+using System.Text.Json;
+using MediatR;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Diagnostics.HealthChecks;
 using OpenSearch.Client;
+using StargateAPI.Business.Queries;
+using StargateAPI.Health;
 using StargateAPI.Logging;
+using StargateAPI.Middleware;
+using StargateAPI.Monitoring;
+using StargateAPI.Security;
 
 namespace StargateAPI.Controllers
 {
-    [Authorize(Roles = "Admin")]
+    [Authorize(Roles = Roles.Admin)]
     public class HealthController : ApiControllerBase
     {
         private readonly HealthCheckService _healthCheckService;
         private readonly ILogService _logService;
         private readonly IOpenSearchClient _openSearchClient;
         private readonly OpenSearchOptions _openSearchOptions;
+        private readonly IAdminEventHub _eventHub;
+        private readonly IMediator _mediator;
+
+        private static readonly JsonSerializerOptions EventJsonOptions = new(JsonSerializerDefaults.Web);
 
         public HealthController(
             HealthCheckService healthCheckService, 
             ILogService logService,
             IOpenSearchClient openSearchClient,
-            OpenSearchOptions openSearchOptions)
+            OpenSearchOptions openSearchOptions,
+            IAdminEventHub eventHub,
+            IMediator mediator)
         {
             _healthCheckService = healthCheckService;
             _logService = logService;
             _openSearchClient = openSearchClient;
             _openSearchOptions = openSearchOptions;
+            _eventHub = eventHub;
+            _mediator = mediator;
         }
 
         /// <summary>
@@ -37,26 +52,7 @@ namespace StargateAPI.Controllers
         {
             var report = await _healthCheckService.CheckHealthAsync();
 
-            var response = new
-            {
-                status = report.Status.ToString(),
-                timestamp = DateTime.UtcNow,
-                totalDuration = report.TotalDuration.TotalMilliseconds,
-                components = report.Entries.Select(e => new
-                {
-                    name = e.Key,
-                    status = e.Value.Status.ToString(),
-                    description = e.Value.Description ?? "No description available",
-                    duration = e.Value.Duration.TotalMilliseconds,
-                    tags = e.Value.Tags,
-                    exception = e.Value.Exception != null ? new
-                    {
-                        message = e.Value.Exception.Message,
-                        type = e.Value.Exception.GetType().Name
-                    } : null,
-                    data = e.Value.Data.Count > 0 ? e.Value.Data : null
-                }).OrderBy(c => c.name)
-            };
+            var response = HealthReportResponse.From(report);
 
             var statusCode = report.Status == HealthStatus.Healthy
                 ? StatusCodes.Status200OK
@@ -65,6 +61,50 @@ namespace StargateAPI.Controllers
             return StatusCode(statusCode, response);
         }
 
+        /// <summary>
+        /// Server-sent event stream of health changes, new exceptions and request-rate
+        /// counters for the admin dashboard. The current health is sent on connect.
+        /// The stream is left out of the request logs, as its duration is the
+        /// whole connection's lifetime.
+        /// </summary>
+        [HttpGet("stream")]
+        [Produces("text/event-stream")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        public async Task StreamEvents()
+        {
+            var cancellationToken = HttpContext.RequestAborted;
+
+            Response.Headers.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            // Stop nginx from buffering the stream
+            Response.Headers["X-Accel-Buffering"] = "no";
+
+            // Subscribe before the first health check so nothing published meanwhile is missed
+            using var subscription = _eventHub.Subscribe();
+
+            try
+            {
+                var report = await _healthCheckService.CheckHealthAsync(cancellationToken);
+                await WriteEventAsync(new AdminEvent(AdminEventTypes.Health, HealthReportResponse.From(report)), cancellationToken);
+
+                await foreach (var adminEvent in subscription.Events.ReadAllAsync(cancellationToken))
+                {
+                    await WriteEventAsync(adminEvent, cancellationToken);
+                }
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                // The dashboard disconnected
+            }
+        }
+
+        private async Task WriteEventAsync(AdminEvent adminEvent, CancellationToken cancellationToken)
+        {
+            var data = JsonSerializer.Serialize(adminEvent.Data, EventJsonOptions);
+            await Response.WriteAsync($"event: {adminEvent.Type}\ndata: {data}\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+        }
+
         /// <summary>
         /// Simple liveness probe - returns 200 if API is running
         /// </summary>
@@ -122,6 +162,7 @@ namespace StargateAPI.Controllers
             {
                 ExceptionId = exceptionId,
                 RequestId = HttpContext.TraceIdentifier,
+                CorrelationId = HttpContext.GetCorrelationId(),
                 Method = HttpContext.Request.Method,
                 Path = HttpContext.Request.Path,
                 QueryString = HttpContext.Request.QueryString.ToString(),
@@ -225,15 +266,19 @@ namespace StargateAPI.Controllers
         }
 
         /// <summary>
-        /// Get paginated list of exceptions
+        /// Search exceptions, newest first, filtered by the query (see LogSearchQuery)
         /// </summary>
         [HttpGet("exceptions")]
         [ProducesResponseType(StatusCodes.Status200OK)]
-        public async Task<IActionResult> GetExceptions(
-            [FromQuery] int page = 1,
-            [FromQuery] int pageSize = 20,
-            [FromQuery] int hours = 24)
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        public async Task<IActionResult> GetExceptions([FromQuery] LogSearchQuery query)
         {
+            var validationError = query.Validate();
+            if (validationError != null)
+            {
+                return BadRequest(new { error = "Invalid log search", message = validationError });
+            }
+
             if (!_openSearchOptions.Enabled)
             {
                 return Ok(new { enabled = false, data = new object[] { }, total = 0, page = 1, pageSize = 20 });
@@ -242,19 +287,15 @@ namespace StargateAPI.Controllers
             try
             {
                 var indexPattern = $"{_openSearchOptions.IndexPrefix}-exceptions-*";
-                var fromDate = DateTime.UtcNow.AddHours(-hours);
+                var page = query.Page;
+                var pageSize = query.PageSize;
                 var from = (page - 1) * pageSize;
 
                 var response = await _openSearchClient.SearchAsync<ExceptionLogEntry>(s => s
                     .Index(indexPattern)
                     .From(from)
                     .Size(pageSize)
-                    .Query(q => q
-                        .DateRange(dr => dr
-                            .Field(f => f.TimestampUtc)
-                            .GreaterThanOrEquals(fromDate)
-                        )
-                    )
+                    .Query(query.ToExceptionQuery)
                     .Sort(so => so
                         .Descending(f => f.TimestampUtc)
                     )
@@ -369,36 +410,164 @@ namespace StargateAPI.Controllers
         }
 
         /// <summary>
-        /// Get paginated list of requests
+        /// Get request volume, latency percentiles and error rates bucketed over time,
+        /// for all requests and for the busiest endpoints
         /// </summary>
-        [HttpGet("requests")]
+        [HttpGet("requests/timeseries")]
         [ProducesResponseType(StatusCodes.Status200OK)]
-        public async Task<IActionResult> GetRequests(
-            [FromQuery] int page = 1,
-            [FromQuery] int pageSize = 20,
-            [FromQuery] int hours = 24)
+        public async Task<IActionResult> GetRequestTimeSeries([FromQuery] int hours = 24)
         {
             if (!_openSearchOptions.Enabled)
             {
-                return Ok(new { enabled = false, data = new object[] { }, total = 0, page = 1, pageSize = 20 });
+                return Ok(new { enabled = false, series = new object[] { } });
             }
 
             try
             {
                 var indexPattern = $"{_openSearchOptions.IndexPrefix}-requests-*";
-                var fromDate = DateTime.UtcNow.AddHours(-hours);
-                var from = (page - 1) * pageSize;
+                var toDate = DateTime.UtcNow;
+                var fromDate = toDate.AddHours(-hours);
+                var interval = TimeSeriesInterval(hours);
 
                 var response = await _openSearchClient.SearchAsync<RequestLogEntry>(s => s
                     .Index(indexPattern)
-                    .From(from)
-                    .Size(pageSize)
+                    .Size(0)
                     .Query(q => q
                         .DateRange(dr => dr
                             .Field(f => f.TimestampUtc)
                             .GreaterThanOrEquals(fromDate)
                         )
                     )
+                    .Aggregations(a => a
+                        .DateHistogram("over_time", RequestsOverTime(fromDate, toDate, interval))
+                        .Terms("by_path", t => t
+                            .Field(f => f.Path.Suffix("keyword"))
+                            .Size(5)
+                            .Aggregations(aa => aa
+                                .DateHistogram("over_time", RequestsOverTime(fromDate, toDate, interval))
+                            )
+                        )
+                    )
+                );
+
+                if (!response.IsValid)
+                {
+                    return StatusCode(500, new { error = "Failed to query OpenSearch", message = response.DebugInformation });
+                }
+
+                var series = new List<object>
+                {
+                    new { path = (string?)null, buckets = ToTimeSeriesBuckets(response.Aggregations.DateHistogram("over_time")) }
+                };
+                series.AddRange(response.Aggregations.Terms("by_path").Buckets.Select(bucket => new
+                {
+                    path = (string?)bucket.Key,
+                    buckets = ToTimeSeriesBuckets(bucket.DateHistogram("over_time"))
+                }));
+
+                return Ok(new
+                {
+                    enabled = true,
+                    hours = hours,
+                    intervalMinutes = interval.TotalMinutes,
+                    timestamp = toDate,
+                    series = series
+                });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, new { error = "Failed to retrieve request time series", message = ex.Message });
+            }
+        }
+
+        /// <summary>
+        /// Bucket size that keeps a chart between roughly 50 and 100 points
+        /// </summary>
+        private static TimeSpan TimeSeriesInterval(int hours)
+        {
+            if (hours <= 1) return TimeSpan.FromMinutes(1);
+            if (hours <= 6) return TimeSpan.FromMinutes(5);
+            if (hours <= 24) return TimeSpan.FromMinutes(15);
+            if (hours <= 72) return TimeSpan.FromHours(1);
+            return TimeSpan.FromHours(2);
+        }
+
+        private static Func<DateHistogramAggregationDescriptor<RequestLogEntry>, IDateHistogramAggregation> RequestsOverTime(
+            DateTime fromDate, DateTime toDate, TimeSpan interval)
+        {
+            // Empty buckets are kept so quiet periods show as zero rather than gaps
+            return dh => dh
+                .Field(f => f.TimestampUtc)
+                .FixedInterval(new Time(interval))
+                .MinimumDocumentCount(0)
+                .ExtendedBounds(fromDate, toDate)
+                .Aggregations(aa => aa
+                    .Percentiles("latency", p => p
+                        .Field(f => f.DurationMs)
+                        .Percents(50, 95, 99)
+                    )
+                    .Filter("client_errors", fl => fl
+                        .Filter(q => q.Range(r => r.Field(f => f.StatusCode).GreaterThanOrEquals(400).LessThan(500)))
+                    )
+                    .Filter("server_errors", fl => fl
+                        .Filter(q => q.Range(r => r.Field(f => f.StatusCode).GreaterThanOrEquals(500)))
+                    )
+                );
+        }
+
+        private static List<object> ToTimeSeriesBuckets(MultiBucketAggregate<DateHistogramBucket> histogram)
+        {
+            return histogram.Buckets.Select(bucket =>
+            {
+                var count = bucket.DocCount ?? 0;
+                var latency = bucket.Percentiles("latency").Items;
+                double? Percentile(double percent) =>
+                    count > 0 ? latency.FirstOrDefault(i => i.Percentile == percent)?.Value : null;
+
+                return (object)new
+                {
+                    timestamp = bucket.Date,
+                    count = count,
+                    p50 = Percentile(50),
+                    p95 = Percentile(95),
+                    p99 = Percentile(99),
+                    clientErrorRate = count > 0 ? (double)bucket.Filter("client_errors").DocCount / count : 0,
+                    serverErrorRate = count > 0 ? (double)bucket.Filter("server_errors").DocCount / count : 0
+                };
+            }).ToList();
+        }
+
+        /// <summary>
+        /// Search requests, newest first, filtered by the query (see LogSearchQuery)
+        /// </summary>
+        [HttpGet("requests")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        public async Task<IActionResult> GetRequests([FromQuery] LogSearchQuery query)
+        {
+            var validationError = query.Validate();
+            if (validationError != null)
+            {
+                return BadRequest(new { error = "Invalid log search", message = validationError });
+            }
+
+            if (!_openSearchOptions.Enabled)
+            {
+                return Ok(new { enabled = false, data = new object[] { }, total = 0, page = 1, pageSize = 20 });
+            }
+
+            try
+            {
+                var indexPattern = $"{_openSearchOptions.IndexPrefix}-requests-*";
+                var page = query.Page;
+                var pageSize = query.PageSize;
+                var from = (page - 1) * pageSize;
+
+                var response = await _openSearchClient.SearchAsync<RequestLogEntry>(s => s
+                    .Index(indexPattern)
+                    .From(from)
+                    .Size(pageSize)
+                    .Query(query.ToRequestQuery)
                     .Sort(so => so
                         .Descending(f => f.TimestampUtc)
                     )
@@ -424,5 +593,94 @@ namespace StargateAPI.Controllers
                 return StatusCode(500, new { error = "Failed to retrieve requests", message = ex.Message });
             }
         }
+
+        /// <summary>
+        /// Everything recorded for one user action: its requests, exceptions and
+        /// audit entries, oldest first. The id is a correlation id, or the request
+        /// id of one of its requests.
+        /// </summary>
+        [HttpGet("trace/{id}")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status400BadRequest)]
+        public async Task<IActionResult> GetTrace(string id)
+        {
+            if (!CorrelationIdMiddleware.IsValid(id))
+            {
+                return BadRequest(new { error = "Invalid trace id", message = "Enter a correlation id or request id." });
+            }
+
+            var correlationIds = new List<string> { id };
+            var requests = new List<RequestLogEntry>();
+            var exceptions = new List<ExceptionLogEntry>();
+
+            if (_openSearchOptions.Enabled)
+            {
+                try
+                {
+                    requests = await SearchTraceAsync<RequestLogEntry>("requests", correlationIds);
+
+                    // A request id widens to the user action the request belongs to
+                    var actions = requests
+                        .Select(r => r.CorrelationId)
+                        .OfType<string>()
+                        .Where(c => c.Length > 0 && !correlationIds.Contains(c))
+                        .Distinct()
+                        .ToList();
+                    if (actions.Count > 0)
+                    {
+                        correlationIds.AddRange(actions);
+                        requests = await SearchTraceAsync<RequestLogEntry>("requests", correlationIds);
+                    }
+
+                    exceptions = await SearchTraceAsync<ExceptionLogEntry>("exceptions", correlationIds);
+                }
+                catch (Exception ex)
+                {
+                    return StatusCode(500, new { error = "Failed to retrieve trace", message = ex.Message });
+                }
+            }
+
+            var audits = await _mediator.Send(new GetTraceAudits { CorrelationIds = correlationIds }, HttpContext.RequestAborted);
+
+            return Ok(new
+            {
+                id = id,
+                correlationIds = correlationIds,
+                enabled = _openSearchOptions.Enabled,
+                timestamp = DateTime.UtcNow,
+                requests = requests,
+                exceptions = exceptions,
+                audits = audits.Audits
+            });
+        }
+
+        /// <summary>
+        /// Log entries whose correlation id or request id is one of the ids
+        /// </summary>
+        private async Task<List<T>> SearchTraceAsync<T>(string logType, IReadOnlyCollection<string> ids) where T : class
+        {
+            var response = await _openSearchClient.SearchAsync<T>(s => s
+                .Index($"{_openSearchOptions.IndexPrefix}-{logType}-*")
+                .Size(200)
+                .Query(q => q
+                    .Bool(b => b
+                        .Should(
+                            sh => sh.Terms(t => t.Field("correlationId.keyword").Terms(ids)),
+                            sh => sh.Terms(t => t.Field("requestId.keyword").Terms(ids))
+                        )
+                        .MinimumShouldMatch(1)
+                    )
+                )
+                .Sort(so => so.Ascending("timestampUtc")),
+                HttpContext.RequestAborted
+            );
+
+            if (!response.IsValid)
+            {
+                throw new InvalidOperationException(response.DebugInformation);
+            }
+
+            return response.Documents.ToList();
+        }
     }
 }
@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using StargateAPI.Business.Commands;
 using StargateAPI.Business.Queries;
+using StargateAPI.Security;
 
 namespace StargateAPI.Controllers
 {
@@ -16,11 +17,30 @@ namespace StargateAPI.Controllers
         }
 
         [HttpGet("")]
-        public async Task<IActionResult> GetPeople()
+        public async Task<IActionResult> GetPeople(
+            [FromQuery] int? page,
+            [FromQuery] int? pageSize,
+            [FromQuery] string? search,
+            [FromQuery] string? sortBy,
+            [FromQuery] string? sortDirection,
+            [FromQuery(Name = "rank")] string[]? ranks,
+            [FromQuery(Name = "dutyTitle")] string[]? dutyTitles,
+            [FromQuery(Name = "status")] string[]? statuses,
+            [FromQuery] DateTime? careerStartFrom,
+            [FromQuery] DateTime? careerStartTo)
         {
             var result = await _mediator.Send(new GetPeople()
             {
-
+                Page = page,
+                PageSize = pageSize,
+                Search = search,
+                SortBy = sortBy,
+                SortDirection = sortDirection,
+                Ranks = ranks?.ToList() ?? new List<string>(),
+                DutyTitles = dutyTitles?.ToList() ?? new List<string>(),
+                Statuses = statuses?.ToList() ?? new List<string>(),
+                CareerStartFrom = careerStartFrom,
+                CareerStartTo = careerStartTo
             });
 
             return this.GetResponse(result);
@@ -37,6 +57,21 @@ namespace StargateAPI.Controllers
             return this.GetResponse(result);
         }
 
+        /// <summary>
+        /// Audited changes to the person, their astronaut detail and duties, newest first
+        /// </summary>
+        [HttpGet("{name}/history")]
+        public async Task<IActionResult> GetPersonHistory(string name)
+        {
+            var result = await _mediator.Send(new GetPersonHistory()
+            {
+                Name = name
+            });
+
+            return this.GetResponse(result);
+        }
+
+        [Authorize(Roles = Roles.Writers)]
         [HttpPost("")]
         public async Task<IActionResult> CreatePerson([FromBody] string name)
         {
@@ -47,5 +82,18 @@ namespace StargateAPI.Controllers
 
             return this.GetResponse(result);
         }
+
+        [Authorize(Roles = Roles.Writers)]
+        [HttpPut("{name}")]
+        public async Task<IActionResult> RenamePerson(string name, [FromBody] string newName)
+        {
+            var result = await _mediator.Send(new RenamePerson()
+            {
+                CurrentName = name,
+                NewName = newName
+            });
+
+            return this.GetResponse(result);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,348 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using StargateAPI.Middleware;
+using StargateAPI.Security;
+using System.Security.Claims;
+using System.Security.Cryptography;
+
+namespace StargateAPI.Controllers;
+
+/// <summary>
+/// Admin console for registered accounts: roles, locks and password resets.
+/// Every change is written to the user account audit log.
+/// </summary>
+[Authorize(Roles = Roles.Admin)]
+public class UsersController : ApiControllerBase
+{
+    private readonly UserManager<ApplicationUser> _userManager;
+    private readonly StargateContext _context;
+    private readonly IRefreshTokenService _refreshTokens;
+
+    public UsersController(
+        UserManager<ApplicationUser> userManager,
+        StargateContext context,
+        IRefreshTokenService refreshTokens)
+    {
+        _userManager = userManager;
+        _context = context;
+        _refreshTokens = refreshTokens;
+    }
+
+    /// <summary>
+    /// List registered accounts, optionally filtered by email or name
+    /// </summary>
+    [HttpGet("")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetUsers([FromQuery] string? search, CancellationToken cancellationToken = default)
+    {
+        var query = _context.Users.AsNoTracking();
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var term = search.Trim().ToLower();
+            query = query.Where(u =>
+                (u.Email != null && u.Email.ToLower().Contains(term)) ||
+                (u.FirstName != null && u.FirstName.ToLower().Contains(term)) ||
+                (u.LastName != null && u.LastName.ToLower().Contains(term)));
+        }
+
+        var users = await query.OrderBy(u => u.Email).ToListAsync(cancellationToken);
+        var userIds = users.Select(u => u.Id).ToList();
+
+        var roles = await (
+            from userRole in _context.UserRoles
+            join role in _context.Roles on userRole.RoleId equals role.Id
+            where userIds.Contains(userRole.UserId)
+            select new { userRole.UserId, role.Name })
+            .ToListAsync(cancellationToken);
+
+        var rolesByUser = roles
+            .GroupBy(r => r.UserId)
+            .ToDictionary(g => g.Key, g => g.Select(r => r.Name!).OrderBy(n => n).ToArray());
+
+        return Ok(users
+            .Select(u => ToSummary(u, rolesByUser.GetValueOrDefault(u.Id) ?? Array.Empty<string>()))
+            .ToList());
+    }
+
+    /// <summary>
+    /// Recent account changes, newest first, optionally for a single user
+    /// </summary>
+    [HttpGet("audit")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetAudit([FromQuery] string? userId, [FromQuery] int? take, CancellationToken cancellationToken = default)
+    {
+        var query = _context.UserAccountAudits.AsNoTracking();
+
+        if (!string.IsNullOrWhiteSpace(userId))
+        {
+            query = query.Where(a => a.TargetUserId == userId);
+        }
+
+        var entries = await query
+            .OrderByDescending(a => a.PerformedAt)
+            .ThenByDescending(a => a.Id)
+            .Take(Math.Clamp(take ?? 50, 1, 200))
+            .ToListAsync(cancellationToken);
+
+        return Ok(entries);
+    }
+
+    /// <summary>
+    /// Grant a role to a user
+    /// </summary>
+    [HttpPost("{id}/roles/{role}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GrantRole(string id, string role, CancellationToken cancellationToken = default)
+    {
+        var roleName = Roles.All.FirstOrDefault(r => string.Equals(r, role, StringComparison.OrdinalIgnoreCase));
+        if (roleName == null)
+        {
+            return BadRequest(new { message = $"Unknown role '{role}'." });
+        }
+
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        if (!await _userManager.IsInRoleAsync(user, roleName))
+        {
+            var result = await _userManager.AddToRoleAsync(user, roleName);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+            }
+
+            await RecordAsync(user, "RoleGranted", roleName, cancellationToken);
+        }
+
+        return Ok(await GetSummaryAsync(user));
+    }
+
+    /// <summary>
+    /// Revoke a role from a user. Admins cannot remove their own Admin role.
+    /// </summary>
+    [HttpDelete("{id}/roles/{role}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> RevokeRole(string id, string role, CancellationToken cancellationToken = default)
+    {
+        var roleName = Roles.All.FirstOrDefault(r => string.Equals(r, role, StringComparison.OrdinalIgnoreCase));
+        if (roleName == null)
+        {
+            return BadRequest(new { message = $"Unknown role '{role}'." });
+        }
+
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        if (roleName == Roles.Admin && user.Id == CurrentUserId())
+        {
+            return BadRequest(new { message = "You cannot remove your own Admin role." });
+        }
+
+        if (await _userManager.IsInRoleAsync(user, roleName))
+        {
+            var result = await _userManager.RemoveFromRoleAsync(user, roleName);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+            }
+
+            await RecordAsync(user, "RoleRevoked", roleName, cancellationToken);
+        }
+
+        return Ok(await GetSummaryAsync(user));
+    }
+
+    /// <summary>
+    /// Lock an account indefinitely and end its sessions
+    /// </summary>
+    [HttpPost("{id}/lock")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> LockUser(string id, CancellationToken cancellationToken = default)
+    {
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        if (user.Id == CurrentUserId())
+        {
+            return BadRequest(new { message = "You cannot lock your own account." });
+        }
+
+        await _userManager.SetLockoutEnabledAsync(user, true);
+        var result = await _userManager.SetLockoutEndDateAsync(user, DateTimeOffset.MaxValue);
+        if (!result.Succeeded)
+        {
+            return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+        }
+
+        await _refreshTokens.RevokeAllAsync(user.Id, cancellationToken);
+        await RecordAsync(user, "Locked", null, cancellationToken);
+
+        return Ok(await GetSummaryAsync(user));
+    }
+
+    /// <summary>
+    /// Unlock an account and clear its failed sign-in count
+    /// </summary>
+    [HttpPost("{id}/unlock")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> UnlockUser(string id, CancellationToken cancellationToken = default)
+    {
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        var result = await _userManager.SetLockoutEndDateAsync(user, null);
+        if (!result.Succeeded)
+        {
+            return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+        }
+
+        await _userManager.ResetAccessFailedCountAsync(user);
+        await RecordAsync(user, "Unlocked", null, cancellationToken);
+
+        return Ok(await GetSummaryAsync(user));
+    }
+
+    /// <summary>
+    /// Replace the user's password with a one-time temporary password and end
+    /// their sessions. The temporary password is returned once and not stored.
+    /// </summary>
+    [HttpPost("{id}/reset-password")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ResetPassword(string id, CancellationToken cancellationToken = default)
+    {
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        var temporaryPassword = GenerateTemporaryPassword();
+        var resetToken = await _userManager.GeneratePasswordResetTokenAsync(user);
+        var result = await _userManager.ResetPasswordAsync(user, resetToken, temporaryPassword);
+        if (!result.Succeeded)
+        {
+            return BadRequest(new { errors = result.Errors.Select(e => e.Description) });
+        }
+
+        await _refreshTokens.RevokeAllAsync(user.Id, cancellationToken);
+        await RecordAsync(user, "PasswordReset", null, cancellationToken);
+
+        return Ok(new PasswordResetResponse
+        {
+            Email = user.Email!,
+            TemporaryPassword = temporaryPassword
+        });
+    }
+
+    private async Task<UserSummary> GetSummaryAsync(ApplicationUser user)
+    {
+        var roles = await _userManager.GetRolesAsync(user);
+        return ToSummary(user, roles.OrderBy(r => r).ToArray());
+    }
+
+    private static UserSummary ToSummary(ApplicationUser user, string[] roles)
+    {
+        return new UserSummary
+        {
+            Id = user.Id,
+            Email = user.Email ?? string.Empty,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            Roles = roles,
+            CreatedAt = user.CreatedAt,
+            LastLoginAt = user.LastLoginAt,
+            IsLockedOut = user.LockoutEnd.HasValue && user.LockoutEnd.Value > DateTimeOffset.UtcNow
+        };
+    }
+
+    private async Task RecordAsync(ApplicationUser target, string action, string? detail, CancellationToken cancellationToken)
+    {
+        await _context.UserAccountAudits.AddAsync(new UserAccountAudit
+        {
+            TargetUserId = target.Id,
+            TargetEmail = target.Email ?? string.Empty,
+            Action = action,
+            Detail = detail,
+            PerformedByUserId = CurrentUserId() ?? string.Empty,
+            PerformedByEmail = User.FindFirstValue(ClaimTypes.Email) ?? string.Empty,
+            PerformedAt = DateTime.UtcNow,
+            CorrelationId = HttpContext.GetCorrelationId()
+        }, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private string? CurrentUserId()
+    {
+        return User.FindFirstValue(ClaimTypes.NameIdentifier);
+    }
+
+    /// <summary>
+    /// A random password that satisfies the Identity password policy
+    /// </summary>
+    private static string GenerateTemporaryPassword()
+    {
+        const string upper = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+        const string lower = "abcdefghijkmnopqrstuvwxyz";
+        const string digits = "23456789";
+        const string symbols = "!@#$%^&*?";
+        const string all = upper + lower + digits + symbols;
+
+        var chars = new List<char>
+        {
+            upper[RandomNumberGenerator.GetInt32(upper.Length)],
+            lower[RandomNumberGenerator.GetInt32(lower.Length)],
+            digits[RandomNumberGenerator.GetInt32(digits.Length)],
+            symbols[RandomNumberGenerator.GetInt32(symbols.Length)]
+        };
+
+        while (chars.Count < 16)
+        {
+            chars.Add(all[RandomNumberGenerator.GetInt32(all.Length)]);
+        }
+
+        return new string(chars.OrderBy(_ => RandomNumberGenerator.GetInt32(int.MaxValue)).ToArray());
+    }
+}
+
+public record UserSummary
+{
+    public required string Id { get; init; }
+    public required string Email { get; init; }
+    public string? FirstName { get; init; }
+    public string? LastName { get; init; }
+    public required string[] Roles { get; init; }
+    public DateTime CreatedAt { get; init; }
+    public DateTime? LastLoginAt { get; init; }
+    public bool IsLockedOut { get; init; }
+}
+
+public record PasswordResetResponse
+{
+    public required string Email { get; init; }
+    public required string TemporaryPassword { get; init; }
+}
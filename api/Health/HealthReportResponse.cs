@@ -0,0 +1,34 @@
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+
+namespace StargateAPI.Health
+{
+    public static class HealthReportResponse
+    {
+        /// <summary>
+        /// The shape the admin dashboard reads, shared by the status endpoint and the event stream
+        /// </summary>
+        public static object From(HealthReport report)
+        {
+            return new
+            {
+                status = report.Status.ToString(),
+                timestamp = DateTime.UtcNow,
+                totalDuration = report.TotalDuration.TotalMilliseconds,
+                components = report.Entries.Select(e => new
+                {
+                    name = e.Key,
+                    status = e.Value.Status.ToString(),
+                    description = e.Value.Description ?? "No description available",
+                    duration = e.Value.Duration.TotalMilliseconds,
+                    tags = e.Value.Tags,
+                    exception = e.Value.Exception != null ? new
+                    {
+                        message = e.Value.Exception.Message,
+                        type = e.Value.Exception.GetType().Name
+                    } : null,
+                    data = e.Value.Data.Count > 0 ? e.Value.Data : null
+                }).OrderBy(c => c.name)
+            };
+        }
+    }
+}
@@ -4,6 +4,7 @@ namespace StargateAPI.Logging
     {
         public string ExceptionId { get; set; } = string.Empty;
         public string RequestId { get; set; } = string.Empty;
+        public string? CorrelationId { get; set; }
         public string Method { get; set; } = string.Empty;
         public string Path { get; set; } = string.Empty;
         public string QueryString { get; set; } = string.Empty;
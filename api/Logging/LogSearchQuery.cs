@@ -0,0 +1,165 @@
+using OpenSearch.Client;
+
+namespace StargateAPI.Logging
+{
+    /// <summary>
+    /// Filters for the request and exception log endpoints, bound from the query
+    /// string. Filters a log type does not record, such as duration on
+    /// exceptions, are ignored for that type.
+    /// </summary>
+    public class LogSearchQuery
+    {
+        public int Page { get; set; } = 1;
+        public int PageSize { get; set; } = 20;
+
+        /// <summary>
+        /// Look-back window used when no absolute From is given
+        /// </summary>
+        public int Hours { get; set; } = 24;
+
+        public DateTime? From { get; set; }
+        public DateTime? To { get; set; }
+        public string? Method { get; set; }
+
+        /// <summary>
+        /// Matches paths containing these path segments, ignoring case
+        /// </summary>
+        public string? Path { get; set; }
+
+        public int? StatusFrom { get; set; }
+        public int? StatusTo { get; set; }
+        public long? MinDurationMs { get; set; }
+        public string? ExceptionType { get; set; }
+        public string? UserAgent { get; set; }
+        public string? RemoteIp { get; set; }
+        public string? RequestId { get; set; }
+
+        /// <summary>
+        /// Free text in simple query string syntax, e.g. <c>timeout -"test exception"</c>
+        /// </summary>
+        public string? Search { get; set; }
+
+        public string? Validate()
+        {
+            if (Page < 1 || PageSize < 1 || PageSize > 100)
+            {
+                return "Page must be at least 1 and page size between 1 and 100.";
+            }
+
+            if (From.HasValue && To.HasValue && From > To)
+            {
+                return "The start of the time range must be before its end.";
+            }
+
+            if (StatusFrom.HasValue && StatusTo.HasValue && StatusFrom > StatusTo)
+            {
+                return "The lowest status code must not be above the highest.";
+            }
+
+            return null;
+        }
+
+        public QueryContainer ToRequestQuery(QueryContainerDescriptor<RequestLogEntry> q)
+        {
+            var filters = CommonFilters<RequestLogEntry>();
+
+            if (MinDurationMs is long minDurationMs)
+            {
+                filters.Add(f => f.Range(r => r.Field(e => e.DurationMs).GreaterThanOrEquals(minDurationMs)));
+            }
+
+            return q.Bool(b => b
+                .Filter(filters)
+                .Must(SearchQuery<RequestLogEntry>(
+                    Infer.Field<RequestLogEntry>(e => e.Path),
+                    Infer.Field<RequestLogEntry>(e => e.QueryString),
+                    Infer.Field<RequestLogEntry>(e => e.UserAgent))));
+        }
+
+        public QueryContainer ToExceptionQuery(QueryContainerDescriptor<ExceptionLogEntry> q)
+        {
+            var filters = CommonFilters<ExceptionLogEntry>();
+
+            if (!string.IsNullOrWhiteSpace(ExceptionType))
+            {
+                var exceptionType = ExceptionType.Trim();
+                filters.Add(f => f.Term(t => t.Field(e => e.ExceptionType.Suffix("keyword")).Value(exceptionType)));
+            }
+
+            return q.Bool(b => b
+                .Filter(filters)
+                .Must(SearchQuery<ExceptionLogEntry>(
+                    Infer.Field<ExceptionLogEntry>(e => e.Message),
+                    Infer.Field<ExceptionLogEntry>(e => e.ExceptionType),
+                    Infer.Field<ExceptionLogEntry>(e => e.StackTrace))));
+        }
+
+        /// <summary>
+        /// Filters on the fields both log types record, by their shared field names
+        /// </summary>
+        private List<Func<QueryContainerDescriptor<T>, QueryContainer>> CommonFilters<T>() where T : class
+        {
+            var fromDate = From ?? DateTime.UtcNow.AddHours(-Hours);
+            var filters = new List<Func<QueryContainerDescriptor<T>, QueryContainer>>
+            {
+                f => f.DateRange(r => r.Field("timestampUtc").GreaterThanOrEquals(fromDate))
+            };
+
+            if (To is DateTime toDate)
+            {
+                filters.Add(f => f.DateRange(r => r.Field("timestampUtc").LessThanOrEquals(toDate)));
+            }
+
+            if (!string.IsNullOrWhiteSpace(Method))
+            {
+                var method = Method.Trim().ToUpperInvariant();
+                filters.Add(f => f.Term(t => t.Field("method.keyword").Value(method)));
+            }
+
+            if (!string.IsNullOrWhiteSpace(Path))
+            {
+                var path = Path.Trim();
+                filters.Add(f => f.MatchPhrase(m => m.Field("path").Query(path)));
+            }
+
+            if (StatusFrom.HasValue || StatusTo.HasValue)
+            {
+                filters.Add(f => f.Range(r => r.Field("statusCode").GreaterThanOrEquals(StatusFrom).LessThanOrEquals(StatusTo)));
+            }
+
+            if (!string.IsNullOrWhiteSpace(UserAgent))
+            {
+                var userAgent = UserAgent.Trim();
+                filters.Add(f => f.MatchPhrase(m => m.Field("userAgent").Query(userAgent)));
+            }
+
+            if (!string.IsNullOrWhiteSpace(RemoteIp))
+            {
+                var remoteIp = RemoteIp.Trim();
+                filters.Add(f => f.Term(t => t.Field("remoteIp.keyword").Value(remoteIp)));
+            }
+
+            if (!string.IsNullOrWhiteSpace(RequestId))
+            {
+                var requestId = RequestId.Trim();
+                filters.Add(f => f.Term(t => t.Field("requestId.keyword").Value(requestId)));
+            }
+
+            return filters;
+        }
+
+        private Func<QueryContainerDescriptor<T>, QueryContainer> SearchQuery<T>(params Field[] fields) where T : class
+        {
+            if (string.IsNullOrWhiteSpace(Search))
+            {
+                return q => q.MatchAll();
+            }
+
+            var search = Search.Trim();
+            return q => q.SimpleQueryString(s => s
+                .Fields(fields)
+                .Query(search)
+                .DefaultOperator(Operator.And));
+        }
+    }
+}
@@ -3,6 +3,7 @@ namespace StargateAPI.Logging
     public class RequestLogEntry
     {
         public string RequestId { get; set; } = string.Empty;
+        public string? CorrelationId { get; set; }
         public string Method { get; set; } = string.Empty;
         public string Path { get; set; } = string.Empty;
         public string QueryString { get; set; } = string.Empty;
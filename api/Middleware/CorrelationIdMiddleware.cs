@@ -0,0 +1,61 @@
+using Microsoft.AspNetCore.Http;
+using System.Text.RegularExpressions;
+using System.Threading.Tasks;
+
+namespace StargateAPI.Middleware
+{
+    /// <summary>
+    /// Tags each request with the correlation id the client generated for the
+    /// user action behind it, so the requests, exceptions and audit entries of
+    /// one action can be found together. Requests without a usable id are
+    /// correlated by their own trace identifier.
+    /// </summary>
+    public class CorrelationIdMiddleware : IMiddleware
+    {
+        public const string HeaderName = "X-Correlation-ID";
+
+        internal const string ItemKey = "CorrelationId";
+
+        private const int MaxLength = 64;
+
+        private static readonly Regex ValidId = new("^[A-Za-z0-9._:-]+$", RegexOptions.Compiled);
+
+        public Task InvokeAsync(HttpContext context, RequestDelegate next)
+        {
+            var supplied = context.Request.Headers[HeaderName].ToString();
+            var correlationId = IsValid(supplied) ? supplied : context.TraceIdentifier;
+
+            context.Items[ItemKey] = correlationId;
+
+            // Set as the response starts, since error handling clears the response
+            context.Response.OnStarting(() =>
+            {
+                context.Response.Headers[HeaderName] = correlationId;
+                return Task.CompletedTask;
+            });
+
+            return next(context);
+        }
+
+        public static bool IsValid(string? correlationId)
+        {
+            return !string.IsNullOrEmpty(correlationId)
+                && correlationId.Length <= MaxLength
+                && ValidId.IsMatch(correlationId);
+        }
+    }
+
+    public static class CorrelationIdExtensions
+    {
+        /// <summary>
+        /// The correlation id of the current request, or its trace identifier
+        /// when the middleware has not run
+        /// </summary>
+        public static string GetCorrelationId(this HttpContext context)
+        {
+            return context.Items.TryGetValue(CorrelationIdMiddleware.ItemKey, out var value) && value is string correlationId
+                ? correlationId
+                : context.TraceIdentifier;
+        }
+    }
+}
@@ -3,6 +3,7 @@ using Microsoft.Extensions.Logging;
 using StargateAPI.Controllers;
 using StargateAPI.Logging;
 using System;
+using System.Collections.Generic;
 using System.Diagnostics;
 using System.Net;
 using System.Text.Json;
@@ -15,6 +16,8 @@ namespace StargateAPI.Middleware
         private readonly ILogService _logService;
         private readonly ILogger<RequestLoggingMiddleware> _logger;
 
+        private static readonly JsonSerializerOptions ErrorJsonOptions = new(JsonSerializerDefaults.Web);
+
         public RequestLoggingMiddleware(ILogService logService, ILogger<RequestLoggingMiddleware> logger)
         {
             _logService = logService;
@@ -34,7 +37,10 @@ namespace StargateAPI.Middleware
             {
                 exceptionId = Guid.NewGuid().ToString("N");
                 await LogExceptionAsync(context, ex, (int)HttpStatusCode.BadRequest, exceptionId);
-                await WriteErrorResponseAsync(context, ex.Message, (int)HttpStatusCode.BadRequest, exceptionId);
+                var errors = ex is FieldValidationException fieldError
+                    ? new Dictionary<string, string[]> { [fieldError.Field] = new[] { fieldError.Message } }
+                    : null;
+                await WriteErrorResponseAsync(context, ex.Message, (int)HttpStatusCode.BadRequest, exceptionId, errors);
             }
             catch (Exception ex)
             {
@@ -49,10 +55,21 @@ namespace StargateAPI.Middleware
             finally
             {
                 stopwatch.Stop();
-                await LogRequestAsync(context, stopwatch.ElapsedMilliseconds, exceptionId);
+
+                // An event stream stays open for as long as the client listens;
+                // its duration would skew latency statistics and alert rules
+                if (!IsEventStream(context.Response))
+                {
+                    await LogRequestAsync(context, stopwatch.ElapsedMilliseconds, exceptionId);
+                }
             }
         }
 
+        private static bool IsEventStream(HttpResponse response)
+        {
+            return response.ContentType?.StartsWith("text/event-stream", StringComparison.OrdinalIgnoreCase) == true;
+        }
+
         private async Task LogRequestAsync(HttpContext context, long durationMs, string? exceptionId)
         {
             try
@@ -60,6 +77,7 @@ namespace StargateAPI.Middleware
                 var entry = new RequestLogEntry
                 {
                     RequestId = context.TraceIdentifier,
+                    CorrelationId = context.GetCorrelationId(),
                     Method = context.Request.Method,
                     Path = context.Request.Path,
                     QueryString = context.Request.QueryString.HasValue ? context.Request.QueryString.Value ?? string.Empty : string.Empty,
@@ -87,6 +105,7 @@ namespace StargateAPI.Middleware
                 {
                     ExceptionId = exceptionId,
                     RequestId = context.TraceIdentifier,
+                    CorrelationId = context.GetCorrelationId(),
                     Method = context.Request.Method,
                     Path = context.Request.Path,
                     QueryString = context.Request.QueryString.HasValue ? context.Request.QueryString.Value ?? string.Empty : string.Empty,
@@ -107,7 +126,12 @@ namespace StargateAPI.Middleware
             }
         }
 
-        private static async Task WriteErrorResponseAsync(HttpContext context, string message, int statusCode, string exceptionId)
+        private static async Task WriteErrorResponseAsync(
+            HttpContext context,
+            string message,
+            int statusCode,
+            string exceptionId,
+            Dictionary<string, string[]>? errors = null)
         {
             if (context.Response.HasStarted)
             {
@@ -123,10 +147,13 @@ namespace StargateAPI.Middleware
                 Success = false,
                 Message = message,
                 ResponseCode = statusCode,
-                ExceptionId = exceptionId
+                ExceptionId = exceptionId,
+                TraceId = context.TraceIdentifier,
+                Errors = errors
             };
 
-            await JsonSerializer.SerializeAsync(context.Response.Body, payload);
+            // Match the camelCase bodies MVC writes for controller results
+            await JsonSerializer.SerializeAsync(context.Response.Body, payload, ErrorJsonOptions);
         }
     }
 }
@@ -0,0 +1,58 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace StargateAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddAuditCorrelationIds : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CorrelationId",
+                table: "UserAccountAudit",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CorrelationId",
+                table: "PersonnelAudit",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UserAccountAudit_CorrelationId",
+                table: "UserAccountAudit",
+                column: "CorrelationId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PersonnelAudit_CorrelationId",
+                table: "PersonnelAudit",
+                column: "CorrelationId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_UserAccountAudit_CorrelationId",
+                table: "UserAccountAudit");
+
+            migrationBuilder.DropIndex(
+                name: "IX_PersonnelAudit_CorrelationId",
+                table: "PersonnelAudit");
+
+            migrationBuilder.DropColumn(
+                name: "CorrelationId",
+                table: "UserAccountAudit");
+
+            migrationBuilder.DropColumn(
+                name: "CorrelationId",
+                table: "PersonnelAudit");
+        }
+    }
+}
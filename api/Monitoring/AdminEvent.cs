@@ -0,0 +1,15 @@
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Event types pushed to the admin dashboard stream
+    /// </summary>
+    public static class AdminEventTypes
+    {
+        public const string Health = "health";
+        public const string Exception = "exception";
+        public const string Requests = "requests";
+        public const string Alert = "alert";
+    }
+
+    public record AdminEvent(string Type, object Data);
+}
@@ -0,0 +1,73 @@
+using System;
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+
+namespace StargateAPI.Monitoring
+{
+    public interface IAdminEventHub
+    {
+        int SubscriberCount { get; }
+        void Publish(AdminEvent adminEvent);
+        AdminEventSubscription Subscribe();
+    }
+
+    /// <summary>
+    /// Fans admin dashboard events out to every open stream. Each subscriber
+    /// gets its own bounded buffer, so a slow client loses its oldest events
+    /// instead of holding up publishers or other clients.
+    /// </summary>
+    public class AdminEventHub : IAdminEventHub
+    {
+        private const int SubscriberBufferSize = 100;
+
+        private readonly ConcurrentDictionary<Guid, Channel<AdminEvent>> _subscribers = new();
+
+        public int SubscriberCount => _subscribers.Count;
+
+        public void Publish(AdminEvent adminEvent)
+        {
+            foreach (var channel in _subscribers.Values)
+            {
+                channel.Writer.TryWrite(adminEvent);
+            }
+        }
+
+        public AdminEventSubscription Subscribe()
+        {
+            var id = Guid.NewGuid();
+            var channel = Channel.CreateBounded<AdminEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+
+            _subscribers[id] = channel;
+
+            return new AdminEventSubscription(channel.Reader, () =>
+            {
+                if (_subscribers.TryRemove(id, out var removed))
+                {
+                    removed.Writer.TryComplete();
+                }
+            });
+        }
+    }
+
+    /// <summary>
+    /// An open stream's view of the hub; dispose it when the client disconnects
+    /// </summary>
+    public sealed class AdminEventSubscription : IDisposable
+    {
+        private readonly Action _unsubscribe;
+
+        public AdminEventSubscription(ChannelReader<AdminEvent> events, Action unsubscribe)
+        {
+            Events = events;
+            _unsubscribe = unsubscribe;
+        }
+
+        public ChannelReader<AdminEvent> Events { get; }
+
+        public void Dispose() => _unsubscribe();
+    }
+}
@@ -0,0 +1,88 @@
+using System;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using StargateAPI.Health;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Publishes request-rate counters on a short tick and health status when
+    /// it changes. Health checks only run while a dashboard is connected.
+    /// </summary>
+    public class AdminEventPublisher : BackgroundService
+    {
+        private static readonly TimeSpan RequestRateInterval = TimeSpan.FromSeconds(5);
+        private static readonly TimeSpan HealthCheckInterval = TimeSpan.FromSeconds(15);
+
+        private readonly IAdminEventHub _eventHub;
+        private readonly RequestRateCounter _requestRateCounter;
+        private readonly HealthCheckService _healthCheckService;
+        private readonly ILogger<AdminEventPublisher> _logger;
+
+        private DateTime _lastHealthCheckUtc = DateTime.MinValue;
+        private string? _lastHealthSignature;
+
+        public AdminEventPublisher(
+            IAdminEventHub eventHub,
+            RequestRateCounter requestRateCounter,
+            HealthCheckService healthCheckService,
+            ILogger<AdminEventPublisher> logger)
+        {
+            _eventHub = eventHub;
+            _requestRateCounter = requestRateCounter;
+            _healthCheckService = healthCheckService;
+            _logger = logger;
+        }
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using var timer = new PeriodicTimer(RequestRateInterval);
+
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                // Always take the snapshot so every window stays one tick long
+                var snapshot = _requestRateCounter.TakeSnapshot();
+
+                if (_eventHub.SubscriberCount == 0)
+                {
+                    // Streams send the current health on connect, so start fresh
+                    _lastHealthSignature = null;
+                    continue;
+                }
+
+                _eventHub.Publish(new AdminEvent(AdminEventTypes.Requests, snapshot));
+
+                if (DateTime.UtcNow - _lastHealthCheckUtc >= HealthCheckInterval)
+                {
+                    await PublishHealthChangeAsync(stoppingToken);
+                }
+            }
+        }
+
+        private async Task PublishHealthChangeAsync(CancellationToken stoppingToken)
+        {
+            _lastHealthCheckUtc = DateTime.UtcNow;
+
+            try
+            {
+                var report = await _healthCheckService.CheckHealthAsync(stoppingToken);
+                var signature = report.Status + "|" + string.Join(",",
+                    report.Entries.OrderBy(e => e.Key).Select(e => $"{e.Key}:{e.Value.Status}"));
+
+                if (signature != _lastHealthSignature)
+                {
+                    _lastHealthSignature = signature;
+                    _eventHub.Publish(new AdminEvent(AdminEventTypes.Health, HealthReportResponse.From(report)));
+                }
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogWarning(ex, "Failed to check health for the admin event stream.");
+            }
+        }
+    }
+}
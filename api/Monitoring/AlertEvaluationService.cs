@@ -0,0 +1,52 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Runs the alert evaluator on a fixed interval, whether or not anyone is
+    /// watching the admin dashboard
+    /// </summary>
+    public class AlertEvaluationService : BackgroundService
+    {
+        private static readonly TimeSpan EvaluationInterval = TimeSpan.FromSeconds(30);
+
+        private readonly IServiceScopeFactory _scopeFactory;
+        private readonly AlertEvaluator _evaluator;
+        private readonly ILogger<AlertEvaluationService> _logger;
+
+        public AlertEvaluationService(
+            IServiceScopeFactory scopeFactory,
+            AlertEvaluator evaluator,
+            ILogger<AlertEvaluationService> logger)
+        {
+            _scopeFactory = scopeFactory;
+            _evaluator = evaluator;
+            _logger = logger;
+        }
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using var timer = new PeriodicTimer(EvaluationInterval);
+
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                try
+                {
+                    using var scope = _scopeFactory.CreateScope();
+                    var context = scope.ServiceProvider.GetRequiredService<StargateContext>();
+                    await _evaluator.EvaluateAsync(context, DateTime.UtcNow, stoppingToken);
+                }
+                catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+                {
+                    _logger.LogWarning(ex, "Failed to evaluate alert rules.");
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,199 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+using Microsoft.Extensions.Logging;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Checks every enabled alert rule against current measurements. A breach
+    /// with no open or acknowledged incident for its rule and subject opens
+    /// one; an incident whose breach has cleared, or whose rule has been
+    /// disabled, is resolved. Every opened or resolved incident is announced
+    /// through the notifier. Components are tracked between runs to know how
+    /// long each has been Unhealthy, so a single instance is kept for the life
+    /// of the app.
+    /// </summary>
+    public class AlertEvaluator
+    {
+        private readonly IAlertMetricsSource _metrics;
+        private readonly IAlertNotifier _notifier;
+        private readonly ILogger<AlertEvaluator> _logger;
+
+        private readonly Dictionary<string, DateTime> _unhealthySince = new(StringComparer.OrdinalIgnoreCase);
+
+        private record Breach(double Value, string Message);
+
+        public AlertEvaluator(IAlertMetricsSource metrics, IAlertNotifier notifier, ILogger<AlertEvaluator> logger)
+        {
+            _metrics = metrics;
+            _notifier = notifier;
+            _logger = logger;
+        }
+
+        public async Task EvaluateAsync(StargateContext context, DateTime nowUtc, CancellationToken cancellationToken)
+        {
+            var rules = await context.AlertRules
+                .Where(r => r.Enabled)
+                .ToListAsync(cancellationToken);
+
+            if (rules.Any(r => r.Kind == AlertRuleKinds.ComponentUnhealthy))
+            {
+                await TrackComponentHealthAsync(nowUtc, cancellationToken);
+            }
+            else
+            {
+                _unhealthySince.Clear();
+            }
+
+            var active = await context.AlertIncidents
+                .Include(i => i.AlertRule)
+                .Where(i => i.Status != AlertIncidentStatuses.Resolved)
+                .ToListAsync(cancellationToken);
+
+            var changed = new List<AlertIncident>();
+
+            // A disabled rule is no longer checked, so nothing would clear its incidents
+            foreach (var incident in active.Where(i => !i.AlertRule.Enabled))
+            {
+                Resolve(incident, nowUtc);
+                changed.Add(incident);
+            }
+
+            foreach (var rule in rules)
+            {
+                Dictionary<string, Breach> breaches;
+                try
+                {
+                    breaches = await FindBreachesAsync(rule, nowUtc, cancellationToken);
+                }
+                catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+                {
+                    // Without measurements, leave the rule's incidents as they are
+                    _logger.LogWarning(ex, "Failed to evaluate alert rule {RuleId}.", rule.Id);
+                    continue;
+                }
+
+                var incidents = active.Where(i => i.AlertRuleId == rule.Id).ToList();
+
+                foreach (var (subject, breach) in breaches)
+                {
+                    var existing = incidents.FirstOrDefault(i => i.Subject == subject);
+                    if (existing != null)
+                    {
+                        existing.Value = breach.Value;
+                        existing.Message = breach.Message;
+                        continue;
+                    }
+
+                    var incident = new AlertIncident
+                    {
+                        AlertRule = rule,
+                        Subject = subject,
+                        Status = AlertIncidentStatuses.Open,
+                        Message = breach.Message,
+                        Value = breach.Value,
+                        TriggeredAt = nowUtc
+                    };
+                    context.AlertIncidents.Add(incident);
+                    changed.Add(incident);
+                }
+
+                foreach (var incident in incidents.Where(i => !breaches.ContainsKey(i.Subject)))
+                {
+                    Resolve(incident, nowUtc);
+                    changed.Add(incident);
+                }
+            }
+
+            await context.SaveChangesAsync(cancellationToken);
+
+            foreach (var incident in changed)
+            {
+                await _notifier.NotifyAsync(incident, cancellationToken);
+            }
+        }
+
+        private static void Resolve(AlertIncident incident, DateTime nowUtc)
+        {
+            incident.Status = AlertIncidentStatuses.Resolved;
+            incident.ResolvedAt = nowUtc;
+        }
+
+        private async Task TrackComponentHealthAsync(DateTime nowUtc, CancellationToken cancellationToken)
+        {
+            IReadOnlyDictionary<string, HealthStatus> statuses;
+            try
+            {
+                statuses = await _metrics.GetComponentStatusesAsync(cancellationToken);
+            }
+            catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                _logger.LogWarning(ex, "Failed to check health for alert rules.");
+                return;
+            }
+
+            foreach (var (component, status) in statuses)
+            {
+                if (status == HealthStatus.Unhealthy)
+                {
+                    _unhealthySince.TryAdd(component, nowUtc);
+                }
+                else
+                {
+                    _unhealthySince.Remove(component);
+                }
+            }
+
+            foreach (var component in _unhealthySince.Keys.Where(c => !statuses.ContainsKey(c)).ToList())
+            {
+                _unhealthySince.Remove(component);
+            }
+        }
+
+        private async Task<Dictionary<string, Breach>> FindBreachesAsync(AlertRule rule, DateTime nowUtc, CancellationToken cancellationToken)
+        {
+            var window = TimeSpan.FromMinutes(rule.WindowMinutes);
+            var target = string.IsNullOrWhiteSpace(rule.Target) ? null : rule.Target.Trim();
+
+            switch (rule.Kind)
+            {
+                case AlertRuleKinds.ComponentUnhealthy:
+                    return _unhealthySince
+                        .Where(c => target == null || string.Equals(c.Key, target, StringComparison.OrdinalIgnoreCase))
+                        .Where(c => nowUtc - c.Value >= window)
+                        .ToDictionary(
+                            c => c.Key,
+                            c =>
+                            {
+                                var minutes = Math.Floor((nowUtc - c.Value).TotalMinutes);
+                                return new Breach(minutes, $"{c.Key} has been Unhealthy for {minutes:0} minutes.");
+                            });
+
+                case AlertRuleKinds.ExceptionCount:
+                    var counts = await _metrics.GetExceptionCountsAsync(nowUtc - window, target, cancellationToken);
+                    return counts
+                        .Where(c => c.Value > rule.Threshold)
+                        .ToDictionary(
+                            c => c.Key,
+                            c => new Breach(c.Value, $"{c.Key} was thrown {c.Value} times in the last {rule.WindowMinutes} minutes (limit {rule.Threshold:0})."));
+
+                case AlertRuleKinds.LatencyP95:
+                    var latencies = await _metrics.GetP95LatencyAsync(nowUtc - window, target, cancellationToken);
+                    return latencies
+                        .Where(l => l.Value > rule.Threshold)
+                        .ToDictionary(
+                            l => l.Key,
+                            l => new Breach(l.Value, $"p95 latency on {l.Key} is {l.Value:0} ms over the last {rule.WindowMinutes} minutes (limit {rule.Threshold:0} ms)."));
+
+                default:
+                    throw new InvalidOperationException($"Unknown alert rule kind '{rule.Kind}'.");
+            }
+        }
+    }
+}
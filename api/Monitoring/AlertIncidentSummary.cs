@@ -0,0 +1,49 @@
+using System;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// An alert incident with the rule it belongs to, as shown in the admin
+    /// notification centre and sent to webhooks
+    /// </summary>
+    public record AlertIncidentSummary
+    {
+        public int Id { get; init; }
+        public int RuleId { get; init; }
+        public required string RuleName { get; init; }
+        public required string Kind { get; init; }
+        public required string Subject { get; init; }
+        public required string Status { get; init; }
+        public required string Message { get; init; }
+        public double Value { get; init; }
+        public DateTime TriggeredAt { get; init; }
+        public DateTime? AcknowledgedAt { get; init; }
+        public string? AcknowledgedByEmail { get; init; }
+        public DateTime? ResolvedAt { get; init; }
+        public string? ResolvedByEmail { get; init; }
+
+        /// <summary>
+        /// Project an incident; its rule must be loaded
+        /// </summary>
+        public static AlertIncidentSummary From(AlertIncident incident)
+        {
+            return new AlertIncidentSummary
+            {
+                Id = incident.Id,
+                RuleId = incident.AlertRuleId,
+                RuleName = incident.AlertRule.Name,
+                Kind = incident.AlertRule.Kind,
+                Subject = incident.Subject,
+                Status = incident.Status,
+                Message = incident.Message,
+                Value = incident.Value,
+                TriggeredAt = incident.TriggeredAt,
+                AcknowledgedAt = incident.AcknowledgedAt,
+                AcknowledgedByEmail = incident.AcknowledgedByEmail,
+                ResolvedAt = incident.ResolvedAt,
+                ResolvedByEmail = incident.ResolvedByEmail
+            };
+        }
+    }
+}
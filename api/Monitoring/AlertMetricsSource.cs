@@ -0,0 +1,141 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+using OpenSearch.Client;
+using StargateAPI.Logging;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Reads alert measurements from the health checks and OpenSearch, using
+    /// the same data as the health status, trending exceptions and request
+    /// stats endpoints. Log measurements are empty while OpenSearch is disabled.
+    /// </summary>
+    public class AlertMetricsSource : IAlertMetricsSource
+    {
+        // Buckets per query; a rule watching "any" path or type sees the busiest ones
+        private const int MaxSubjects = 50;
+
+        // Fewer requests than this in the window are too few for a percentile
+        private const int MinLatencySamples = 5;
+
+        // The admin event stream is no longer logged, but older entries carry
+        // whole connection lifetimes as their duration
+        private const string EventStreamPath = "/api/Health/stream";
+
+        private readonly HealthCheckService _healthCheckService;
+        private readonly IOpenSearchClient _openSearchClient;
+        private readonly OpenSearchOptions _openSearchOptions;
+
+        public AlertMetricsSource(
+            HealthCheckService healthCheckService,
+            IOpenSearchClient openSearchClient,
+            OpenSearchOptions openSearchOptions)
+        {
+            _healthCheckService = healthCheckService;
+            _openSearchClient = openSearchClient;
+            _openSearchOptions = openSearchOptions;
+        }
+
+        public async Task<IReadOnlyDictionary<string, HealthStatus>> GetComponentStatusesAsync(CancellationToken cancellationToken)
+        {
+            var report = await _healthCheckService.CheckHealthAsync(cancellationToken);
+            return report.Entries.ToDictionary(e => e.Key, e => e.Value.Status);
+        }
+
+        public async Task<IReadOnlyDictionary<string, long>> GetExceptionCountsAsync(DateTime fromUtc, string? exceptionType, CancellationToken cancellationToken)
+        {
+            if (!_openSearchOptions.Enabled)
+            {
+                return new Dictionary<string, long>();
+            }
+
+            var response = await _openSearchClient.SearchAsync<ExceptionLogEntry>(s => s
+                .Index($"{_openSearchOptions.IndexPrefix}-exceptions-*")
+                .Size(0)
+                .Query(q => q
+                    .Bool(b => b
+                        .Filter(
+                            f => f.DateRange(dr => dr.Field(e => e.TimestampUtc).GreaterThanOrEquals(fromUtc)),
+                            f => string.IsNullOrEmpty(exceptionType)
+                                ? f.MatchAll()
+                                : f.Term(t => t.Field(e => e.ExceptionType.Suffix("keyword")).Value(exceptionType))
+                        )
+                    )
+                )
+                .Aggregations(a => a
+                    .Terms("by_exception_type", t => t
+                        .Field(e => e.ExceptionType.Suffix("keyword"))
+                        .Size(MaxSubjects)
+                    )
+                ),
+                cancellationToken
+            );
+
+            if (!response.IsValid)
+            {
+                throw new InvalidOperationException(response.DebugInformation);
+            }
+
+            return response.Aggregations.Terms("by_exception_type").Buckets
+                .ToDictionary(bucket => bucket.Key, bucket => bucket.DocCount ?? 0);
+        }
+
+        public async Task<IReadOnlyDictionary<string, double>> GetP95LatencyAsync(DateTime fromUtc, string? path, CancellationToken cancellationToken)
+        {
+            if (!_openSearchOptions.Enabled)
+            {
+                return new Dictionary<string, double>();
+            }
+
+            var response = await _openSearchClient.SearchAsync<RequestLogEntry>(s => s
+                .Index($"{_openSearchOptions.IndexPrefix}-requests-*")
+                .Size(0)
+                .Query(q => q
+                    .Bool(b => b
+                        .Filter(
+                            f => f.DateRange(dr => dr.Field(e => e.TimestampUtc).GreaterThanOrEquals(fromUtc)),
+                            f => string.IsNullOrEmpty(path)
+                                ? f.MatchAll()
+                                : f.Term(t => t.Field(e => e.Path.Suffix("keyword")).Value(path))
+                        )
+                        .MustNot(m => m.Term(t => t.Field(e => e.Path.Suffix("keyword")).Value(EventStreamPath)))
+                    )
+                )
+                .Aggregations(a => a
+                    .Terms("by_path", t => t
+                        .Field(e => e.Path.Suffix("keyword"))
+                        .Size(MaxSubjects)
+                        .Aggregations(aa => aa
+                            .Percentiles("latency", p => p
+                                .Field(e => e.DurationMs)
+                                .Percents(95)
+                            )
+                        )
+                    )
+                ),
+                cancellationToken
+            );
+
+            if (!response.IsValid)
+            {
+                throw new InvalidOperationException(response.DebugInformation);
+            }
+
+            var latencies = new Dictionary<string, double>();
+            foreach (var bucket in response.Aggregations.Terms("by_path").Buckets)
+            {
+                var p95 = bucket.Percentiles("latency").Items.FirstOrDefault(i => i.Percentile == 95)?.Value;
+                if (bucket.DocCount >= MinLatencySamples && p95.HasValue)
+                {
+                    latencies[bucket.Key] = p95.Value;
+                }
+            }
+
+            return latencies;
+        }
+    }
+}
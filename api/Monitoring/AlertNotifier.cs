@@ -0,0 +1,78 @@
+using System;
+using System.Net.Http;
+using System.Net.Http.Json;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Announces a change to an alert incident
+    /// </summary>
+    public interface IAlertNotifier
+    {
+        Task NotifyAsync(AlertIncident incident, CancellationToken cancellationToken);
+    }
+
+    /// <summary>
+    /// Pushes incident changes to connected admin dashboards and posts them to
+    /// the rule's webhook. The webhook body carries a one-line <c>text</c>
+    /// summary, which chat webhooks display as is, alongside the incident.
+    /// A failing webhook is logged and never stops the alert being recorded.
+    /// </summary>
+    public class AlertNotifier : IAlertNotifier
+    {
+        private static readonly TimeSpan WebhookTimeout = TimeSpan.FromSeconds(10);
+        private static readonly JsonSerializerOptions WebhookJsonOptions = new(JsonSerializerDefaults.Web);
+
+        private readonly IAdminEventHub _eventHub;
+        private readonly IHttpClientFactory _httpClientFactory;
+        private readonly ILogger<AlertNotifier> _logger;
+
+        public AlertNotifier(IAdminEventHub eventHub, IHttpClientFactory httpClientFactory, ILogger<AlertNotifier> logger)
+        {
+            _eventHub = eventHub;
+            _httpClientFactory = httpClientFactory;
+            _logger = logger;
+        }
+
+        public async Task NotifyAsync(AlertIncident incident, CancellationToken cancellationToken)
+        {
+            var summary = AlertIncidentSummary.From(incident);
+            _eventHub.Publish(new AdminEvent(AdminEventTypes.Alert, summary));
+
+            var webhookUrl = incident.AlertRule.WebhookUrl;
+            if (string.IsNullOrEmpty(webhookUrl))
+            {
+                return;
+            }
+
+            try
+            {
+                using var timeout = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                timeout.CancelAfter(WebhookTimeout);
+
+                var payload = new
+                {
+                    text = $"[{summary.Status}] {summary.RuleName}: {summary.Message}",
+                    incident = summary
+                };
+
+                var httpClient = _httpClientFactory.CreateClient(nameof(AlertNotifier));
+                using var response = await httpClient.PostAsJsonAsync(webhookUrl, payload, WebhookJsonOptions, timeout.Token);
+                if (!response.IsSuccessStatusCode)
+                {
+                    // The URL is not logged; chat webhook URLs embed their secret
+                    _logger.LogWarning("Webhook for alert rule {RuleId} answered {StatusCode}.", incident.AlertRuleId, (int)response.StatusCode);
+                }
+            }
+            catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                _logger.LogWarning(ex, "Failed to post alert incident {IncidentId} to its webhook.", incident.Id);
+            }
+        }
+    }
+}
@@ -0,0 +1,37 @@
+using System.Threading;
+using System.Threading.Tasks;
+using StargateAPI.Logging;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// Wraps the configured log service to feed the admin dashboard: exceptions
+    /// are published to the event hub and requests are counted, whether or not
+    /// OpenSearch is enabled.
+    /// </summary>
+    public class BroadcastingLogService : ILogService
+    {
+        private readonly ILogService _inner;
+        private readonly IAdminEventHub _eventHub;
+        private readonly RequestRateCounter _requestRateCounter;
+
+        public BroadcastingLogService(ILogService inner, IAdminEventHub eventHub, RequestRateCounter requestRateCounter)
+        {
+            _inner = inner;
+            _eventHub = eventHub;
+            _requestRateCounter = requestRateCounter;
+        }
+
+        public Task LogRequestAsync(RequestLogEntry entry, CancellationToken cancellationToken)
+        {
+            _requestRateCounter.Record(entry.StatusCode, entry.DurationMs);
+            return _inner.LogRequestAsync(entry, cancellationToken);
+        }
+
+        public Task LogExceptionAsync(ExceptionLogEntry entry, CancellationToken cancellationToken)
+        {
+            _eventHub.Publish(new AdminEvent(AdminEventTypes.Exception, entry));
+            return _inner.LogExceptionAsync(entry, cancellationToken);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+using System;
+using System.Collections.Generic;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Diagnostics.HealthChecks;
+
+namespace StargateAPI.Monitoring
+{
+    /// <summary>
+    /// The measurements alert rules are evaluated against: the health report,
+    /// and the exception and request logs behind the admin dashboard
+    /// </summary>
+    public interface IAlertMetricsSource
+    {
+        /// <summary>
+        /// Status of each health check component, by name
+        /// </summary>
+        Task<IReadOnlyDictionary<string, HealthStatus>> GetComponentStatusesAsync(CancellationToken cancellationToken);
+
+        /// <summary>
+        /// Exceptions logged since <paramref name="fromUtc"/>, counted by type.
+        /// Only the given type is counted when one is passed.
+        /// </summary>
+        Task<IReadOnlyDictionary<string, long>> GetExceptionCountsAsync(DateTime fromUtc, string? exceptionType, CancellationToken cancellationToken);
+
+        /// <summary>
+        /// 95th percentile request duration in milliseconds since
+        /// <paramref name="fromUtc"/>, by path. Only the given path is measured
+        /// when one is passed.
+        /// </summary>
+        Task<IReadOnlyDictionary<string, double>> GetP95LatencyAsync(DateTime fromUtc, string? path, CancellationToken cancellationToken);
+    }
+}
@@ -0,0 +1,68 @@
+using System;
+using System.Threading;
+
+namespace StargateAPI.Monitoring
+{
+    public record RequestRateSnapshot(
+        DateTime TimestampUtc,
+        double WindowSeconds,
+        long Requests,
+        long ClientErrors,
+        long ServerErrors,
+        double RequestsPerSecond,
+        double AverageDurationMs);
+
+    /// <summary>
+    /// In-memory request counters for the live dashboard. Counts accumulate
+    /// until the next snapshot, which resets them, so each snapshot covers the
+    /// window since the previous one.
+    /// </summary>
+    public class RequestRateCounter
+    {
+        private readonly object _snapshotLock = new();
+        private long _requests;
+        private long _clientErrors;
+        private long _serverErrors;
+        private long _totalDurationMs;
+        private DateTime _windowStartUtc = DateTime.UtcNow;
+
+        public void Record(int statusCode, long durationMs)
+        {
+            Interlocked.Increment(ref _requests);
+            Interlocked.Add(ref _totalDurationMs, durationMs);
+
+            if (statusCode >= 500)
+            {
+                Interlocked.Increment(ref _serverErrors);
+            }
+            else if (statusCode >= 400)
+            {
+                Interlocked.Increment(ref _clientErrors);
+            }
+        }
+
+        public RequestRateSnapshot TakeSnapshot()
+        {
+            lock (_snapshotLock)
+            {
+                var now = DateTime.UtcNow;
+                var windowSeconds = Math.Max((now - _windowStartUtc).TotalSeconds, 0.001);
+                _windowStartUtc = now;
+
+                var requests = Interlocked.Exchange(ref _requests, 0);
+                var clientErrors = Interlocked.Exchange(ref _clientErrors, 0);
+                var serverErrors = Interlocked.Exchange(ref _serverErrors, 0);
+                var totalDurationMs = Interlocked.Exchange(ref _totalDurationMs, 0);
+
+                return new RequestRateSnapshot(
+                    now,
+                    Math.Round(windowSeconds, 1),
+                    requests,
+                    clientErrors,
+                    serverErrors,
+                    Math.Round(requests / windowSeconds, 2),
+                    requests > 0 ? Math.Round((double)totalDurationMs / requests, 1) : 0);
+            }
+        }
+    }
+}
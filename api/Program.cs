@@ -9,6 +9,8 @@ using StargateAPI.Business.Data;
 using StargateAPI.Health;
 using StargateAPI.Logging;
 using StargateAPI.Middleware;
+using StargateAPI.Monitoring;
+using StargateAPI.Security;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -20,7 +22,8 @@ builder.Services.AddCors(options =>
     {
         policy.AllowAnyOrigin()
               .AllowAnyMethod()
-              .AllowAnyHeader();
+              .AllowAnyHeader()
+              .WithExposedHeaders(CorrelationIdMiddleware.HeaderName);
     });
 });
 
@@ -28,8 +31,13 @@ builder.Services.AddControllers();
 // Learn more about configuring Swagger/OpenAPI at https://aka.ms/aspnetcore/swashbuckle
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
-builder.Services.AddDbContext<StargateContext>(options => 
-    options.UseNpgsql(builder.Configuration.GetConnectionString("StarbaseApiDatabase")));
+
+// Person and duty changes are audited with the acting user from the request
+builder.Services.AddHttpContextAccessor();
+builder.Services.AddScoped<PersonnelAuditInterceptor>();
+builder.Services.AddDbContext<StargateContext>((serviceProvider, options) => 
+    options.UseNpgsql(builder.Configuration.GetConnectionString("StarbaseApiDatabase"))
+        .AddInterceptors(serviceProvider.GetRequiredService<PersonnelAuditInterceptor>()));
 
 // Configure Identity
 builder.Services.AddIdentity<ApplicationUser, IdentityRole>(options =>
@@ -72,6 +80,15 @@ builder.Services.AddAuthentication(options =>
 
 builder.Services.AddAuthorization();
 
+builder.Services.AddScoped<IRefreshTokenService, RefreshTokenService>();
+builder.Services.AddScoped<ISignInHistoryService, SignInHistoryService>();
+
+// Optional single sign-on; local accounts keep working when this is disabled
+var oidcOptions = builder.Configuration.GetSection("Oidc").Get<OidcOptions>() ?? new OidcOptions();
+builder.Services.AddSingleton(oidcOptions);
+builder.Services.AddHttpClient();
+builder.Services.AddSingleton<IOidcClient, OidcClient>();
+
 var openSearchOptions = builder.Configuration.GetSection("OpenSearch").Get<OpenSearchOptions>() ?? new OpenSearchOptions();
 builder.Services.AddSingleton(openSearchOptions);
 
@@ -87,17 +104,30 @@ builder.Services.AddSingleton<IOpenSearchClient>(_ =>
     return new OpenSearchClient(settings);
 });
 
+// Live admin dashboard feed: exceptions and request counts pass through the log service
+builder.Services.AddSingleton<IAdminEventHub, AdminEventHub>();
+builder.Services.AddSingleton<RequestRateCounter>();
+builder.Services.AddHostedService<AdminEventPublisher>();
+
+// Alert rules are evaluated in the background and announced on the admin feed and webhooks
+builder.Services.AddSingleton<IAlertMetricsSource, AlertMetricsSource>();
+builder.Services.AddSingleton<IAlertNotifier, AlertNotifier>();
+builder.Services.AddSingleton<AlertEvaluator>();
+builder.Services.AddHostedService<AlertEvaluationService>();
+
 builder.Services.AddSingleton<ILogService>(sp =>
 {
-    if (!openSearchOptions.Enabled)
-    {
-        return new NoOpLogService();
-    }
-
-    var client = sp.GetRequiredService<IOpenSearchClient>();
-    return new OpenSearchLogService(client, openSearchOptions);
+    ILogService inner = openSearchOptions.Enabled
+        ? new OpenSearchLogService(sp.GetRequiredService<IOpenSearchClient>(), openSearchOptions)
+        : new NoOpLogService();
+
+    return new BroadcastingLogService(
+        inner,
+        sp.GetRequiredService<IAdminEventHub>(),
+        sp.GetRequiredService<RequestRateCounter>());
 });
 
+builder.Services.AddTransient<CorrelationIdMiddleware>();
 builder.Services.AddTransient<RequestLoggingMiddleware>();
 
 builder.Services.AddMediatR(cfg =>
@@ -125,6 +155,7 @@ builder.Services.AddSingleton<OpenSearchHealthCheck>(sp =>
 var app = builder.Build();
 
 // Configure the HTTP request pipeline.
+app.UseMiddleware<CorrelationIdMiddleware>();
 app.UseMiddleware<RequestLoggingMiddleware>();
 
 app.UseCors("AllowAll");
@@ -0,0 +1,40 @@
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Talks to the configured OpenID Connect identity provider
+/// </summary>
+public interface IOidcClient
+{
+    /// <summary>
+    /// The provider's authorization endpoint, read from its discovery document
+    /// </summary>
+    Task<string> GetAuthorizationEndpointAsync(CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Redeem an authorization code with its PKCE verifier and return the
+    /// identity from the validated ID token. Throws <see cref="OidcException"/>
+    /// when the provider rejects the code or the token is not valid.
+    /// </summary>
+    Task<OidcIdentity> ExchangeCodeAsync(string code, string codeVerifier, string redirectUri, string nonce, CancellationToken cancellationToken);
+}
+
+/// <summary>
+/// The signed-in user as described by the identity provider
+/// </summary>
+public record OidcIdentity
+{
+    public required string Subject { get; init; }
+    public string? Email { get; init; }
+    public bool EmailVerified { get; init; }
+    public string? GivenName { get; init; }
+    public string? FamilyName { get; init; }
+    public string[] Groups { get; init; } = Array.Empty<string>();
+}
+
+public class OidcException : Exception
+{
+    public OidcException(string message, Exception? innerException = null)
+        : base(message, innerException)
+    {
+    }
+}
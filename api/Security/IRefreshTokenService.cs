@@ -0,0 +1,26 @@
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Issues, rotates and revokes refresh tokens for signed-in users
+/// </summary>
+public interface IRefreshTokenService
+{
+    Task<string> IssueAsync(ApplicationUser user, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Exchange a refresh token for a new one. Returns null when the token is
+    /// unknown, expired or already used.
+    /// </summary>
+    Task<RefreshTokenRotation?> RotateAsync(string refreshToken, CancellationToken cancellationToken);
+
+    Task RevokeAsync(string refreshToken, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// End every session for a user, e.g. after a lock or password reset
+    /// </summary>
+    Task RevokeAllAsync(string userId, CancellationToken cancellationToken);
+}
+
+public record RefreshTokenRotation(string UserId, string RefreshToken);
@@ -0,0 +1,16 @@
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Records sign-in attempts and returns a user's recent history
+/// </summary>
+public interface ISignInHistoryService
+{
+    Task RecordAsync(ApplicationUser user, bool succeeded, string? ipAddress, string? userAgent, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Most recent attempts first
+    /// </summary>
+    Task<List<UserSignIn>> GetRecentAsync(string userId, int take, CancellationToken cancellationToken);
+}
@@ -0,0 +1,118 @@
+using Microsoft.IdentityModel.Protocols;
+using Microsoft.IdentityModel.Protocols.OpenIdConnect;
+using Microsoft.IdentityModel.Tokens;
+using System.IdentityModel.Tokens.Jwt;
+using System.Security.Claims;
+using System.Text.Json.Serialization;
+
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Authorization-code client for the configured identity provider. The
+/// discovery document and signing keys are cached and refreshed by the
+/// configuration manager, so this is registered as a singleton.
+/// </summary>
+public class OidcClient : IOidcClient
+{
+    private readonly IHttpClientFactory _httpClientFactory;
+    private readonly OidcOptions _options;
+    private readonly ConfigurationManager<OpenIdConnectConfiguration> _configurationManager;
+
+    public OidcClient(IHttpClientFactory httpClientFactory, OidcOptions options)
+    {
+        _httpClientFactory = httpClientFactory;
+        _options = options;
+
+        var metadataAddress = $"{options.Authority.TrimEnd('/')}/.well-known/openid-configuration";
+        _configurationManager = new ConfigurationManager<OpenIdConnectConfiguration>(
+            metadataAddress,
+            new OpenIdConnectConfigurationRetriever(),
+            new HttpDocumentRetriever(httpClientFactory.CreateClient(nameof(OidcClient)))
+            {
+                RequireHttps = options.RequireHttpsMetadata
+            });
+    }
+
+    public async Task<string> GetAuthorizationEndpointAsync(CancellationToken cancellationToken)
+    {
+        var configuration = await _configurationManager.GetConfigurationAsync(cancellationToken);
+        return configuration.AuthorizationEndpoint;
+    }
+
+    public async Task<OidcIdentity> ExchangeCodeAsync(string code, string codeVerifier, string redirectUri, string nonce, CancellationToken cancellationToken)
+    {
+        var configuration = await _configurationManager.GetConfigurationAsync(cancellationToken);
+
+        var form = new Dictionary<string, string>
+        {
+            ["grant_type"] = "authorization_code",
+            ["code"] = code,
+            ["code_verifier"] = codeVerifier,
+            ["redirect_uri"] = redirectUri,
+            ["client_id"] = _options.ClientId
+        };
+
+        if (!string.IsNullOrEmpty(_options.ClientSecret))
+        {
+            form["client_secret"] = _options.ClientSecret;
+        }
+
+        var httpClient = _httpClientFactory.CreateClient(nameof(OidcClient));
+        using var response = await httpClient.PostAsync(configuration.TokenEndpoint, new FormUrlEncodedContent(form), cancellationToken);
+        if (!response.IsSuccessStatusCode)
+        {
+            throw new OidcException($"The identity provider rejected the sign-in ({(int)response.StatusCode}).");
+        }
+
+        var tokens = await response.Content.ReadFromJsonAsync<TokenEndpointResponse>(cancellationToken);
+        if (string.IsNullOrEmpty(tokens?.IdToken))
+        {
+            throw new OidcException("The identity provider did not return an ID token.");
+        }
+
+        var parameters = new TokenValidationParameters
+        {
+            ValidIssuer = configuration.Issuer,
+            ValidAudience = _options.ClientId,
+            IssuerSigningKeys = configuration.SigningKeys,
+            ValidateLifetime = true
+        };
+
+        // Keep the provider's claim names (sub, email, groups) as issued
+        var handler = new JwtSecurityTokenHandler { MapInboundClaims = false };
+
+        ClaimsPrincipal principal;
+        try
+        {
+            principal = handler.ValidateToken(tokens.IdToken, parameters, out _);
+        }
+        catch (SecurityTokenException ex)
+        {
+            throw new OidcException("The identity token could not be validated.", ex);
+        }
+
+        if (principal.FindFirst(JwtRegisteredClaimNames.Nonce)?.Value != nonce)
+        {
+            throw new OidcException("The identity token was not issued for this sign-in.");
+        }
+
+        var subject = principal.FindFirst(JwtRegisteredClaimNames.Sub)?.Value
+            ?? throw new OidcException("The identity token has no subject.");
+
+        return new OidcIdentity
+        {
+            Subject = subject,
+            Email = principal.FindFirst(JwtRegisteredClaimNames.Email)?.Value,
+            EmailVerified = bool.TryParse(principal.FindFirst("email_verified")?.Value, out var verified) && verified,
+            GivenName = principal.FindFirst(JwtRegisteredClaimNames.GivenName)?.Value,
+            FamilyName = principal.FindFirst(JwtRegisteredClaimNames.FamilyName)?.Value,
+            Groups = principal.FindAll(_options.GroupsClaim).Select(c => c.Value).ToArray()
+        };
+    }
+
+    private record TokenEndpointResponse
+    {
+        [JsonPropertyName("id_token")]
+        public string? IdToken { get; init; }
+    }
+}
@@ -0,0 +1,78 @@
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Settings for signing in through an external OpenID Connect identity
+/// provider. Local accounts keep working whether or not this is enabled.
+/// </summary>
+public class OidcOptions
+{
+    public bool Enabled { get; set; }
+
+    /// <summary>
+    /// Issuer URL; discovery is read from {Authority}/.well-known/openid-configuration
+    /// </summary>
+    public string Authority { get; set; } = string.Empty;
+
+    public string ClientId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Only needed when the provider treats the app as a confidential client
+    /// </summary>
+    public string? ClientSecret { get; set; }
+
+    public string Scope { get; set; } = "openid profile email";
+
+    /// <summary>
+    /// Label for the sign-in button, e.g. the organisation's SSO name
+    /// </summary>
+    public string DisplayName { get; set; } = "Single Sign-On";
+
+    /// <summary>
+    /// ID token claim holding the user's group memberships
+    /// </summary>
+    public string GroupsClaim { get; set; } = "groups";
+
+    /// <summary>
+    /// Identity provider group to app role, e.g. "stargate-admins": "Admin"
+    /// </summary>
+    public Dictionary<string, string> RoleMappings { get; set; } = new(StringComparer.OrdinalIgnoreCase);
+
+    /// <summary>
+    /// Role given when none of the user's groups are mapped
+    /// </summary>
+    public string DefaultRole { get; set; } = Roles.Viewer;
+
+    /// <summary>
+    /// Re-sync the roles of accounts created through single sign-on from their
+    /// groups on every sign-in. Local accounts that were later linked keep the
+    /// roles granted in the admin console either way.
+    /// </summary>
+    public bool SyncRoles { get; set; } = true;
+
+    public bool RequireHttpsMetadata { get; set; } = true;
+
+    /// <summary>
+    /// App roles for a set of provider groups. Unknown groups and mappings to
+    /// roles the app does not define are ignored.
+    /// </summary>
+    public string[] MapRoles(IEnumerable<string> groups)
+    {
+        var roles = groups
+            .Select(group => RoleMappings.TryGetValue(group, out var role) ? role : null)
+            .Select(role => Roles.All.FirstOrDefault(r => string.Equals(r, role, StringComparison.OrdinalIgnoreCase)))
+            .OfType<string>()
+            .Distinct()
+            .OrderBy(r => r)
+            .ToArray();
+
+        return roles.Length > 0 ? roles : new[] { DefaultRole };
+    }
+
+    /// <summary>
+    /// Whether some provider group is mapped to the role
+    /// </summary>
+    public bool MapsRole(string role)
+    {
+        return RoleMappings.Values.Any(r => string.Equals(r, role, StringComparison.OrdinalIgnoreCase));
+    }
+}
@@ -0,0 +1,103 @@
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace StargateAPI.Security;
+
+public class RefreshTokenService : IRefreshTokenService
+{
+    private readonly StargateContext _context;
+    private readonly IConfiguration _configuration;
+
+    public RefreshTokenService(StargateContext context, IConfiguration configuration)
+    {
+        _context = context;
+        _configuration = configuration;
+    }
+
+    public async Task<string> IssueAsync(ApplicationUser user, CancellationToken cancellationToken)
+    {
+        var (token, entity) = CreateToken(user.Id);
+        await _context.RefreshTokens.AddAsync(entity, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+        return token;
+    }
+
+    public async Task<RefreshTokenRotation?> RotateAsync(string refreshToken, CancellationToken cancellationToken)
+    {
+        var hash = Hash(refreshToken);
+        var existing = await _context.RefreshTokens
+            .FirstOrDefaultAsync(t => t.TokenHash == hash, cancellationToken);
+
+        if (existing is null)
+        {
+            return null;
+        }
+
+        if (existing.RevokedAt is not null)
+        {
+            // A rotated token being presented again means it may have been
+            // stolen, so end every session for that user
+            await RevokeAllAsync(existing.UserId, cancellationToken);
+            return null;
+        }
+
+        if (existing.ExpiresAt <= DateTime.UtcNow)
+        {
+            return null;
+        }
+
+        var (newToken, entity) = CreateToken(existing.UserId);
+        existing.RevokedAt = DateTime.UtcNow;
+        existing.ReplacedByTokenHash = entity.TokenHash;
+        await _context.RefreshTokens.AddAsync(entity, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new RefreshTokenRotation(existing.UserId, newToken);
+    }
+
+    public async Task RevokeAsync(string refreshToken, CancellationToken cancellationToken)
+    {
+        var hash = Hash(refreshToken);
+        var existing = await _context.RefreshTokens
+            .FirstOrDefaultAsync(t => t.TokenHash == hash && t.RevokedAt == null, cancellationToken);
+
+        if (existing is not null)
+        {
+            existing.RevokedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+    }
+
+    public async Task RevokeAllAsync(string userId, CancellationToken cancellationToken)
+    {
+        var active = await _context.RefreshTokens
+            .Where(t => t.UserId == userId && t.RevokedAt == null)
+            .ToListAsync(cancellationToken);
+        foreach (var token in active)
+        {
+            token.RevokedAt = DateTime.UtcNow;
+        }
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private (string Token, RefreshToken Entity) CreateToken(string userId)
+    {
+        var lifetimeDays = int.Parse(_configuration.GetSection("Jwt")["RefreshTokenDays"] ?? "7");
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(64));
+
+        return (token, new RefreshToken
+        {
+            UserId = userId,
+            TokenHash = Hash(token),
+            CreatedAt = DateTime.UtcNow,
+            ExpiresAt = DateTime.UtcNow.AddDays(lifetimeDays)
+        });
+    }
+
+    private static string Hash(string token)
+    {
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+    }
+}
@@ -0,0 +1,23 @@
+namespace StargateAPI.Security;
+
+/// <summary>
+/// Application role names. Viewers have read-only access, Editors may create
+/// and change people and duties, and Admins may do everything.
+/// </summary>
+public static class Roles
+{
+    public const string Admin = "Admin";
+    public const string Editor = "Editor";
+    public const string Viewer = "Viewer";
+
+    /// <summary>
+    /// Roles allowed to change personnel and duty records, for use in
+    /// <c>[Authorize(Roles = ...)]</c>
+    /// </summary>
+    public const string Writers = Editor + "," + Admin;
+
+    /// <summary>
+    /// Every role an administrator may grant
+    /// </summary>
+    public static readonly string[] All = { Viewer, Editor, Admin };
+}
@@ -0,0 +1,45 @@
+using Microsoft.EntityFrameworkCore;
+using StargateAPI.Business.Data;
+
+namespace StargateAPI.Security;
+
+public class SignInHistoryService : ISignInHistoryService
+{
+    private const int MaxUserAgentLength = 512;
+
+    private readonly StargateContext _context;
+
+    public SignInHistoryService(StargateContext context)
+    {
+        _context = context;
+    }
+
+    public async Task RecordAsync(ApplicationUser user, bool succeeded, string? ipAddress, string? userAgent, CancellationToken cancellationToken)
+    {
+        if (userAgent is { Length: > MaxUserAgentLength })
+        {
+            userAgent = userAgent[..MaxUserAgentLength];
+        }
+
+        await _context.UserSignIns.AddAsync(new UserSignIn
+        {
+            UserId = user.Id,
+            SignedInAt = DateTime.UtcNow,
+            Succeeded = succeeded,
+            IpAddress = ipAddress,
+            UserAgent = userAgent
+        }, cancellationToken);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public Task<List<UserSignIn>> GetRecentAsync(string userId, int take, CancellationToken cancellationToken)
+    {
+        return _context.UserSignIns
+            .AsNoTracking()
+            .Where(s => s.UserId == userId)
+            .OrderByDescending(s => s.SignedInAt)
+            .ThenByDescending(s => s.Id)
+            .Take(take)
+            .ToListAsync(cancellationToken);
+    }
+}
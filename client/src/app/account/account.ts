@@ -0,0 +1,145 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { SignInHistoryEntry } from '../models/auth.model';
+import { ApiError } from '../models/api-error.model';
+
+@Component({
+  selector: 'app-account',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './account.html',
+  styleUrl: './account.scss'
+})
+export class Account implements OnInit {
+  protected readonly authService = inject(AuthService);
+
+  // Profile
+  protected readonly firstName = signal(this.authService.user()?.firstName ?? '');
+  protected readonly lastName = signal(this.authService.user()?.lastName ?? '');
+  protected readonly profileSaving = signal(false);
+  protected readonly profileError = signal<string | null>(null);
+  protected readonly profileSaved = signal(false);
+
+  // Password
+  protected readonly currentPassword = signal('');
+  protected readonly newPassword = signal('');
+  protected readonly confirmPassword = signal('');
+  protected readonly passwordSaving = signal(false);
+  protected readonly passwordError = signal<string | null>(null);
+  protected readonly passwordChanged = signal(false);
+
+  // Sign-in history
+  protected readonly history = signal<SignInHistoryEntry[]>([]);
+  protected readonly historyLoading = signal(false);
+  protected readonly historyError = signal<string | null>(null);
+
+  ngOnInit(): void {
+    this.loadHistory();
+  }
+
+  protected loadHistory(): void {
+    this.historyLoading.set(true);
+    this.historyError.set(null);
+
+    this.authService.getSignInHistory().subscribe({
+      next: entries => {
+        this.history.set(entries);
+        this.historyLoading.set(false);
+      },
+      error: (err: ApiError) => {
+        this.historyError.set(err.message || 'Could not load sign-in history.');
+        this.historyLoading.set(false);
+      }
+    });
+  }
+
+  protected onProfileSubmit(event: Event): void {
+    event.preventDefault();
+
+    this.profileSaving.set(true);
+    this.profileError.set(null);
+    this.profileSaved.set(false);
+
+    this.authService.updateProfile({
+      firstName: this.firstName().trim() || undefined,
+      lastName: this.lastName().trim() || undefined
+    }).subscribe({
+      next: userInfo => {
+        this.firstName.set(userInfo.firstName ?? '');
+        this.lastName.set(userInfo.lastName ?? '');
+        this.profileSaving.set(false);
+        this.profileSaved.set(true);
+      },
+      error: (err: ApiError) => {
+        this.profileSaving.set(false);
+        this.profileError.set(err.message || 'Could not save your profile. Please try again.');
+      }
+    });
+  }
+
+  protected onPasswordSubmit(event: Event): void {
+    event.preventDefault();
+    this.passwordChanged.set(false);
+
+    if (!this.currentPassword() || !this.newPassword() || !this.confirmPassword()) {
+      this.passwordError.set('Please fill in all password fields');
+      return;
+    }
+
+    // Same rules as registration
+    const passwordError = this.authService.validateNewPassword(this.newPassword(), this.confirmPassword());
+    if (passwordError) {
+      this.passwordError.set(passwordError);
+      return;
+    }
+
+    if (this.newPassword() === this.currentPassword()) {
+      this.passwordError.set('New password must be different from the current one');
+      return;
+    }
+
+    this.passwordSaving.set(true);
+    this.passwordError.set(null);
+
+    this.authService.changePassword({
+      currentPassword: this.currentPassword(),
+      newPassword: this.newPassword()
+    }).subscribe({
+      next: () => {
+        this.passwordSaving.set(false);
+        this.passwordChanged.set(true);
+        this.currentPassword.set('');
+        this.newPassword.set('');
+        this.confirmPassword.set('');
+      },
+      error: (err: ApiError) => {
+        this.passwordSaving.set(false);
+        this.passwordError.set(err.message || 'Could not change your password. Please try again.');
+      }
+    });
+  }
+
+  /**
+   * Summarise a user agent string as browser and platform where recognisable
+   */
+  protected describeDevice(userAgent?: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+      : /Firefox\//.test(userAgent) ? 'Firefox'
+      : /Chrome\//.test(userAgent) ? 'Chrome'
+      : /Safari\//.test(userAgent) ? 'Safari'
+      : null;
+    const platform = /Windows/.test(userAgent) ? 'Windows'
+      : /Android/.test(userAgent) ? 'Android'
+      : /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Mac OS X/.test(userAgent) ? 'macOS'
+      : /Linux/.test(userAgent) ? 'Linux'
+      : null;
+
+    return browser && platform ? `${browser} on ${platform}` : browser ?? platform ?? userAgent;
+  }
+}
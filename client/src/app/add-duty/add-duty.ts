@@ -5,10 +5,13 @@ import { Router, RouterLink, ActivatedRoute } from '@angular/router';
 import { AstronautDutyService } from '../services/astronaut-duty.service';
 import { PersonService } from '../services/person.service';
 import { CreateAstronautDutyRequest, ApiResponse, AstronautDuty, Person } from '../models/person.model';
+import { DUTY_RANKS, DUTY_TITLES } from '../models/duty-options';
+import { ApiError } from '../models/api-error.model';
+import { ErrorReference } from '../error-reference/error-reference';
 
 @Component({
   selector: 'app-add-duty',
-  imports: [CommonModule, FormsModule, RouterLink],
+  imports: [CommonModule, FormsModule, RouterLink, ErrorReference],
   templateUrl: './add-duty.html',
   styleUrl: './add-duty.scss'
 })
@@ -24,6 +27,7 @@ export class AddDuty implements OnInit {
   protected readonly dutyStartDate = signal<string>('');
   protected readonly submitting = signal<boolean>(false);
   protected readonly error = signal<string | null>(null);
+  protected readonly serverError = signal<ApiError | null>(null);
   protected readonly success = signal<boolean>(false);
   protected readonly existingDuties = signal<AstronautDuty[]>([]);
   protected readonly allPeople = signal<Person[]>([]);
@@ -33,31 +37,8 @@ export class AddDuty implements OnInit {
   protected readonly highlightedIndex = signal<number>(-1);
 
   // Predefined ranks and titles
-  protected readonly ranks = [
-    'O-1 Second Lieutenant',
-    'O-2 First Lieutenant',
-    'O-3 Captain',
-    'O-4 Major',
-    'O-5 Lieutenant Colonel',
-    'O-6 Colonel',
-    'O-7 Brigadier General',
-    'O-8 Major General',
-    'O-9 Lieutenant General',
-    'O-10 General'
-  ];
-
-  protected readonly duties = [
-    'Mission Specialist',
-    'Pilot',
-    'Commander',
-    'Flight Engineer',
-    'Science Officer',
-    'Medical Officer',
-    'Communications Officer',
-    'Navigation Officer',
-    'Security Officer',
-    'RETIRED'
-  ];
+  protected readonly ranks = DUTY_RANKS;
+  protected readonly duties = DUTY_TITLES;
 
   ngOnInit(): void {
     // Load all people for the dropdown
@@ -207,36 +188,16 @@ export class AddDuty implements OnInit {
       return;
     }
 
-    // Check date is not in future
-    const selectedDate = new Date(dateValue);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    if (selectedDate > today) {
-      this.error.set('Start date cannot be in the future');
-      return;
-    }
-
-    // Validate against existing duties to prevent 0 or negative duration
     const currentDuty = this.existingDuties().find(d => !d.dutyEndDate);
-    if (currentDuty) {
-      const currentDutyStartDate = new Date(currentDuty.dutyStartDate);
-      currentDutyStartDate.setHours(0, 0, 0, 0);
-      selectedDate.setHours(0, 0, 0, 0);
-      
-      // New duty must start at least 1 day after current duty to ensure positive duration
-      if (selectedDate <= currentDutyStartDate) {
-        const formattedDate = currentDutyStartDate.toLocaleDateString();
-        this.error.set(
-          `New duty start date must be after the current duty start date (${formattedDate}). ` +
-          `This ensures the current duty has a duration of at least 1 day.`
-        );
-        return;
-      }
+    const dateError = this.dutyService.validateDutyStartDate(dateValue, currentDuty?.dutyStartDate);
+    if (dateError) {
+      this.error.set(dateError);
+      return;
     }
 
     this.submitting.set(true);
     this.error.set(null);
+    this.serverError.set(null);
 
     const request: CreateAstronautDutyRequest = {
       name: nameValue,
@@ -255,7 +216,8 @@ export class AddDuty implements OnInit {
           this.router.navigate(['/personnel', nameValue]);
         }, 1500);
       },
-      error: (err: Error) => {
+      error: (err: ApiError) => {
+        this.serverError.set(err);
         this.error.set(err.message || 'Failed to create astronaut duty');
         this.submitting.set(false);
       }
@@ -266,6 +228,14 @@ export class AddDuty implements OnInit {
     if (this.error()) {
       this.error.set(null);
     }
+    this.serverError.set(null);
+  }
+
+  /**
+   * The server's message for a field it rejected on the last submit
+   */
+  protected fieldError(field: keyof CreateAstronautDutyRequest): string | null {
+    return this.serverError()?.fieldError(field) ?? null;
   }
 
   protected getTodayDate(): string {
@@ -4,10 +4,12 @@ import { FormsModule } from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
 import { PersonService } from '../services/person.service';
 import { Person, ApiResponse } from '../models/person.model';
+import { ApiError } from '../models/api-error.model';
+import { ErrorReference } from '../error-reference/error-reference';
 
 @Component({
   selector: 'app-add-person',
-  imports: [CommonModule, FormsModule, RouterLink],
+  imports: [CommonModule, FormsModule, RouterLink, ErrorReference],
   templateUrl: './add-person.html',
   styleUrl: './add-person.scss'
 })
@@ -18,6 +20,7 @@ export class AddPerson {
   protected readonly name = signal<string>('');
   protected readonly submitting = signal<boolean>(false);
   protected readonly error = signal<string | null>(null);
+  protected readonly serverError = signal<ApiError | null>(null);
   protected readonly success = signal<boolean>(false);
 
   protected onSubmit(event: Event): void {
@@ -36,6 +39,7 @@ export class AddPerson {
 
     this.submitting.set(true);
     this.error.set(null);
+    this.serverError.set(null);
 
     this.personService.createPerson(nameValue).subscribe({
       next: (response: ApiResponse<Person>) => {
@@ -47,7 +51,8 @@ export class AddPerson {
           this.router.navigate(['/personnel', nameValue]);
         }, 1500);
       },
-      error: (err: Error) => {
+      error: (err: ApiError) => {
+        this.serverError.set(err);
         this.error.set(err.message || 'Failed to create person');
         this.submitting.set(false);
       }
@@ -59,5 +64,6 @@ export class AddPerson {
     if (this.error()) {
       this.error.set(null);
     }
+    this.serverError.set(null);
   }
 }
@@ -0,0 +1,227 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { AlertService } from '../services/alert.service';
+import { ErrorReference } from '../error-reference/error-reference';
+import { ApiError } from '../models/api-error.model';
+import { AlertIncident, AlertRule, AlertRuleKind, AlertRuleRequest } from '../models/alert.model';
+
+/**
+ * Values as typed into the rule form; numbers stay strings until saved
+ */
+interface RuleForm {
+  name: string;
+  kind: AlertRuleKind;
+  target: string;
+  threshold: string;
+  windowMinutes: string;
+  webhookUrl: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  kind: 'ComponentUnhealthy',
+  target: '',
+  threshold: '',
+  windowMinutes: '2',
+  webhookUrl: '',
+  enabled: true
+};
+
+export const RULE_KINDS: { kind: AlertRuleKind; label: string; target: string; threshold: string | null; window: string }[] = [
+  { kind: 'ComponentUnhealthy', label: 'Component unhealthy', target: 'Component', threshold: null, window: 'Unhealthy for (minutes)' },
+  { kind: 'ExceptionCount', label: 'Exception count', target: 'Exception type', threshold: 'More than (exceptions)', window: 'Within (minutes)' },
+  { kind: 'LatencyP95', label: 'p95 latency', target: 'Endpoint path', threshold: 'Over (ms)', window: 'Measured over (minutes)' }
+];
+
+/**
+ * Plain-language summary of a rule's condition
+ */
+export function describeRule(rule: Pick<AlertRule, 'kind' | 'target' | 'threshold' | 'windowMinutes'>): string {
+  switch (rule.kind) {
+    case 'ComponentUnhealthy':
+      return `${rule.target ?? 'Any component'} Unhealthy for ${rule.windowMinutes} min`;
+    case 'ExceptionCount':
+      return `${rule.target ?? 'Any exception type'} more than ${rule.threshold} times in ${rule.windowMinutes} min`;
+    case 'LatencyP95':
+      return `p95 latency on ${rule.target ?? 'any endpoint'} over ${rule.threshold} ms, measured over ${rule.windowMinutes} min`;
+  }
+}
+
+/**
+ * Alerts section of the admin dashboard: incidents with their acknowledge
+ * and resolve states, and the rules that raise them
+ */
+@Component({
+  selector: 'app-admin-alerts',
+  imports: [ErrorReference],
+  templateUrl: './admin-alerts.html',
+  styleUrl: './admin-alerts.scss'
+})
+export class AdminAlerts {
+  protected readonly alertService = inject(AlertService);
+
+  protected readonly ruleKinds = RULE_KINDS;
+  protected readonly describeRule = describeRule;
+
+  protected readonly showResolved = signal(false);
+  protected readonly busyIncident = signal<number | null>(null);
+  protected readonly incidentError = signal<ApiError | null>(null);
+
+  protected readonly rules = signal<AlertRule[]>([]);
+  protected readonly loadingRules = signal(true);
+  protected readonly rulesError = signal<ApiError | null>(null);
+
+  // null while the form is closed, 'new' for a new rule, else the rule's id
+  protected readonly editing = signal<number | 'new' | null>(null);
+  protected readonly form = signal<RuleForm>({ ...EMPTY_FORM });
+  protected readonly saving = signal(false);
+  protected readonly formError = signal<ApiError | null>(null);
+
+  protected readonly formKind = computed(() => RULE_KINDS.find(k => k.kind === this.form().kind)!);
+
+  protected readonly shownIncidents = computed(() => {
+    const incidents = this.alertService.incidents();
+    return this.showResolved()
+      ? incidents.filter(incident => incident.status === 'Resolved')
+      : incidents.filter(incident => incident.status !== 'Resolved');
+  });
+
+  constructor() {
+    this.loadRules();
+  }
+
+  protected acknowledge(incident: AlertIncident): void {
+    this.runIncidentAction(incident, this.alertService.acknowledge(incident.id));
+  }
+
+  protected resolve(incident: AlertIncident): void {
+    this.runIncidentAction(incident, this.alertService.resolve(incident.id));
+  }
+
+  protected newRule(): void {
+    this.form.set({ ...EMPTY_FORM });
+    this.formError.set(null);
+    this.editing.set('new');
+  }
+
+  protected editRule(rule: AlertRule): void {
+    this.form.set({
+      name: rule.name,
+      kind: rule.kind,
+      target: rule.target ?? '',
+      threshold: rule.kind === 'ComponentUnhealthy' ? '' : String(rule.threshold),
+      windowMinutes: String(rule.windowMinutes),
+      webhookUrl: rule.webhookUrl ?? '',
+      enabled: rule.enabled
+    });
+    this.formError.set(null);
+    this.editing.set(rule.id);
+  }
+
+  protected cancelEdit(): void {
+    this.editing.set(null);
+  }
+
+  protected updateField<K extends keyof RuleForm>(field: K, value: RuleForm[K]): void {
+    this.form.update(form => ({ ...form, [field]: value }));
+  }
+
+  protected saveRule(event: Event): void {
+    event.preventDefault();
+    const editing = this.editing();
+    if (editing === null) {
+      return;
+    }
+
+    const form = this.form();
+    const request: AlertRuleRequest = {
+      name: form.name.trim(),
+      kind: form.kind,
+      target: form.target.trim() || null,
+      threshold: form.kind === 'ComponentUnhealthy' ? 0 : Number(form.threshold),
+      windowMinutes: Number(form.windowMinutes),
+      webhookUrl: form.webhookUrl.trim() || null,
+      enabled: form.enabled
+    };
+
+    this.saving.set(true);
+    this.formError.set(null);
+    const save = editing === 'new'
+      ? this.alertService.createRule(request)
+      : this.alertService.updateRule(editing, request);
+
+    save.subscribe({
+      next: saved => {
+        this.rules.update(rules =>
+          [...rules.filter(rule => rule.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+        this.saving.set(false);
+        this.editing.set(null);
+      },
+      error: (err: ApiError) => {
+        this.formError.set(err);
+        this.saving.set(false);
+      }
+    });
+  }
+
+  protected toggleEnabled(rule: AlertRule): void {
+    const { name, kind, target, threshold, windowMinutes, webhookUrl } = rule;
+    this.alertService.updateRule(rule.id, { name, kind, target, threshold, windowMinutes, webhookUrl, enabled: !rule.enabled }).subscribe({
+      next: saved => this.rules.update(rules => rules.map(existing => existing.id === saved.id ? saved : existing)),
+      error: (err: ApiError) => this.rulesError.set(err)
+    });
+  }
+
+  protected deleteRule(rule: AlertRule): void {
+    if (!confirm(`Delete the alert rule "${rule.name}" and its incidents?`)) {
+      return;
+    }
+
+    this.alertService.deleteRule(rule.id).subscribe({
+      next: () => {
+        this.rules.update(rules => rules.filter(existing => existing.id !== rule.id));
+        if (this.editing() === rule.id) {
+          this.editing.set(null);
+        }
+      },
+      error: (err: ApiError) => this.rulesError.set(err)
+    });
+  }
+
+  protected formatTimestamp(timestamp: string): string {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  private loadRules(): void {
+    this.loadingRules.set(true);
+    this.alertService.getRules().subscribe({
+      next: rules => {
+        this.rules.set(rules);
+        this.loadingRules.set(false);
+      },
+      error: (err: ApiError) => {
+        this.rulesError.set(err);
+        this.loadingRules.set(false);
+      }
+    });
+  }
+
+  private runIncidentAction(incident: AlertIncident, action: ReturnType<AlertService['resolve']>): void {
+    this.busyIncident.set(incident.id);
+    this.incidentError.set(null);
+    action.subscribe({
+      next: () => this.busyIncident.set(null),
+      error: (err: ApiError) => {
+        this.busyIncident.set(null);
+        this.incidentError.set(err);
+        this.alertService.refreshIncidents();
+      }
+    });
+  }
+}
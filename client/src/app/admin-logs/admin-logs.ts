@@ -0,0 +1,262 @@
+import { Component, DestroyRef, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, ParamMap, Params, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, Subscription } from 'rxjs';
+import { HealthService } from '../services/health.service';
+import { ApiError } from '../models/api-error.model';
+import {
+  ExceptionLogEntry,
+  ExceptionsListResponse,
+  LogFilters,
+  RequestLogEntry,
+  RequestsListResponse
+} from '../models/health.model';
+
+export type LogView = 'requests' | 'exceptions';
+
+/**
+ * Values as typed into the filter form. Times are `datetime-local` strings in
+ * the browser's zone; numbers stay strings until the search is sent.
+ */
+interface LogFilterForm {
+  hours: string;
+  from: string;
+  to: string;
+  method: string;
+  path: string;
+  statusFrom: string;
+  statusTo: string;
+  minDurationMs: string;
+  exceptionType: string;
+  userAgent: string;
+  remoteIp: string;
+  requestId: string;
+  search: string;
+}
+
+const EMPTY_FORM: LogFilterForm = {
+  hours: '24',
+  from: '',
+  to: '',
+  method: '',
+  path: '',
+  statusFrom: '',
+  statusTo: '',
+  minDurationMs: '',
+  exceptionType: '',
+  userAgent: '',
+  remoteIp: '',
+  requestId: '',
+  search: ''
+};
+
+const PAGE_SIZE = 25;
+
+@Component({
+  selector: 'app-admin-logs',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './admin-logs.html',
+  styleUrl: './admin-logs.scss'
+})
+export class AdminLogs {
+  private readonly healthService = inject(HealthService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private loadSubscription: Subscription | null = null;
+
+  protected readonly methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+  protected readonly hourOptions = [
+    { value: '1', label: 'Last hour' },
+    { value: '6', label: 'Last 6 hours' },
+    { value: '24', label: 'Last 24 hours' },
+    { value: '168', label: 'Last 7 days' },
+    { value: '720', label: 'Last 30 days' }
+  ];
+  protected readonly statusPresets = [
+    { label: '2xx', from: '200', to: '299' },
+    { label: '4xx', from: '400', to: '499' },
+    { label: '5xx', from: '500', to: '599' }
+  ];
+
+  protected readonly view = signal<LogView>('requests');
+  protected readonly form = signal<LogFilterForm>({ ...EMPTY_FORM });
+  protected readonly page = signal(1);
+
+  protected readonly requests = signal<RequestLogEntry[]>([]);
+  protected readonly exceptions = signal<ExceptionLogEntry[]>([]);
+  protected readonly total = signal(0);
+  protected readonly totalPages = signal(0);
+  protected readonly enabled = signal(true);
+  protected readonly loading = signal(false);
+  protected readonly error = signal<ApiError | null>(null);
+  protected readonly expandedException = signal<string | null>(null);
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.loadSubscription?.unsubscribe());
+
+    // The query string holds the search, so results can be linked to and
+    // cross-links between requests and exceptions are ordinary navigation
+    this.route.queryParamMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      this.applyQueryParams(params);
+      this.search();
+    });
+  }
+
+  protected updateField(field: keyof LogFilterForm, value: string): void {
+    this.form.update(form => ({ ...form, [field]: value }));
+  }
+
+  protected applyStatusPreset(preset: { from: string; to: string }): void {
+    this.form.update(form => ({ ...form, statusFrom: preset.from, statusTo: preset.to }));
+  }
+
+  protected submit(event: Event): void {
+    event.preventDefault();
+    this.navigate(this.view(), this.form(), 1);
+  }
+
+  protected reset(): void {
+    this.navigate(this.view(), EMPTY_FORM, 1);
+  }
+
+  protected selectView(view: LogView): void {
+    if (view !== this.view()) {
+      this.navigate(view, this.form(), 1);
+    }
+  }
+
+  protected goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages()) {
+      this.navigate(this.view(), this.form(), page);
+    }
+  }
+
+  protected clearRequestId(): void {
+    this.navigate(this.view(), { ...this.form(), requestId: '' }, 1);
+  }
+
+  /**
+   * Query params that open the other log type on the same request
+   */
+  protected requestLink(view: LogView, requestId: string): Params {
+    return this.toQueryParams(view, { ...EMPTY_FORM, hours: '720', requestId }, 1);
+  }
+
+  protected toggleException(exceptionId: string): void {
+    this.expandedException.update(current => current === exceptionId ? null : exceptionId);
+  }
+
+  protected formatTimestamp(timestamp: string): string {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  protected getStatusCodeClass(statusCode: number): string {
+    if (statusCode >= 200 && statusCode < 300) {
+      return 'status-success';
+    } else if (statusCode >= 300 && statusCode < 400) {
+      return 'status-redirect';
+    } else if (statusCode >= 400 && statusCode < 500) {
+      return 'status-client-error';
+    } else {
+      return 'status-server-error';
+    }
+  }
+
+  private search(): void {
+    this.loading.set(true);
+    this.error.set(null);
+    this.expandedException.set(null);
+
+    const hours = Number(this.form().hours) || 24;
+    const filters = this.toFilters(this.form());
+
+    // Only the latest search matters; drop any response still in flight
+    this.loadSubscription?.unsubscribe();
+    const request: Observable<RequestsListResponse | ExceptionsListResponse> = this.view() === 'requests'
+      ? this.healthService.getRequests(this.page(), PAGE_SIZE, hours, filters)
+      : this.healthService.getExceptions(this.page(), PAGE_SIZE, hours, filters);
+
+    this.loadSubscription = request.subscribe({
+      next: response => {
+        this.enabled.set(response.enabled);
+        if (this.view() === 'requests') {
+          this.requests.set(response.data as RequestLogEntry[]);
+        } else {
+          this.exceptions.set(response.data as ExceptionLogEntry[]);
+        }
+        this.total.set(response.total);
+        this.totalPages.set(response.totalPages ?? 0);
+        this.loading.set(false);
+      },
+      error: (err: ApiError) => {
+        this.error.set(err);
+        this.requests.set([]);
+        this.exceptions.set([]);
+        this.total.set(0);
+        this.totalPages.set(0);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  private toFilters(form: LogFilterForm): LogFilters {
+    const number = (value: string) => value.trim() === '' ? undefined : Number(value);
+    const time = (value: string) => {
+      const date = new Date(value);
+      return value && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+    };
+
+    return {
+      from: time(form.from),
+      to: time(form.to),
+      method: form.method || undefined,
+      path: form.path.trim() || undefined,
+      statusFrom: number(form.statusFrom),
+      statusTo: number(form.statusTo),
+      minDurationMs: this.view() === 'requests' ? number(form.minDurationMs) : undefined,
+      exceptionType: this.view() === 'exceptions' ? form.exceptionType.trim() || undefined : undefined,
+      userAgent: form.userAgent.trim() || undefined,
+      remoteIp: form.remoteIp.trim() || undefined,
+      requestId: form.requestId.trim() || undefined,
+      search: form.search.trim() || undefined
+    };
+  }
+
+  private applyQueryParams(params: ParamMap): void {
+    this.view.set(params.get('view') === 'exceptions' ? 'exceptions' : 'requests');
+    this.page.set(Math.max(1, Number(params.get('page')) || 1));
+
+    const form = { ...EMPTY_FORM };
+    for (const key of Object.keys(EMPTY_FORM) as (keyof LogFilterForm)[]) {
+      form[key] = params.get(key) ?? EMPTY_FORM[key];
+    }
+    this.form.set(form);
+  }
+
+  private navigate(view: LogView, form: LogFilterForm, page: number): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: this.toQueryParams(view, form, page) });
+  }
+
+  /**
+   * The search as query params, omitting defaults to keep shared links short
+   */
+  private toQueryParams(view: LogView, form: LogFilterForm, page: number): Params {
+    const params: Params = {
+      view: view !== 'requests' ? view : null,
+      page: page > 1 ? page : null
+    };
+    for (const key of Object.keys(EMPTY_FORM) as (keyof LogFilterForm)[]) {
+      const value = form[key].trim();
+      params[key] = value && value !== EMPTY_FORM[key] ? value : null;
+    }
+    return params;
+  }
+}
@@ -0,0 +1,156 @@
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subscription } from 'rxjs';
+import { HealthService } from '../services/health.service';
+import { ApiError } from '../models/api-error.model';
+import {
+  ExceptionLogEntry,
+  RequestLogEntry,
+  TraceAuditEntry,
+  TraceResponse
+} from '../models/health.model';
+
+export type TimelineItem =
+  | { kind: 'request'; timestamp: string; key: string; request: RequestLogEntry }
+  | { kind: 'exception'; timestamp: string; key: string; exception: ExceptionLogEntry }
+  | { kind: 'audit'; timestamp: string; key: string; audit: TraceAuditEntry };
+
+/**
+ * Requests, exceptions and audit entries of a trace in one list, oldest
+ * first. A request is logged once it finishes, so it is placed at its start
+ * time to come before the exceptions and audit entries it produced.
+ */
+export function buildTimeline(trace: TraceResponse): TimelineItem[] {
+  const items: TimelineItem[] = [
+    ...trace.requests.map(request => ({
+      kind: 'request' as const,
+      timestamp: new Date(new Date(request.timestampUtc).getTime() - request.durationMs).toISOString(),
+      key: `request-${request.requestId}`,
+      request
+    })),
+    ...trace.exceptions.map(exception => ({
+      kind: 'exception' as const,
+      timestamp: exception.timestampUtc,
+      key: `exception-${exception.exceptionId}`,
+      exception
+    })),
+    ...trace.audits.map(audit => ({
+      kind: 'audit' as const,
+      timestamp: audit.performedAt,
+      key: `audit-${audit.source}-${audit.id}`,
+      audit
+    }))
+  ];
+
+  return items.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+@Component({
+  selector: 'app-admin-trace',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './admin-trace.html',
+  styleUrl: './admin-trace.scss'
+})
+export class AdminTrace {
+  private readonly healthService = inject(HealthService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private loadSubscription: Subscription | null = null;
+
+  protected readonly id = signal('');
+  protected readonly idInput = signal('');
+  protected readonly trace = signal<TraceResponse | null>(null);
+  protected readonly loading = signal(false);
+  protected readonly error = signal<ApiError | null>(null);
+  protected readonly expandedException = signal<string | null>(null);
+
+  protected readonly timeline = computed(() => {
+    const trace = this.trace();
+    return trace ? buildTimeline(trace) : [];
+  });
+
+  protected readonly startedAt = computed(() => {
+    const first = this.timeline()[0];
+    return first ? new Date(first.timestamp).getTime() : 0;
+  });
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.loadSubscription?.unsubscribe());
+
+    this.route.paramMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      const id = params.get('id') ?? '';
+      this.id.set(id);
+      this.idInput.set(id);
+      this.load(id);
+    });
+  }
+
+  protected submit(event: Event): void {
+    event.preventDefault();
+    const id = this.idInput().trim();
+    if (id) {
+      this.router.navigate(['/admin/trace', id]);
+    }
+  }
+
+  protected toggleException(exceptionId: string): void {
+    this.expandedException.update(current => current === exceptionId ? null : exceptionId);
+  }
+
+  /**
+   * Time since the first event of the trace, e.g. "+1.2s"
+   */
+  protected offset(timestamp: string): string {
+    const ms = Math.max(0, new Date(timestamp).getTime() - this.startedAt());
+    return ms < 1000 ? `+${ms}ms` : `+${(ms / 1000).toFixed(1)}s`;
+  }
+
+  protected formatTimestamp(timestamp: string): string {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  protected getStatusCodeClass(statusCode: number): string {
+    if (statusCode >= 200 && statusCode < 300) {
+      return 'status-success';
+    } else if (statusCode >= 300 && statusCode < 400) {
+      return 'status-redirect';
+    } else if (statusCode >= 400 && statusCode < 500) {
+      return 'status-client-error';
+    } else {
+      return 'status-server-error';
+    }
+  }
+
+  private load(id: string): void {
+    this.loadSubscription?.unsubscribe();
+    this.trace.set(null);
+    this.error.set(null);
+    this.expandedException.set(null);
+
+    if (!id) {
+      this.loading.set(false);
+      return;
+    }
+
+    this.loading.set(true);
+    this.loadSubscription = this.healthService.getTrace(id).subscribe({
+      next: trace => {
+        this.trace.set(trace);
+        this.loading.set(false);
+      },
+      error: (err: ApiError) => {
+        this.error.set(err);
+        this.loading.set(false);
+      }
+    });
+  }
+}
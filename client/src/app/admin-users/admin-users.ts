@@ -0,0 +1,206 @@
+import { Component, DestroyRef, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Observable } from 'rxjs';
+import { UserAdminService } from '../services/user-admin.service';
+import { AuthService } from '../services/auth.service';
+import { Role } from '../models/auth.model';
+import { PasswordResetResult, UserAuditAction, UserAuditEntry, UserSummary } from '../models/user-admin.model';
+
+@Component({
+  selector: 'app-admin-users',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './admin-users.html',
+  styleUrl: './admin-users.scss'
+})
+export class AdminUsers implements OnInit {
+  private readonly userAdminService = inject(UserAdminService);
+  private readonly authService = inject(AuthService);
+  private searchDebounce: ReturnType<typeof setTimeout> | null = null;
+
+  protected readonly roles: Role[] = ['Viewer', 'Editor', 'Admin'];
+
+  protected readonly auditLabels: Record<UserAuditAction, string> = {
+    RoleGranted: 'Role granted',
+    RoleRevoked: 'Role revoked',
+    Locked: 'Account locked',
+    Unlocked: 'Account unlocked',
+    PasswordReset: 'Password reset'
+  };
+
+  protected readonly users = signal<UserSummary[]>([]);
+  protected readonly loading = signal(false);
+  protected readonly error = signal<string | null>(null);
+  protected readonly searchTerm = signal('');
+
+  // Row actions
+  protected readonly busyUserId = signal<string | null>(null);
+  protected readonly actionError = signal<string | null>(null);
+  protected readonly statusMessage = signal<string | null>(null);
+  protected readonly confirmResetUserId = signal<string | null>(null);
+  protected readonly passwordReset = signal<PasswordResetResult | null>(null);
+
+  // Audit log
+  protected readonly audit = signal<UserAuditEntry[]>([]);
+  protected readonly auditLoading = signal(false);
+  protected readonly auditError = signal<string | null>(null);
+
+  protected readonly currentEmail = computed(() => this.authService.user()?.email ?? null);
+
+  protected readonly lockedCount = computed(() => this.users().filter(u => u.isLockedOut).length);
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => {
+      if (this.searchDebounce) {
+        clearTimeout(this.searchDebounce);
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadUsers();
+    this.loadAudit();
+  }
+
+  protected loadUsers(): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.userAdminService.getUsers(this.searchTerm().trim() || undefined).subscribe({
+      next: users => {
+        this.users.set(users);
+        this.loading.set(false);
+      },
+      error: err => {
+        this.error.set(err.message);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  protected loadAudit(): void {
+    this.auditLoading.set(true);
+    this.auditError.set(null);
+
+    this.userAdminService.getAudit().subscribe({
+      next: entries => {
+        this.audit.set(entries);
+        this.auditLoading.set(false);
+      },
+      error: err => {
+        this.auditError.set(err.message);
+        this.auditLoading.set(false);
+      }
+    });
+  }
+
+  protected onSearchChange(term: string): void {
+    this.searchTerm.set(term);
+
+    if (this.searchDebounce) {
+      clearTimeout(this.searchDebounce);
+    }
+    this.searchDebounce = setTimeout(() => {
+      this.searchDebounce = null;
+      this.loadUsers();
+    }, 300);
+  }
+
+  protected displayName(user: UserSummary): string {
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || '—';
+  }
+
+  protected isSelf(user: UserSummary): boolean {
+    return user.email.toLowerCase() === this.currentEmail()?.toLowerCase();
+  }
+
+  protected hasRole(user: UserSummary, role: Role): boolean {
+    return user.roles.includes(role);
+  }
+
+  /**
+   * An admin may not remove their own Admin role, so they cannot lock
+   * themselves out of this console
+   */
+  protected canToggleRole(user: UserSummary, role: Role): boolean {
+    return !(role === 'Admin' && this.isSelf(user) && this.hasRole(user, role));
+  }
+
+  protected toggleRole(user: UserSummary, role: Role): void {
+    const granting = !this.hasRole(user, role);
+    const request = granting
+      ? this.userAdminService.grantRole(user.id, role)
+      : this.userAdminService.revokeRole(user.id, role);
+
+    this.runAction(user, request, `${granting ? 'Granted' : 'Revoked'} ${role} ${granting ? 'to' : 'from'} ${user.email}.`);
+  }
+
+  protected toggleLock(user: UserSummary): void {
+    const request = user.isLockedOut
+      ? this.userAdminService.unlockUser(user.id)
+      : this.userAdminService.lockUser(user.id);
+
+    this.runAction(user, request, `${user.isLockedOut ? 'Unlocked' : 'Locked'} ${user.email}.`);
+  }
+
+  protected requestPasswordReset(user: UserSummary): void {
+    this.passwordReset.set(null);
+    this.confirmResetUserId.set(user.id);
+  }
+
+  protected cancelPasswordReset(): void {
+    this.confirmResetUserId.set(null);
+  }
+
+  protected confirmPasswordReset(user: UserSummary): void {
+    this.busyUserId.set(user.id);
+    this.actionError.set(null);
+    this.statusMessage.set(null);
+
+    this.userAdminService.resetPassword(user.id).subscribe({
+      next: result => {
+        this.busyUserId.set(null);
+        this.confirmResetUserId.set(null);
+        this.passwordReset.set(result);
+        this.loadAudit();
+      },
+      error: err => {
+        this.busyUserId.set(null);
+        this.actionError.set(err.message);
+      }
+    });
+  }
+
+  protected dismissPasswordReset(): void {
+    this.passwordReset.set(null);
+  }
+
+  protected copyTemporaryPassword(): void {
+    const reset = this.passwordReset();
+    if (reset) {
+      navigator.clipboard?.writeText(reset.temporaryPassword);
+    }
+  }
+
+  /**
+   * Apply a row change, swap in the updated account and refresh the audit log
+   */
+  private runAction(user: UserSummary, request: Observable<UserSummary>, message: string): void {
+    this.busyUserId.set(user.id);
+    this.actionError.set(null);
+    this.statusMessage.set(null);
+
+    request.subscribe({
+      next: updated => {
+        this.users.update(users => users.map(u => u.id === updated.id ? updated : u));
+        this.busyUserId.set(null);
+        this.statusMessage.set(message);
+        this.loadAudit();
+      },
+      error: err => {
+        this.busyUserId.set(null);
+        this.actionError.set(err.message);
+      }
+    });
+  }
+}
@@ -1,7 +1,11 @@
-import { Component, inject, signal, OnInit, OnDestroy } from '@angular/core';
+import { Component, DestroyRef, computed, effect, inject, signal, untracked, OnInit, OnDestroy } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule, KeyValuePipe, TitleCasePipe } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { HealthService } from '../services/health.service';
+import { AdminEventsService } from '../services/admin-events.service';
+import { ChartSeries, LineChart } from '../line-chart/line-chart';
+import { AdminAlerts } from '../admin-alerts/admin-alerts';
 import { 
   HealthCheckResponse, 
   HealthComponent, 
@@ -11,18 +15,40 @@ import {
   ExceptionsListResponse,
   RequestStatsResponse,
   RequestsListResponse,
+  RequestTimeSeriesResponse,
   ExceptionLogEntry
 } from '../models/health.model';
+import { ApiError } from '../models/api-error.model';
+
+/**
+ * Time ranges offered for trends, statistics and log lists
+ */
+const TIME_RANGES = [
+  { hours: 1, label: 'Last hour' },
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 168, label: 'Last 7 days' }
+] as const;
+
+const CHART_COLORS = {
+  requests: '#3b82f6',
+  p50: '#10b981',
+  p95: '#f59e0b',
+  p99: '#ef4444',
+  clientErrors: '#f59e0b',
+  serverErrors: '#ef4444'
+};
 
 @Component({
   selector: 'app-admin',
-  imports: [CommonModule, RouterLink, KeyValuePipe, TitleCasePipe],
+  imports: [CommonModule, RouterLink, KeyValuePipe, TitleCasePipe, LineChart, AdminAlerts],
   templateUrl: './admin.html',
   styleUrl: './admin.scss'
 })
 export class Admin implements OnInit, OnDestroy {
   private readonly healthService = inject(HealthService);
-  private refreshInterval: any;
+  private readonly destroyRef = inject(DestroyRef);
+  protected readonly adminEvents = inject(AdminEventsService);
 
   protected readonly healthData = signal<HealthCheckResponse | null>(null);
   protected readonly loading = signal<boolean>(false);
@@ -32,6 +58,43 @@ export class Admin implements OnInit, OnDestroy {
   protected readonly exceptionInfo = signal<ExceptionResponse | null>(null);
   protected readonly triggeringException = signal<boolean>(false);
 
+  // Time range for trends, statistics and log lists
+  protected readonly timeRanges = TIME_RANGES;
+  protected readonly rangeHours = signal<number>(24);
+  protected readonly rangeLabel = computed(() =>
+    TIME_RANGES.find(r => r.hours === this.rangeHours())?.label ?? `Last ${this.rangeHours()} hours`
+  );
+
+  // Request time series
+  protected readonly timeSeries = signal<RequestTimeSeriesResponse | null>(null);
+  protected readonly loadingTimeSeries = signal<boolean>(false);
+  protected readonly timeSeriesPath = signal<string | null>(null);
+  protected readonly charts = computed(() => {
+    const response = this.timeSeries();
+    const series = response?.series.find(s => s.path === this.timeSeriesPath()) ?? response?.series[0];
+    if (!series) return null;
+
+    const buckets = series.buckets;
+    return {
+      timestamps: buckets.map(b => b.timestamp),
+      volume: [
+        { name: 'Requests', color: CHART_COLORS.requests, values: buckets.map(b => b.count) }
+      ] as ChartSeries[],
+      latency: [
+        { name: 'p50', color: CHART_COLORS.p50, values: buckets.map(b => b.p50) },
+        { name: 'p95', color: CHART_COLORS.p95, values: buckets.map(b => b.p95) },
+        { name: 'p99', color: CHART_COLORS.p99, values: buckets.map(b => b.p99) }
+      ] as ChartSeries[],
+      errors: [
+        { name: '4xx', color: CHART_COLORS.clientErrors, values: buckets.map(b => b.count > 0 ? b.clientErrorRate * 100 : null) },
+        { name: '5xx', color: CHART_COLORS.serverErrors, values: buckets.map(b => b.count > 0 ? b.serverErrorRate * 100 : null) }
+      ] as ChartSeries[]
+    };
+  });
+  protected readonly formatCount = (value: number) => `${Math.round(value * 10) / 10}`;
+  protected readonly formatLatency = (value: number) => this.formatDuration(value);
+  protected readonly formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
   // Trending exceptions
   protected readonly trendingExceptions = signal<TrendingExceptionsResponse | null>(null);
   protected readonly loadingTrending = signal<boolean>(false);
@@ -53,15 +116,36 @@ export class Admin implements OnInit, OnDestroy {
   protected readonly loadingRequests = signal<boolean>(false);
   protected readonly requestsPage = signal<number>(1);
 
+  constructor() {
+    // Health pushed by the event stream, or polled while it is unavailable
+    effect(() => {
+      const health = this.adminEvents.health();
+      if (health && untracked(this.autoRefresh)) {
+        this.healthData.set(health);
+        this.lastUpdated.set(new Date());
+        this.error.set(null);
+      }
+    });
+  }
+
   ngOnInit(): void {
+    this.adminEvents.openDashboard();
+    this.adminEvents.exceptions
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(exception => {
+        if (this.autoRefresh()) {
+          this.addLiveException(exception);
+        }
+      });
+
     this.loadHealthStatus();
     this.loadTrendingExceptions();
     this.loadRequestStats();
-    this.startAutoRefresh();
+    this.loadTimeSeries();
   }
 
   ngOnDestroy(): void {
-    this.stopAutoRefresh();
+    this.adminEvents.closeDashboard();
   }
 
   protected loadHealthStatus(): void {
@@ -83,26 +167,104 @@ export class Admin implements OnInit, OnDestroy {
 
   protected toggleAutoRefresh(): void {
     this.autoRefresh.update(val => !val);
+
+    // Catch up on whatever arrived while paused
     if (this.autoRefresh()) {
-      this.startAutoRefresh();
-    } else {
-      this.stopAutoRefresh();
+      this.loadHealthStatus();
+      this.loadTrendingExceptions();
+      if (this.exceptionsList()) {
+        this.loadExceptionsList(this.exceptionsPage());
+      }
     }
   }
 
-  private startAutoRefresh(): void {
-    this.stopAutoRefresh(); // Clear any existing interval
-    this.refreshInterval = setInterval(() => {
-      if (this.autoRefresh()) {
-        this.loadHealthStatus();
+  protected setTimeRange(hours: number): void {
+    if (hours === this.rangeHours()) return;
+
+    this.rangeHours.set(hours);
+    this.loadTrendingExceptions();
+    this.loadRequestStats();
+    this.loadTimeSeries();
+    if (this.exceptionsList()) {
+      this.loadExceptionsList();
+    }
+    if (this.requestsList()) {
+      this.loadRequestsList();
+    }
+  }
+
+  protected loadTimeSeries(): void {
+    this.loadingTimeSeries.set(true);
+
+    this.healthService.getRequestTimeSeries(this.rangeHours()).subscribe({
+      next: (data) => {
+        this.timeSeries.set(data);
+        // Fall back to all endpoints if the chosen one is no longer among the busiest
+        if (!data.series.some(s => s.path === this.timeSeriesPath())) {
+          this.timeSeriesPath.set(null);
+        }
+        this.loadingTimeSeries.set(false);
+      },
+      error: () => {
+        this.loadingTimeSeries.set(false);
       }
-    }, 30000); // Refresh every 30 seconds
+    });
   }
 
-  private stopAutoRefresh(): void {
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
+  protected selectTimeSeriesPath(path: string): void {
+    this.timeSeriesPath.set(path || null);
+  }
+
+  /**
+   * Show an exception pushed by the event stream: count it in the trending
+   * cards and put it at the top of the first page of the list
+   */
+  private addLiveException(exception: ExceptionLogEntry): void {
+    this.trendingExceptions.update(trending => {
+      if (!trending) return trending;
+
+      const existing = trending.data.find(t => t.exceptionType === exception.exceptionType);
+      const others = trending.data.filter(t => t !== existing);
+      const messages = existing?.messages ?? [];
+      const message = messages.find(m => m.message === exception.message);
+      const updated = {
+        exceptionType: exception.exceptionType,
+        count: (existing?.count ?? 0) + 1,
+        messages: message
+          ? messages.map(m => m === message ? { ...m, count: m.count + 1 } : m)
+          : [...messages, { message: exception.message, count: 1 }],
+        latestException: exception
+      };
+
+      return {
+        ...trending,
+        data: [...others, updated].sort((a, b) => b.count - a.count)
+      };
+    });
+
+    this.exceptionsList.update(list => {
+      if (!list || list.data.some(e => e.exceptionId === exception.exceptionId)) return list;
+
+      const total = list.total + 1;
+      return {
+        ...list,
+        data: this.exceptionsPage() === 1 ? [exception, ...list.data].slice(0, list.pageSize) : list.data,
+        total,
+        totalPages: Math.ceil(total / list.pageSize)
+      };
+    });
+  }
+
+  protected streamStateLabel(): string {
+    switch (this.adminEvents.state()) {
+      case 'live':
+        return 'Live';
+      case 'polling':
+        return 'Polling every 30s';
+      case 'connecting':
+        return 'Connecting…';
+      default:
+        return 'Offline';
     }
   }
 
@@ -116,10 +278,10 @@ export class Admin implements OnInit, OnDestroy {
         this.exceptionInfo.set(response);
         this.triggeringException.set(false);
       },
-      error: (err: any) => {
+      error: (err: ApiError) => {
         // Extract the exception info from the error response
-        if (err.error && err.error.exceptionId) {
-          this.exceptionInfo.set(err.error);
+        if (err.exceptionId) {
+          this.exceptionInfo.set(err.body as ExceptionResponse);
         } else {
           this.exceptionInfo.set({
             error: 'UnknownError',
@@ -210,7 +372,7 @@ export class Admin implements OnInit, OnDestroy {
   protected loadTrendingExceptions(): void {
     this.loadingTrending.set(true);
 
-    this.healthService.getTrendingExceptions(24).subscribe({
+    this.healthService.getTrendingExceptions(this.rangeHours()).subscribe({
       next: (data) => {
         this.trendingExceptions.set(data);
         this.loadingTrending.set(false);
@@ -234,7 +396,7 @@ export class Admin implements OnInit, OnDestroy {
     this.loadingExceptions.set(true);
     this.exceptionsPage.set(page);
 
-    this.healthService.getExceptions(page, 20, 24).subscribe({
+    this.healthService.getExceptions(page, 20, this.rangeHours()).subscribe({
       next: (data) => {
         this.exceptionsList.set(data);
         this.loadingExceptions.set(false);
@@ -263,7 +425,7 @@ export class Admin implements OnInit, OnDestroy {
   protected loadRequestStats(): void {
     this.loadingRequestStats.set(true);
 
-    this.healthService.getRequestStats(24).subscribe({
+    this.healthService.getRequestStats(this.rangeHours()).subscribe({
       next: (data) => {
         this.requestStats.set(data);
         this.loadingRequestStats.set(false);
@@ -287,7 +449,7 @@ export class Admin implements OnInit, OnDestroy {
     this.loadingRequests.set(true);
     this.requestsPage.set(page);
 
-    this.healthService.getRequests(page, 20, 24).subscribe({
+    this.healthService.getRequests(page, 20, this.rangeHours()).subscribe({
       next: (data) => {
         this.requestsList.set(data);
         this.loadingRequests.set(false);
@@ -1,16 +1,19 @@
 import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
-import { provideRouter } from '@angular/router';
+import { provideRouter, withInMemoryScrolling } from '@angular/router';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { authInterceptor } from './interceptors/auth.interceptor';
+import { correlationInterceptor } from './interceptors/correlation.interceptor';
+import { errorInterceptor } from './interceptors/error.interceptor';
+import { retryInterceptor } from './interceptors/retry.interceptor';
 
 import { routes } from './app.routes';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideRouter(routes),
+    provideRouter(routes, withInMemoryScrolling({ anchorScrolling: 'enabled' })),
     provideHttpClient(
-      withInterceptors([authInterceptor])
+      withInterceptors([correlationInterceptor, errorInterceptor, retryInterceptor, authInterceptor])
     )
   ]
 };
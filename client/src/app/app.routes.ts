@@ -3,21 +3,44 @@ import { Home } from './home/home';
 import { Personnel } from './personnel/personnel';
 import { PersonDetail } from './person-detail/person-detail';
 import { AddPerson } from './add-person/add-person';
+import { ImportPeople } from './import-people/import-people';
 import { AddDuty } from './add-duty/add-duty';
+import { EditDuty } from './edit-duty/edit-duty';
+import { ImportDuties } from './import-duties/import-duties';
 import { Admin } from './admin/admin';
+import { AdminUsers } from './admin-users/admin-users';
+import { AdminLogs } from './admin-logs/admin-logs';
+import { AdminTrace } from './admin-trace/admin-trace';
 import { LoginComponent } from './login/login';
 import { RegisterComponent } from './register/register';
-import { authGuard, adminGuard, guestGuard } from './guards/auth.guard';
+import { Account } from './account/account';
+import { SsoCallback } from './sso-callback/sso-callback';
+import { NotAuthorized } from './not-authorized/not-authorized';
+import { authGuard, adminGuard, guestGuard, roleGuard } from './guards/auth.guard';
+import { EDITOR_ROLES } from './models/auth.model';
+
+// Write pages are limited to Editors and Admins
+const editorGuard = roleGuard(...EDITOR_ROLES);
 
 export const routes: Routes = [
   { path: '', component: Home, title: 'Home - Stargate ACTS' },
   { path: 'login', component: LoginComponent, title: 'Login - Stargate ACTS', canActivate: [guestGuard] },
   { path: 'register', component: RegisterComponent, title: 'Register - Stargate ACTS', canActivate: [guestGuard] },
+  { path: 'auth/callback', component: SsoCallback, title: 'Signing In - Stargate ACTS' },
+  { path: 'account', component: Account, title: 'My Account - Stargate ACTS', canActivate: [authGuard] },
   { path: 'personnel', component: Personnel, title: 'Personnel Directory - Stargate ACTS', canActivate: [authGuard] },
-  { path: 'personnel/new', component: AddPerson, title: 'Add Person - Stargate ACTS', canActivate: [authGuard] },
+  { path: 'personnel/new', component: AddPerson, title: 'Add Person - Stargate ACTS', canActivate: [editorGuard] },
+  { path: 'personnel/import', component: ImportPeople, title: 'Import People - Stargate ACTS', canActivate: [editorGuard] },
   { path: 'personnel/:name', component: PersonDetail, title: 'Person Detail - Stargate ACTS', canActivate: [authGuard] },
-  { path: 'duties/new', component: AddDuty, title: 'Add Duty - Stargate ACTS', canActivate: [authGuard] },
+  { path: 'personnel/:name/duties/:id/edit', component: EditDuty, title: 'Edit Duty - Stargate ACTS', canActivate: [editorGuard] },
+  { path: 'duties/new', component: AddDuty, title: 'Add Duty - Stargate ACTS', canActivate: [editorGuard] },
+  { path: 'duties/import', component: ImportDuties, title: 'Import Duties - Stargate ACTS', canActivate: [editorGuard] },
   { path: 'admin', component: Admin, title: 'Admin Dashboard - Stargate ACTS', canActivate: [adminGuard] },
+  { path: 'admin/users', component: AdminUsers, title: 'User Management - Stargate ACTS', canActivate: [adminGuard] },
+  { path: 'admin/logs', component: AdminLogs, title: 'Log Explorer - Stargate ACTS', canActivate: [adminGuard] },
+  { path: 'admin/trace', component: AdminTrace, title: 'Trace - Stargate ACTS', canActivate: [adminGuard] },
+  { path: 'admin/trace/:id', component: AdminTrace, title: 'Trace - Stargate ACTS', canActivate: [adminGuard] },
+  { path: 'not-authorized', component: NotAuthorized, title: 'Not Authorized - Stargate ACTS' },
   { path: '**', redirectTo: '' }
 ];
 
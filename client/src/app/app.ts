@@ -2,15 +2,23 @@ import { Component, inject } from '@angular/core';
 import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { AuthService } from './services/auth.service';
+import { AdminEventsService } from './services/admin-events.service';
+import { SessionTimeout } from './session-timeout/session-timeout';
+import { OfflineBanner } from './offline-banner/offline-banner';
+import { NotificationCentre } from './notification-centre/notification-centre';
+import { HasRoleDirective } from './directives/has-role.directive';
+import { EDITOR_ROLES } from './models/auth.model';
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, RouterOutlet, RouterLink, RouterLinkActive],
+  imports: [CommonModule, RouterOutlet, RouterLink, RouterLinkActive, SessionTimeout, OfflineBanner, NotificationCentre, HasRoleDirective],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   protected authService = inject(AuthService);
+  protected readonly adminEvents = inject(AdminEventsService);
+  protected readonly editorRoles = EDITOR_ROLES;
   protected isMenuOpen = false;
   protected readonly currentYear = new Date().getFullYear();
 
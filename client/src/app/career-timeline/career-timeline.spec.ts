@@ -0,0 +1,51 @@
+import { AstronautDuty } from '../models/person.model';
+import { buildTimeline } from './career-timeline';
+
+describe('buildTimeline', () => {
+  let nextId = 1;
+
+  function duty(rank: string, dutyTitle: string, dutyStartDate: string, dutyEndDate?: string): AstronautDuty {
+    return { id: nextId++, personId: 1, rank, dutyTitle, dutyStartDate, dutyEndDate };
+  }
+
+  it('should size each segment by the share of the career it covers', () => {
+    const segments = buildTimeline([
+      duty('Captain', 'Commander', '2020-01-11', '2020-01-15'),
+      duty('Lieutenant', 'Pilot', '2020-01-01', '2020-01-10'),
+      duty('Captain', 'Pilot', '2020-01-16', '2020-01-20')
+    ], '2020-01-01', null, Date.UTC(2020, 0, 21));
+
+    expect(segments.map(s => s.duty.dutyStartDate)).toEqual(['2020-01-01', '2020-01-11', '2020-01-16']);
+    expect(segments.map(s => s.offsetPercent)).toEqual([0, 50, 75]);
+    expect(segments.map(s => s.widthPercent)).toEqual([50, 25, 25]);
+    expect(segments.map(s => s.colorIndex)).toEqual([0, 1, 0]);
+    expect(segments.map(s => s.rankChanged)).toEqual([false, true, false]);
+    expect(segments[1].previousRank).toBe('Lieutenant');
+  });
+
+  it('should run an open current duty up to now', () => {
+    const segments = buildTimeline([
+      duty('Lieutenant', 'Pilot', '2020-01-01', '2020-01-05'),
+      duty('Captain', 'Commander', '2020-01-06')
+    ], '2020-01-01', null, Date.UTC(2020, 0, 11));
+
+    expect(segments[1].offsetPercent).toBe(50);
+    expect(segments[1].widthPercent).toBe(50);
+  });
+
+  it('should give a single-day duty a day of the timeline, including one that ends a career', () => {
+    const segments = buildTimeline([
+      duty('Lieutenant', 'Pilot', '2020-01-01', '2020-01-09'),
+      duty('Captain', 'Commander', '2020-01-10', '2020-01-10'),
+      duty('Captain', 'RETIRED', '2020-01-11')
+    ], '2020-01-01', '2020-01-10', Date.UTC(2024, 0, 1));
+
+    expect(segments.map(s => s.duty.dutyTitle)).toEqual(['Pilot', 'Commander']);
+    expect(segments[1].offsetPercent).toBe(90);
+    expect(segments[1].widthPercent).toBe(10);
+  });
+
+  it('should plot nothing without duties or a career start', () => {
+    expect(buildTimeline([], null, null, Date.now())).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { Component, computed, input, signal } from '@angular/core';
+import { AstronautDuty } from '../models/person.model';
+import { RETIRED_DUTY_TITLE } from '../models/duty-options';
+
+export interface TimelineSegment {
+  duty: AstronautDuty;
+  offsetPercent: number;
+  widthPercent: number;
+  colorIndex: number;
+  rankChanged: boolean;
+  previousRank: string | null;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const TIMELINE_COLOR_COUNT = 8;
+
+/**
+ * Proportional segments for every duty except the RETIRED marker, which
+ * starts the day after the career ends and is shown as the end cap instead.
+ * The timeline runs from the first duty (or career start) through the career
+ * end date, or now for active astronauts.
+ */
+export function buildTimeline(
+  duties: AstronautDuty[],
+  careerStartDate: string | null | undefined,
+  careerEndDate: string | null | undefined,
+  now: number
+): TimelineSegment[] {
+  const starts = duties.map(d => new Date(d.dutyStartDate).getTime());
+  if (careerStartDate) starts.push(new Date(careerStartDate).getTime());
+  if (starts.length === 0) return [];
+
+  const rangeStart = Math.min(...starts);
+  // Like duty end dates, the career end date is inclusive
+  const careerEnd = careerEndDate ? new Date(careerEndDate).getTime() + MS_PER_DAY : now;
+  const rangeEnd = Math.max(careerEnd, rangeStart + MS_PER_DAY);
+  const total = rangeEnd - rangeStart;
+  const chronological = duties
+    .filter(d => d.dutyTitle !== RETIRED_DUTY_TITLE)
+    .sort((a, b) => new Date(a.dutyStartDate).getTime() - new Date(b.dutyStartDate).getTime());
+  const titles: string[] = [];
+
+  return chronological.map((duty, index) => {
+    const start = Math.max(new Date(duty.dutyStartDate).getTime(), rangeStart);
+    // End dates are inclusive, so the segment runs to the end of that day
+    const end = duty.dutyEndDate
+      ? Math.min(new Date(duty.dutyEndDate).getTime() + MS_PER_DAY, rangeEnd)
+      : rangeEnd;
+
+    if (!titles.includes(duty.dutyTitle)) titles.push(duty.dutyTitle);
+    const previousRank = index > 0 ? chronological[index - 1].rank : null;
+
+    return {
+      duty,
+      offsetPercent: ((start - rangeStart) / total) * 100,
+      widthPercent: (Math.max(end - start, 0) / total) * 100,
+      colorIndex: titles.indexOf(duty.dutyTitle) % TIMELINE_COLOR_COUNT,
+      rankChanged: previousRank !== null && previousRank !== duty.rank,
+      previousRank
+    };
+  });
+}
+
+/**
+ * Career timeline for a person's duties, one proportional segment per duty
+ * coloured by title. Hovering or focusing a segment shows its details.
+ * Renders nothing when there are no duties to plot.
+ */
+@Component({
+  selector: 'app-career-timeline',
+  templateUrl: './career-timeline.html',
+  styleUrl: './career-timeline.scss'
+})
+export class CareerTimeline {
+  readonly duties = input.required<AstronautDuty[]>();
+  readonly careerStartDate = input<string | null>(null);
+  readonly careerEndDate = input<string | null>(null);
+
+  protected readonly segments = computed(() =>
+    buildTimeline(this.duties(), this.careerStartDate(), this.careerEndDate(), Date.now())
+  );
+
+  protected readonly legend = computed(() => {
+    const legend: { title: string; colorIndex: number }[] = [];
+    for (const segment of this.segments()) {
+      if (!legend.some(l => l.title === segment.duty.dutyTitle)) {
+        legend.push({ title: segment.duty.dutyTitle, colorIndex: segment.colorIndex });
+      }
+    }
+    return legend;
+  });
+
+  protected readonly highlightedSegment = signal<TimelineSegment | null>(null);
+
+  protected highlightSegment(segment: TimelineSegment | null): void {
+    this.highlightedSegment.set(segment);
+  }
+
+  protected describeSegment(segment: TimelineSegment): string {
+    const { duty } = segment;
+    const period = `${this.formatDateShort(duty.dutyStartDate)} to ${duty.dutyEndDate ? this.formatDateShort(duty.dutyEndDate) : 'present'}`;
+    const rankChange = segment.rankChanged ? `, rank changed from ${segment.previousRank}` : '';
+    return `${duty.dutyTitle}, ${duty.rank}${rankChange}, ${period} (${this.calculateDuration(duty.dutyStartDate, duty.dutyEndDate)})`;
+  }
+
+  protected formatDateShort(dateString?: string | null): string {
+    if (!dateString) return 'N/A';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  protected calculateDuration(startDate: string, endDate?: string | null): string {
+    const start = new Date(startDate);
+    const end = endDate ? new Date(endDate) : new Date();
+    const days = Math.floor((end.getTime() - start.getTime()) / MS_PER_DAY);
+
+    if (days < 30) return `${days} days`;
+    if (days < 365) return `${Math.floor(days / 30)} months`;
+
+    const years = Math.floor(days / 365);
+    const months = Math.floor((days % 365) / 30);
+    return months > 0 ? `${years}y ${months}m` : `${years} years`;
+  }
+}
@@ -0,0 +1,53 @@
+import { Component, input } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { PersonHistoryEntry } from '../models/person.model';
+
+// Labels for the server-side property names recorded in the audit trail
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  Name: 'Name',
+  CurrentRank: 'Current rank',
+  CurrentDutyTitle: 'Current duty title',
+  CareerStartDate: 'Career start date',
+  CareerEndDate: 'Career end date',
+  Rank: 'Rank',
+  DutyTitle: 'Duty title',
+  DutyStartDate: 'Duty start date',
+  DutyEndDate: 'Duty end date'
+};
+
+/**
+ * Audit trail entries for a person, newest first as returned by the API,
+ * with a before and after table for the fields each change touched
+ */
+@Component({
+  selector: 'app-change-history',
+  imports: [DatePipe],
+  templateUrl: './change-history.html',
+  styleUrl: './change-history.scss'
+})
+export class ChangeHistory {
+  readonly entries = input.required<PersonHistoryEntry[]>();
+
+  protected describeEntry(entry: PersonHistoryEntry): string {
+    const action = entry.action;
+    switch (entry.entityType) {
+      case 'AstronautDuty':
+        return `${action} duty #${entry.entityId}`;
+      case 'AstronautDetail':
+        return `${action} astronaut record`;
+      default:
+        return `${action} person record`;
+    }
+  }
+
+  protected fieldLabel(field: string): string {
+    return HISTORY_FIELD_LABELS[field] ?? field;
+  }
+
+  protected formatValue(field: string, value: string | null): string {
+    if (value === null || value === '') return '—';
+    return field.endsWith('Date')
+      ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+      : value;
+  }
+}
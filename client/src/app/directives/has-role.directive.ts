@@ -0,0 +1,35 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { AuthService } from '../services/auth.service';
+import { Role } from '../models/auth.model';
+
+/**
+ * Structural directive that renders its content only for users holding at
+ * least one of the given roles, e.g. `*appHasRole="editorRoles"`.
+ * Hides write actions from read-only users; the API still enforces access.
+ */
+@Directive({
+  selector: '[appHasRole]'
+})
+export class HasRoleDirective {
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly authService = inject(AuthService);
+  private hasView = false;
+
+  readonly appHasRole = input.required<readonly Role[]>();
+
+  constructor() {
+    // Re-evaluate whenever the roles or the signed-in user change
+    effect(() => {
+      const allowed = this.authService.hasAnyRole(this.appHasRole());
+
+      if (allowed && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!allowed && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { EditDuty } from './edit-duty';
+import { AstronautDutyService } from '../services/astronaut-duty.service';
+import { AstronautDuty } from '../models/person.model';
+
+describe('EditDuty', () => {
+  const duty: AstronautDuty = {
+    id: 1, personId: 1, rank: 'Captain', dutyTitle: 'Pilot', dutyStartDate: '2022-05-01', dutyEndDate: '2023-01-01'
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      imports: [EditDuty],
+      providers: [
+        provideRouter([]),
+        { provide: ActivatedRoute, useValue: { snapshot: { paramMap: convertToParamMap({ name: 'Jane Doe', id: '1' }) } } },
+        {
+          provide: AstronautDutyService,
+          useValue: { getAstronautDutiesByName: () => of([duty]), updateAstronautDuty: () => of([duty]) }
+        }
+      ]
+    });
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  function saveDuty() {
+    const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+    const fixture = TestBed.createComponent(EditDuty);
+    fixture.componentInstance.ngOnInit();
+    fixture.componentInstance['onSave']();
+    return { fixture, navigate };
+  }
+
+  it('should return to the person after saving', () => {
+    const { fixture, navigate } = saveDuty();
+
+    expect(fixture.componentInstance['success']()).toBe(true);
+    vi.advanceTimersByTime(1500);
+
+    expect(navigate).toHaveBeenCalledWith(['/personnel', 'Jane Doe']);
+  });
+
+  it('should not redirect once the user has left the page', () => {
+    const { fixture, navigate } = saveDuty();
+
+    fixture.destroy();
+    vi.advanceTimersByTime(1500);
+
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import { Component, DestroyRef, inject, signal, computed, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink, ActivatedRoute } from '@angular/router';
+import { AstronautDutyService } from '../services/astronaut-duty.service';
+import { AstronautDuty, UpdateAstronautDutyRequest } from '../models/person.model';
+import { DUTY_RANKS, DUTY_TITLES } from '../models/duty-options';
+import { ApiError } from '../models/api-error.model';
+import { ErrorReference } from '../error-reference/error-reference';
+
+interface DutyFieldChange {
+  dutyId: number;
+  dutyTitle: string;
+  field: string;
+  before: string;
+  after: string;
+}
+
+@Component({
+  selector: 'app-edit-duty',
+  imports: [CommonModule, RouterLink, ErrorReference],
+  templateUrl: './edit-duty.html',
+  styleUrl: './edit-duty.scss'
+})
+export class EditDuty implements OnInit {
+  private readonly dutyService = inject(AstronautDutyService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private redirectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  protected readonly name = signal<string>('');
+  protected readonly duties = signal<AstronautDuty[]>([]);
+  protected readonly duty = signal<AstronautDuty | null>(null);
+  protected readonly rank = signal<string>('');
+  protected readonly dutyTitle = signal<string>('');
+  protected readonly dutyStartDate = signal<string>('');
+  protected readonly dutyEndDate = signal<string>('');
+  protected readonly loading = signal<boolean>(true);
+  protected readonly submitting = signal<boolean>(false);
+  protected readonly error = signal<string | null>(null);
+  protected readonly serverError = signal<ApiError | null>(null);
+  protected readonly success = signal<boolean>(false);
+  protected readonly changes = signal<DutyFieldChange[] | null>(null);
+
+  /** The open duty has no end date to edit; it is closed by adding the next duty */
+  protected readonly isOpenDuty = computed(() => !this.duty()?.dutyEndDate);
+
+  // Keep a value recorded before the predefined lists existed selectable
+  protected readonly ranks = computed(() => this.withCurrent(DUTY_RANKS, this.duty()?.rank));
+  protected readonly titles = computed(() => this.withCurrent(DUTY_TITLES, this.duty()?.dutyTitle));
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => {
+      if (this.redirectTimer) {
+        clearTimeout(this.redirectTimer);
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    const name = this.route.snapshot.paramMap.get('name') ?? '';
+    const id = Number(this.route.snapshot.paramMap.get('id'));
+    this.name.set(name);
+    this.loadDuty(name, id);
+  }
+
+  private loadDuty(name: string, id: number): void {
+    this.loading.set(true);
+    this.dutyService.getAstronautDutiesByName(name).subscribe({
+      next: (duties: AstronautDuty[]) => {
+        const duty = duties.find(d => d.id === id) ?? null;
+        this.duties.set(duties);
+        this.duty.set(duty);
+        if (duty) {
+          this.rank.set(duty.rank);
+          this.dutyTitle.set(duty.dutyTitle);
+          this.dutyStartDate.set(this.toDateInput(duty.dutyStartDate));
+          this.dutyEndDate.set(this.toDateInput(duty.dutyEndDate));
+        } else {
+          this.error.set(`Duty ${id} was not found for ${name}`);
+        }
+        this.loading.set(false);
+      },
+      error: (err: ApiError) => {
+        this.serverError.set(err);
+        this.error.set(err.message);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  /**
+   * Validate the edit on the server without saving and show every field it
+   * would change, including adjustments to neighbouring duties
+   */
+  protected onReview(event: Event): void {
+    event.preventDefault();
+
+    const duty = this.duty();
+    if (!duty) return;
+
+    if (!this.rank().trim() || !this.dutyTitle().trim()) {
+      this.error.set('Rank and duty title are required');
+      return;
+    }
+
+    if (!this.dutyStartDate()) {
+      this.error.set('Start date is required');
+      return;
+    }
+
+    const dateError = this.dutyService.validateDutyStartDate(this.dutyStartDate());
+    if (dateError) {
+      this.error.set(dateError);
+      return;
+    }
+
+    if (!this.isOpenDuty() && !this.dutyEndDate()) {
+      this.error.set('End date is required for a past duty');
+      return;
+    }
+
+    this.submitting.set(true);
+    this.error.set(null);
+    this.serverError.set(null);
+
+    this.dutyService.updateAstronautDuty(duty.id, this.buildRequest(), true).subscribe({
+      next: (updated: AstronautDuty[]) => {
+        const changes = this.diff(this.duties(), updated);
+        if (changes.length === 0) {
+          this.error.set('No changes to save');
+        } else {
+          this.changes.set(changes);
+        }
+        this.submitting.set(false);
+      },
+      error: (err: ApiError) => {
+        this.serverError.set(err);
+        this.error.set(err.message || 'Failed to validate duty changes');
+        this.submitting.set(false);
+      }
+    });
+  }
+
+  protected onSave(): void {
+    const duty = this.duty();
+    if (!duty) return;
+
+    this.submitting.set(true);
+    this.error.set(null);
+    this.serverError.set(null);
+
+    this.dutyService.updateAstronautDuty(duty.id, this.buildRequest()).subscribe({
+      next: () => {
+        this.success.set(true);
+        this.submitting.set(false);
+
+        // Redirect to the person detail page
+        this.redirectTimer = setTimeout(() => {
+          this.redirectTimer = null;
+          this.router.navigate(['/personnel', this.name()]);
+        }, 1500);
+      },
+      error: (err: ApiError) => {
+        this.changes.set(null);
+        this.serverError.set(err);
+        this.error.set(err.message || 'Failed to update astronaut duty');
+        this.submitting.set(false);
+      }
+    });
+  }
+
+  protected backToEdit(): void {
+    this.changes.set(null);
+  }
+
+  protected onFieldChange(): void {
+    this.changes.set(null);
+    if (this.error()) {
+      this.error.set(null);
+    }
+    this.serverError.set(null);
+  }
+
+  /**
+   * The server's message for a field it rejected on the last review or save
+   */
+  protected fieldError(field: keyof UpdateAstronautDutyRequest): string | null {
+    return this.serverError()?.fieldError(field) ?? null;
+  }
+
+  protected getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private buildRequest(): UpdateAstronautDutyRequest {
+    return {
+      rank: this.rank().trim(),
+      dutyTitle: this.dutyTitle().trim(),
+      dutyStartDate: this.dutyStartDate(),
+      dutyEndDate: this.isOpenDuty() ? null : this.dutyEndDate()
+    };
+  }
+
+  private diff(before: AstronautDuty[], after: AstronautDuty[]): DutyFieldChange[] {
+    const changes: DutyFieldChange[] = [];
+    const fields: { label: string; value: (d: AstronautDuty) => string }[] = [
+      { label: 'Rank', value: d => d.rank },
+      { label: 'Duty Title', value: d => d.dutyTitle },
+      { label: 'Start Date', value: d => this.toDateInput(d.dutyStartDate) },
+      { label: 'End Date', value: d => this.toDateInput(d.dutyEndDate) || 'Open' }
+    ];
+
+    for (const updated of after) {
+      const original = before.find(d => d.id === updated.id);
+      if (!original) continue;
+
+      for (const field of fields) {
+        const oldValue = field.value(original);
+        const newValue = field.value(updated);
+        if (oldValue !== newValue) {
+          changes.push({ dutyId: updated.id, dutyTitle: original.dutyTitle, field: field.label, before: oldValue, after: newValue });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private toDateInput(value?: string | null): string {
+    return value ? value.slice(0, 10) : '';
+  }
+
+  private withCurrent(options: readonly string[], current?: string): readonly string[] {
+    return current && !options.includes(current) ? [current, ...options] : options;
+  }
+}
@@ -0,0 +1,42 @@
+import { Component, computed, inject, input, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { ApiError } from '../models/api-error.model';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Support reference for a failed request: shows the correlation, trace and
+ * exception ids of an outage so they can be quoted in a support ticket, and
+ * links admins to the trace of the failed action. Renders nothing
+ * for validation, permission and not-found errors, or when the server never
+ * answered.
+ */
+@Component({
+  selector: 'app-error-reference',
+  imports: [RouterLink],
+  templateUrl: './error-reference.html',
+  styleUrl: './error-reference.scss'
+})
+export class ErrorReference {
+  readonly error = input<unknown>(null);
+
+  protected readonly isAdmin = inject(AuthService).isAdmin;
+
+  protected readonly copied = signal(false);
+
+  protected readonly outage = computed(() => {
+    const error = this.error();
+    return error instanceof ApiError && error.isOutage && (error.traceId || error.exceptionId) ? error : null;
+  });
+
+  protected copy(error: ApiError): void {
+    const text = [
+      error.correlationId ? `Correlation ID: ${error.correlationId}` : null,
+      error.traceId ? `Trace ID: ${error.traceId}` : null,
+      error.exceptionId ? `Exception ID: ${error.exceptionId}` : null
+    ].filter(Boolean).join('\n');
+
+    navigator.clipboard.writeText(text).then(() => this.copied.set(true)).catch(err => {
+      console.error('Failed to copy to clipboard:', err);
+    });
+  }
+}
@@ -1,12 +1,13 @@
 import { inject } from '@angular/core';
 import { Router, CanActivateFn, UrlTree } from '@angular/router';
 import { AuthService } from '../services/auth.service';
+import { Role } from '../models/auth.model';
 import { Observable, map, filter, take } from 'rxjs';
 
 /**
  * Guard to protect routes that require authentication
  */
-export const authGuard: CanActivateFn = (): Observable<boolean | UrlTree> => {
+export const authGuard: CanActivateFn = (_route, state): Observable<boolean | UrlTree> => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
@@ -18,39 +19,46 @@ export const authGuard: CanActivateFn = (): Observable<boolean | UrlTree> => {
       if (authService.isAuthenticated()) {
         return true;
       }
-      // Redirect to login if not authenticated
-      return router.createUrlTree(['/login']);
+      // Redirect to login if not authenticated, then come back here
+      return loginUrlTree(router, state.url);
     })
   );
 };
 
 /**
- * Guard to protect routes that require Admin role
+ * Guard factory for routes that require at least one of the given roles.
+ * Unauthenticated users go to login; signed-in users without the role see
+ * the not-authorized page.
  */
-export const adminGuard: CanActivateFn = (): Observable<boolean | UrlTree> => {
+export const roleGuard = (...roles: Role[]): CanActivateFn => (_route, state): Observable<boolean | UrlTree> => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
-  // Wait for initialization to complete before checking admin status
+  // Wait for initialization to complete before checking roles
   return authService.initialized$.pipe(
     filter(initialized => initialized),
     take(1),
     map(() => {
       // First check if user is authenticated
       if (!authService.isAuthenticated()) {
-        return router.createUrlTree(['/login']);
+        return loginUrlTree(router, state.url);
       }
-      
-      // Then check if user is admin
-      if (authService.isAdmin()) {
+
+      // Then check the user holds one of the roles
+      if (authService.hasAnyRole(roles)) {
         return true;
       }
-      // Redirect to home if not admin
-      return router.createUrlTree(['/']);
+      // Signed in but lacking the role
+      return router.createUrlTree(['/not-authorized']);
     })
   );
 };
 
+/**
+ * Guard to protect routes that require Admin role
+ */
+export const adminGuard: CanActivateFn = roleGuard('Admin');
+
 /**
  * Guard to redirect already authenticated users away from login/register
  */
@@ -71,3 +79,10 @@ export const guestGuard: CanActivateFn = (): Observable<boolean | UrlTree> => {
     })
   );
 };
+
+/**
+ * Build the login redirect, carrying the blocked URL as returnUrl
+ */
+function loginUrlTree(router: Router, returnUrl: string): UrlTree {
+  return router.createUrlTree(['/login'], { queryParams: { returnUrl } });
+}
@@ -0,0 +1,115 @@
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { ImportDuties } from './import-duties';
+import { AstronautDutyService } from '../services/astronaut-duty.service';
+import { PersonService } from '../services/person.service';
+import { AstronautDuty, Person } from '../models/person.model';
+
+describe('ImportDuties', () => {
+  const dutyService = {
+    getAstronautDutiesByName: vi.fn(),
+    validateDutyStartDate: AstronautDutyService.prototype.validateDutyStartDate,
+    createAstronautDuty: vi.fn()
+  };
+
+  beforeEach(() => {
+    dutyService.getAstronautDutiesByName.mockReset();
+    TestBed.configureTestingModule({
+      imports: [ImportDuties],
+      providers: [
+        provideRouter([]),
+        { provide: AstronautDutyService, useValue: dutyService },
+        { provide: PersonService, useValue: { getPeople: () => of([{ name: 'Jane Doe' }, { name: 'John Smith' }] as Person[]) } }
+      ]
+    });
+  });
+
+  async function importFile(csv: string) {
+    const component = TestBed.createComponent(ImportDuties).componentInstance;
+    const input = { files: [new File([csv], 'duties.csv', { type: 'text/csv' })], value: '' };
+    await component['onFileSelected']({ target: input } as unknown as Event);
+    return component;
+  }
+
+  it("should check each person's rows in date order against the previous row", async () => {
+    dutyService.getAstronautDutiesByName.mockReturnValue(
+      of<AstronautDuty[]>([{ id: 1, personId: 1, rank: 'Lieutenant', dutyTitle: 'Pilot', dutyStartDate: '2020-01-01' }]));
+
+    const component = await importFile([
+      'Jane Doe,Captain,Pilot,2022-05-01',
+      'Jane Doe,Major,Commander,2021-03-01',
+      'Jane Doe,Major,Engineer,2021-03-01'
+    ].join('\n'));
+
+    const rows = component['rows']();
+    expect(rows.map(r => r.line)).toEqual([2, 3, 1]);
+    expect(rows.map(r => r.valid)).toEqual([true, false, true]);
+    expect(rows[1].message).toContain('must be after the current duty start date');
+  });
+
+  it('should skip the documented header row', async () => {
+    dutyService.getAstronautDutiesByName.mockReturnValue(of([] as AstronautDuty[]));
+
+    const component = await importFile([
+      'name,rank,dutyTitle,dutyStartDate',
+      'Jane Doe,Captain,Pilot,2022-05-01'
+    ].join('\n'));
+
+    expect(component['rows']().map(r => [r.line, r.name])).toEqual([[2, 'Jane Doe']]);
+  });
+
+  it('should keep a first row that only starts with "name" as data', async () => {
+    dutyService.getAstronautDutiesByName.mockReturnValue(of([] as AstronautDuty[]));
+
+    const component = await importFile([
+      'Name,Captain,Pilot,2022-05-01',
+      'Jane Doe,Captain,Pilot,2022-05-01'
+    ].join('\n'));
+
+    const rows = component['rows']();
+    expect(rows.map(r => r.line).sort()).toEqual([1, 2]);
+    expect(rows.find(r => r.line === 1)?.message).toBe('Person does not exist');
+  });
+
+  it('should fail every row of a person whose duty history cannot be loaded and block the import', async () => {
+    dutyService.getAstronautDutiesByName.mockImplementation((name: string) => name === 'John Smith'
+      ? throwError(() => new Error('Server unavailable'))
+      : of([] as AstronautDuty[]));
+
+    const component = await importFile([
+      'John Smith,Captain,Pilot,2022-05-01',
+      'Jane Doe,Captain,Pilot,2022-05-01',
+      'John Smith,Major,Commander,2023-01-01'
+    ].join('\n'));
+
+    const johnRows = component['rows']().filter(r => r.name === 'John Smith');
+    expect(johnRows.every(r => !r.valid && r.message === 'Could not load duty history')).toBe(true);
+    expect(component['validRows']().map(r => r.name)).toEqual(['Jane Doe']);
+    expect(component['historyUnavailable']()).toEqual(['John Smith']);
+
+    component['review']();
+    expect(component['confirming']()).toBe(false);
+  });
+
+  it('should block file selection until the personnel list loads', async () => {
+    const getPeople = vi.fn()
+      .mockReturnValueOnce(throwError(() => new Error('Server unavailable')))
+      .mockReturnValue(of([{ name: 'Jane Doe' }] as Person[]));
+    TestBed.overrideProvider(PersonService, { useValue: { getPeople } });
+    dutyService.getAstronautDutiesByName.mockReturnValue(of([] as AstronautDuty[]));
+
+    const component = await importFile('Jane Doe,Captain,Pilot,2022-05-01');
+
+    expect(component['peopleUnavailable']()).toBe(true);
+    expect(component['error']()).toBe('Failed to load personnel list: Server unavailable');
+    expect(component['rows']()).toEqual([]);
+
+    component['loadAllPeople']();
+    const input = { files: [new File(['Jane Doe,Captain,Pilot,2022-05-01'], 'duties.csv')], value: '' };
+    await component['onFileSelected']({ target: input } as unknown as Event);
+
+    expect(component['peopleUnavailable']()).toBe(false);
+    expect(component['rows']().map(r => r.valid)).toEqual([true]);
+  });
+});
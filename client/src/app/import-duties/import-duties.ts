@@ -0,0 +1,292 @@
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Observable, Subscription, catchError, concatMap, firstValueFrom, forkJoin, from, map, of } from 'rxjs';
+import { AstronautDutyService } from '../services/astronaut-duty.service';
+import { PersonService } from '../services/person.service';
+import { CsvService } from '../services/csv.service';
+import { ExportColumn, ExportService } from '../services/export.service';
+import { AstronautDuty, Person } from '../models/person.model';
+
+// The optional header row, as documented on the page
+const DUTY_CSV_HEADERS = ['name', 'rank', 'dutyTitle', 'dutyStartDate'];
+
+interface DutyImportRow {
+  line: number;
+  name: string;
+  rank: string;
+  dutyTitle: string;
+  dutyStartDate: string;
+  valid: boolean;
+  message: string;
+  result: 'pending' | 'success' | 'failed' | null;
+  error: string | null;
+}
+
+@Component({
+  selector: 'app-import-duties',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './import-duties.html',
+  styleUrl: './import-duties.scss'
+})
+export class ImportDuties {
+  private readonly dutyService = inject(AstronautDutyService);
+  private readonly personService = inject(PersonService);
+  private readonly csvService = inject(CsvService);
+  private readonly exportService = inject(ExportService);
+  private commitSubscription: Subscription | null = null;
+
+  protected readonly allPeople = signal<Person[]>([]);
+  protected readonly loadingPeople = signal<boolean>(true);
+  // Without the personnel list no row can be checked, so file selection stays blocked until it loads
+  protected readonly peopleUnavailable = signal<boolean>(false);
+  protected readonly validating = signal<boolean>(false);
+  protected readonly fileName = signal<string | null>(null);
+  protected readonly rows = signal<DutyImportRow[]>([]);
+  protected readonly error = signal<string | null>(null);
+  protected readonly confirming = signal<boolean>(false);
+  protected readonly committing = signal<boolean>(false);
+  protected readonly completed = signal<boolean>(false);
+
+  // People whose duty history could not be checked; nothing is imported until the file is checked again
+  protected readonly historyUnavailable = signal<string[]>([]);
+
+  protected readonly validRows = computed(() => this.rows().filter(r => r.valid));
+  protected readonly invalidCount = computed(() => this.rows().length - this.validRows().length);
+  protected readonly peopleCount = computed(() => new Set(this.validRows().map(r => r.name)).size);
+  protected readonly processedCount = computed(() =>
+    this.rows().filter(r => r.result === 'success' || r.result === 'failed').length
+  );
+  protected readonly successCount = computed(() => this.rows().filter(r => r.result === 'success').length);
+  protected readonly failedCount = computed(() => this.rows().filter(r => r.result === 'failed').length);
+  protected readonly progressPercent = computed(() => {
+    const total = this.validRows().length;
+    return total === 0 ? 0 : Math.round((this.processedCount() / total) * 100);
+  });
+
+  private readonly reportColumns: ExportColumn<DutyImportRow>[] = [
+    { header: 'line', value: r => r.line },
+    { header: 'name', value: r => r.name },
+    { header: 'rank', value: r => r.rank },
+    { header: 'dutyTitle', value: r => r.dutyTitle },
+    { header: 'dutyStartDate', value: r => r.dutyStartDate },
+    { header: 'result', value: r => r.result ?? (r.valid ? 'not submitted' : 'skipped') },
+    { header: 'message', value: r => r.error ?? r.message }
+  ];
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.commitSubscription?.unsubscribe());
+    this.loadAllPeople();
+  }
+
+  protected loadAllPeople(): void {
+    this.loadingPeople.set(true);
+    this.peopleUnavailable.set(false);
+    this.error.set(null);
+    this.personService.getPeople().subscribe({
+      next: (people: Person[]) => {
+        this.allPeople.set(people);
+        this.loadingPeople.set(false);
+      },
+      error: (err: Error) => {
+        this.error.set(`Failed to load personnel list: ${err.message}`);
+        this.peopleUnavailable.set(true);
+        this.loadingPeople.set(false);
+      }
+    });
+  }
+
+  protected async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file || this.loadingPeople() || this.peopleUnavailable()) return;
+
+    this.error.set(null);
+    this.historyUnavailable.set([]);
+    this.confirming.set(false);
+    this.completed.set(false);
+    this.fileName.set(file.name);
+    this.validating.set(true);
+
+    try {
+      const parsed = this.csvService.parse(await this.csvService.readFile(file));
+      const lines = parsed.map((_, index) => index + 1);
+
+      // Allow an optional header row
+      if (this.csvService.isHeaderRow(parsed[0], DUTY_CSV_HEADERS)) {
+        parsed.shift();
+        lines.shift();
+      }
+
+      if (parsed.length === 0) {
+        this.rows.set([]);
+        this.error.set('The selected file does not contain any duty assignments');
+        return;
+      }
+
+      const rows = parsed.map((cells, index) => this.checkFields(lines[index], cells));
+      this.rows.set(await this.checkDutyDates(rows));
+    } catch (err) {
+      this.rows.set([]);
+      this.error.set((err as Error).message);
+    } finally {
+      this.validating.set(false);
+      // Allow re-selecting the same file after edits
+      input.value = '';
+    }
+  }
+
+  /**
+   * Field-level checks matching the Add Duty form
+   */
+  private checkFields(line: number, cells: string[]): DutyImportRow {
+    const [name = '', rank = '', dutyTitle = '', dutyStartDate = ''] = cells;
+    const row: DutyImportRow = {
+      line, name, rank, dutyTitle, dutyStartDate,
+      valid: false, message: '', result: null, error: null
+    };
+
+    if (!name) {
+      row.message = 'Name is required';
+    } else if (!this.allPeople().some(p => p.name === name)) {
+      row.message = 'Person does not exist';
+    } else if (!rank) {
+      row.message = 'Rank is required';
+    } else if (!dutyTitle) {
+      row.message = 'Duty title is required';
+    } else if (!dutyStartDate) {
+      row.message = 'Start date is required';
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(dutyStartDate)) {
+      row.message = 'Start date must be formatted YYYY-MM-DD';
+    } else {
+      row.valid = true;
+      row.message = 'Ready to submit';
+    }
+
+    return row;
+  }
+
+  /**
+   * Order each person's rows chronologically and check every start date
+   * against the duty that would be current when it is submitted: the
+   * person's open duty for their first row, then the previous row in the file.
+   * A person whose history cannot be loaded has all their rows failed, since
+   * their dates cannot be checked.
+   */
+  private async checkDutyDates(rows: DutyImportRow[]): Promise<DutyImportRow[]> {
+    const names = [...new Set(rows.filter(r => r.valid).map(r => r.name))];
+    const currentStarts = new Map<string, string | undefined>();
+    const unavailable = new Set<string>();
+
+    if (names.length > 0) {
+      const requests: Record<string, Observable<AstronautDuty[] | null>> = {};
+      for (const name of names) {
+        requests[name] = this.dutyService.getAstronautDutiesByName(name).pipe(catchError(() => of(null)));
+      }
+      const dutiesByName = await firstValueFrom(forkJoin(requests));
+      for (const name of names) {
+        const duties = dutiesByName[name];
+        if (duties) {
+          currentStarts.set(name, duties.find(d => !d.dutyEndDate)?.dutyStartDate);
+        } else {
+          unavailable.add(name);
+        }
+      }
+    }
+    this.historyUnavailable.set([...unavailable]);
+
+    const ordered = [...rows].sort((a, b) =>
+      a.name.localeCompare(b.name) || a.dutyStartDate.localeCompare(b.dutyStartDate) || a.line - b.line
+    );
+
+    for (const row of ordered.filter(r => r.valid)) {
+      if (unavailable.has(row.name)) {
+        row.valid = false;
+        row.message = 'Could not load duty history';
+        continue;
+      }
+
+      const dateError = this.dutyService.validateDutyStartDate(row.dutyStartDate, currentStarts.get(row.name));
+      if (dateError) {
+        row.valid = false;
+        row.message = dateError;
+      } else {
+        currentStarts.set(row.name, row.dutyStartDate);
+      }
+    }
+
+    return ordered;
+  }
+
+  protected review(): void {
+    if (this.validRows().length > 0 && this.historyUnavailable().length === 0) {
+      this.confirming.set(true);
+    }
+  }
+
+  protected cancelReview(): void {
+    this.confirming.set(false);
+  }
+
+  protected commit(): void {
+    const pending = this.validRows();
+    if (pending.length === 0 || this.committing() || this.historyUnavailable().length > 0) return;
+
+    this.confirming.set(false);
+    this.committing.set(true);
+    this.rows.update(rows => rows.map(r => r.valid ? { ...r, result: 'pending', error: null } : r));
+
+    // Submit strictly in order so each person's duties are applied chronologically
+    this.commitSubscription = from(pending).pipe(
+      concatMap(row => this.dutyService.createAstronautDuty({
+        name: row.name,
+        rank: row.rank,
+        dutyTitle: row.dutyTitle,
+        dutyStartDate: row.dutyStartDate
+      }).pipe(
+        map(() => ({ line: row.line, error: null as string | null })),
+        catchError((err: Error) => of({ line: row.line, error: err.message || 'Failed to create astronaut duty' }))
+      ))
+    ).subscribe({
+      next: outcome => {
+        this.rows.update(rows => rows.map(r => r.line === outcome.line
+          ? { ...r, result: outcome.error ? 'failed' : 'success', error: outcome.error }
+          : r));
+      },
+      complete: () => {
+        this.committing.set(false);
+        this.completed.set(true);
+      }
+    });
+  }
+
+  protected downloadReport(): void {
+    const base = (this.fileName() ?? 'duties').replace(/\.csv$/i, '');
+    this.exportService.downloadCsv(`${base}-results.csv`, this.rows(), this.reportColumns);
+  }
+
+  protected reset(): void {
+    this.rows.set([]);
+    this.historyUnavailable.set([]);
+    this.fileName.set(null);
+    this.error.set(null);
+    this.completed.set(false);
+  }
+
+  protected getStatusClass(row: DutyImportRow): string {
+    return row.result ?? (row.valid ? 'valid' : 'invalid');
+  }
+
+  protected getStatusLabel(row: DutyImportRow): string {
+    switch (row.result) {
+      case 'pending':
+        return 'Pending';
+      case 'success':
+        return 'Created';
+      case 'failed':
+        return row.error ?? 'Failed';
+      default:
+        return row.message;
+    }
+  }
+}
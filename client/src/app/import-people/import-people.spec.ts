@@ -0,0 +1,40 @@
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { ImportPeople } from './import-people';
+import { PersonService } from '../services/person.service';
+import { Person } from '../models/person.model';
+
+describe('ImportPeople', () => {
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [ImportPeople],
+      providers: [
+        provideRouter([]),
+        { provide: PersonService, useValue: { getPeople: () => of([{ name: 'John Smith' }] as Person[]) } }
+      ]
+    });
+  });
+
+  async function importFile(csv: string) {
+    const component = TestBed.createComponent(ImportPeople).componentInstance;
+    const input = { files: [new File([csv], 'people.csv', { type: 'text/csv' })], value: '' };
+    await component['onFileSelected']({ target: input } as unknown as Event);
+    return component;
+  }
+
+  it('should skip a "name" header row', async () => {
+    const component = await importFile('name\nJane Doe\n');
+
+    expect(component['rows']().map(r => [r.line, r.name])).toEqual([[2, 'Jane Doe']]);
+  });
+
+  it('should import a person called "Name" on the first row', async () => {
+    const component = await importFile('Name\nJane Doe\n');
+
+    expect(component['rows']().map(r => [r.line, r.name, r.status])).toEqual([
+      [1, 'Name', 'valid'],
+      [2, 'Jane Doe', 'valid']
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subscription, catchError, concatMap, from, map, of } from 'rxjs';
+import { PersonService } from '../services/person.service';
+import { CsvService } from '../services/csv.service';
+import { Person } from '../models/person.model';
+
+type ImportRowStatus = 'valid' | 'blank' | 'too-short' | 'duplicate' | 'exists';
+
+interface ImportRow {
+  line: number;
+  name: string;
+  status: ImportRowStatus;
+  message: string;
+  result: 'pending' | 'success' | 'failed' | null;
+  error: string | null;
+}
+
+// The optional header row, as documented on the page
+const PEOPLE_CSV_HEADERS = ['name'];
+
+@Component({
+  selector: 'app-import-people',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './import-people.html',
+  styleUrl: './import-people.scss'
+})
+export class ImportPeople {
+  private readonly personService = inject(PersonService);
+  private readonly csvService = inject(CsvService);
+  private commitSubscription: Subscription | null = null;
+
+  protected readonly existingNames = signal<Set<string>>(new Set());
+  protected readonly loadingPeople = signal<boolean>(true);
+  protected readonly fileName = signal<string | null>(null);
+  protected readonly rows = signal<ImportRow[]>([]);
+  protected readonly error = signal<string | null>(null);
+  protected readonly committing = signal<boolean>(false);
+  protected readonly completed = signal<boolean>(false);
+
+  protected readonly validRows = computed(() => this.rows().filter(r => r.status === 'valid'));
+  protected readonly invalidCount = computed(() => this.rows().length - this.validRows().length);
+  protected readonly processedCount = computed(() =>
+    this.rows().filter(r => r.result === 'success' || r.result === 'failed').length
+  );
+  protected readonly successCount = computed(() => this.rows().filter(r => r.result === 'success').length);
+  protected readonly failedCount = computed(() => this.rows().filter(r => r.result === 'failed').length);
+  protected readonly progressPercent = computed(() => {
+    const total = this.validRows().length;
+    return total === 0 ? 0 : Math.round((this.processedCount() / total) * 100);
+  });
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.commitSubscription?.unsubscribe());
+    this.loadExistingNames();
+  }
+
+  private loadExistingNames(): void {
+    this.loadingPeople.set(true);
+    this.personService.getPeople().subscribe({
+      next: (people: Person[]) => {
+        this.existingNames.set(new Set(people.map(p => p.name.toLowerCase())));
+        this.loadingPeople.set(false);
+        // Re-check a file chosen while the directory was still loading
+        this.rows.update(rows => this.validateNames(rows.map(r => r.name), rows.map(r => r.line)));
+      },
+      error: (err: Error) => {
+        this.error.set(`Failed to load existing personnel: ${err.message}`);
+        this.loadingPeople.set(false);
+      }
+    });
+  }
+
+  protected async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.error.set(null);
+    this.completed.set(false);
+    this.fileName.set(file.name);
+
+    try {
+      const text = await this.csvService.readFile(file);
+      const parsed = this.csvService.parse(text);
+      const lines = parsed.map((_, index) => index + 1);
+
+      // Allow an optional "name" header row
+      if (this.csvService.isHeaderRow(parsed[0], PEOPLE_CSV_HEADERS)) {
+        parsed.shift();
+        lines.shift();
+      }
+
+      if (parsed.length === 0) {
+        this.rows.set([]);
+        this.error.set('The selected file does not contain any names');
+        return;
+      }
+
+      this.rows.set(this.validateNames(parsed.map(cells => cells[0] ?? ''), lines));
+    } catch (err) {
+      this.rows.set([]);
+      this.error.set((err as Error).message);
+    } finally {
+      // Allow re-selecting the same file after edits
+      input.value = '';
+    }
+  }
+
+  /**
+   * Apply the same rules as the Add Person form, plus duplicate checks
+   * within the file and against the existing directory
+   */
+  private validateNames(names: string[], lines: number[]): ImportRow[] {
+    const seen = new Set<string>();
+    const existing = this.existingNames();
+
+    return names.map((rawName, index) => {
+      const name = rawName.trim();
+      const key = name.toLowerCase();
+      let status: ImportRowStatus = 'valid';
+      let message = 'Ready to import';
+
+      if (!name) {
+        status = 'blank';
+        message = 'Name is required';
+      } else if (name.length < 2) {
+        status = 'too-short';
+        message = 'Name must be at least 2 characters';
+      } else if (seen.has(key)) {
+        status = 'duplicate';
+        message = 'Duplicate of an earlier row in this file';
+      } else if (existing.has(key)) {
+        status = 'exists';
+        message = 'A person with this name already exists';
+      }
+
+      if (name) {
+        seen.add(key);
+      }
+
+      return { line: lines[index], name, status, message, result: null, error: null };
+    });
+  }
+
+  protected commit(): void {
+    const pending = this.validRows();
+    if (pending.length === 0 || this.committing()) return;
+
+    this.committing.set(true);
+    this.completed.set(false);
+    this.rows.update(rows => rows.map(r => r.status === 'valid' ? { ...r, result: 'pending', error: null } : r));
+
+    // Submit one at a time so the progress bar and report follow file order
+    this.commitSubscription = from(pending).pipe(
+      concatMap(row => this.personService.createPerson(row.name).pipe(
+        map(() => ({ line: row.line, error: null as string | null })),
+        catchError((err: Error) => of({ line: row.line, error: err.message || 'Failed to create person' }))
+      ))
+    ).subscribe({
+      next: outcome => {
+        this.rows.update(rows => rows.map(r => r.line === outcome.line
+          ? { ...r, result: outcome.error ? 'failed' : 'success', error: outcome.error }
+          : r));
+      },
+      complete: () => {
+        this.committing.set(false);
+        this.completed.set(true);
+      }
+    });
+  }
+
+  protected reset(): void {
+    this.rows.set([]);
+    this.fileName.set(null);
+    this.error.set(null);
+    this.completed.set(false);
+    this.loadExistingNames();
+  }
+
+  protected getResultLabel(row: ImportRow): string {
+    switch (row.result) {
+      case 'pending':
+        return 'Pending';
+      case 'success':
+        return 'Created';
+      case 'failed':
+        return row.error ?? 'Failed';
+      default:
+        return row.message;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { authInterceptor } from './auth.interceptor';
+import { BACKGROUND_REQUEST, FORBIDDEN_PAGE } from './request-context';
+import { AuthService } from '../services/auth.service';
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+  let navigate: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: { getToken: () => 'token', getRefreshToken: () => null, expireSession: vi.fn() } }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+    navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  const refuse = (url: string) =>
+    httpTesting.expectOne(url).flush(null, { status: 403, statusText: 'Forbidden' });
+
+  it('should show the not-authorized page when a page load is refused', () => {
+    http.get('/api/UserAdmin').subscribe({ error: () => {} });
+
+    refuse('/api/UserAdmin');
+
+    expect(navigate).toHaveBeenCalledWith(['/not-authorized'], { skipLocationChange: true });
+  });
+
+  it('should leave a refused write to the page to report', () => {
+    let status: number | undefined;
+    http.post('/api/AstronautDuty', {}).subscribe({ error: err => status = err.status });
+
+    refuse('/api/AstronautDuty');
+
+    expect(status).toBe(403);
+    expect(navigate).not.toHaveBeenCalled();
+  });
+
+  it('should not leave the page for background or opted-out reads', () => {
+    http.get('/api/Health/status', { context: new HttpContext().set(BACKGROUND_REQUEST, true) }).subscribe({ error: () => {} });
+    http.get('/api/Alert/rules', { context: new HttpContext().set(FORBIDDEN_PAGE, false) }).subscribe({ error: () => {} });
+
+    refuse('/api/Health/status');
+    refuse('/api/Alert/rules');
+
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
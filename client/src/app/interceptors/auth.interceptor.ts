@@ -1,23 +1,79 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { catchError, switchMap, throwError } from 'rxjs';
 import { AuthService } from '../services/auth.service';
+import { BACKGROUND_REQUEST, FORBIDDEN_PAGE } from './request-context';
+
+// Auth endpoints answer 401 for bad credentials, not for an expired session
+const SESSION_ENDPOINTS = ['/api/Auth/login', '/api/Auth/register', '/api/Auth/refresh', '/api/Auth/logout', '/api/Auth/sso'];
 
 /**
- * HTTP interceptor to attach JWT token to all requests
+ * HTTP interceptor to attach JWT token to all requests.
+ * A 401 triggers one token refresh and a single retry of the request; when
+ * there is no refresh token or the refresh fails the session is cleared and
+ * the user is sent to login with a return URL. A 403 on a page load shows
+ * the not-authorized page; any other 403 is left to the caller to report
+ * inline.
  */
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   const authService = inject(AuthService);
-  const token = authService.getToken();
+  const router = inject(Router);
 
-  // If we have a token, clone the request and add the Authorization header
-  if (token) {
-    const clonedRequest = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`
-      }
-    });
-    return next(clonedRequest);
+  if (SESSION_ENDPOINTS.some(endpoint => req.url.startsWith(endpoint))) {
+    return next(req);
   }
 
-  return next(req);
+  const forbidden = (error: unknown) => {
+    if (error instanceof HttpErrorResponse && error.status === 403 && isPageLoad(req)) {
+      // Keep the address bar on the page that was refused
+      router.navigate(['/not-authorized'], { skipLocationChange: true });
+    }
+    return throwError(() => error);
+  };
+
+  return next(withToken(req, authService.getToken())).pipe(
+    catchError((error: unknown) => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+        return forbidden(error);
+      }
+
+      if (!authService.getRefreshToken()) {
+        authService.expireSession();
+        return throwError(() => error);
+      }
+
+      return authService.refreshSession().pipe(
+        catchError(() => {
+          authService.expireSession();
+          return throwError(() => error);
+        }),
+        // The retry goes straight to the next handler, so it is never refreshed again
+        switchMap(token => next(withToken(req, token)).pipe(catchError(forbidden)))
+      );
+    })
+  );
 };
+
+/**
+ * Whether a request loads the page itself: a read the user is waiting on
+ * that has not opted out of the not-authorized page
+ */
+function isPageLoad(req: HttpRequest<unknown>): boolean {
+  return req.method === 'GET' && !req.context.get(BACKGROUND_REQUEST) && req.context.get(FORBIDDEN_PAGE);
+}
+
+/**
+ * Clone the request with an Authorization header when a token is available
+ */
+function withToken<T>(req: HttpRequest<T>, token: string | null): HttpRequest<T> {
+  if (!token) {
+    return req;
+  }
+
+  return req.clone({
+    setHeaders: {
+      Authorization: `Bearer ${token}`
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { correlationInterceptor } from './correlation.interceptor';
+import { BACKGROUND_REQUEST } from './request-context';
+import { CORRELATION_HEADER } from '../services/correlation.service';
+
+describe('correlationInterceptor', () => {
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([correlationInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('should give the requests of one user action the same id', () => {
+    http.get('/api/Person').subscribe();
+    http.get('/api/AstronautDuty/1').subscribe();
+
+    const [people, duties] = [httpTesting.expectOne('/api/Person'), httpTesting.expectOne('/api/AstronautDuty/1')];
+
+    expect(duties.request.headers.get(CORRELATION_HEADER)).toBe(people.request.headers.get(CORRELATION_HEADER));
+    people.flush([]);
+    duties.flush([]);
+  });
+
+  it('should give a background request its own id', () => {
+    const context = new HttpContext().set(BACKGROUND_REQUEST, true);
+    http.get('/api/Person').subscribe();
+    http.get('/api/Health/live', { context }).subscribe();
+
+    const [people, ping] = [httpTesting.expectOne('/api/Person'), httpTesting.expectOne('/api/Health/live')];
+
+    expect(ping.request.headers.get(CORRELATION_HEADER)).toBeTruthy();
+    expect(ping.request.headers.get(CORRELATION_HEADER)).not.toBe(people.request.headers.get(CORRELATION_HEADER));
+    people.flush([]);
+    ping.flush({});
+  });
+});
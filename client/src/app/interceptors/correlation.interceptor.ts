@@ -0,0 +1,20 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { CORRELATION_HEADER, CorrelationService } from '../services/correlation.service';
+import { BACKGROUND_REQUEST } from './request-context';
+
+/**
+ * HTTP interceptor that tags each request with the correlation id of the
+ * user action that made it. Registered first so retries reuse the id and
+ * the error interceptor can quote it. Background requests get an id of
+ * their own.
+ */
+export const correlationInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.headers.has(CORRELATION_HEADER)) {
+    return next(req);
+  }
+
+  const correlation = inject(CorrelationService);
+  const correlationId = req.context.get(BACKGROUND_REQUEST) ? correlation.backgroundId() : correlation.currentId();
+  return next(req.clone({ setHeaders: { [CORRELATION_HEADER]: correlationId } }));
+};
@@ -0,0 +1,27 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { catchError, throwError } from 'rxjs';
+import { ApiError } from '../models/api-error.model';
+import { CORRELATION_HEADER } from '../services/correlation.service';
+
+/**
+ * HTTP interceptor that turns every failed response into an `ApiError`, so
+ * services and components get one typed error with the kind, status, field
+ * errors and trace ids instead of parsing response bodies themselves.
+ * Registered before the auth interceptor so session handling still sees the
+ * raw 401/403 responses.
+ */
+export const errorInterceptor: HttpInterceptorFn = (req, next) => {
+  return next(req).pipe(
+    catchError((error: unknown) => {
+      if (!(error instanceof HttpErrorResponse)) {
+        return throwError(() => error);
+      }
+
+      const apiError = ApiError.fromResponse(error, req.headers.get(CORRELATION_HEADER));
+      if (apiError.isOutage) {
+        console.error('API Error:', apiError.message, apiError.traceId ?? '');
+      }
+      return throwError(() => apiError);
+    })
+  );
+};
@@ -0,0 +1,20 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Set to false on a request's context to fail fast instead of retrying
+ * transient failures (see the retry interceptor)
+ */
+export const RETRY_REQUEST = new HttpContextToken<boolean>(() => true);
+
+/**
+ * Set to true on requests the app makes by itself (timers, polling, resyncs)
+ * so they get their own correlation id rather than the last user action's
+ */
+export const BACKGROUND_REQUEST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Set to false on a read that is not the page's own data (a side panel, a
+ * list reloaded on demand) so a 403 fails inline instead of showing the
+ * not-authorized page. Writes and background requests never show it.
+ */
+export const FORBIDDEN_PAGE = new HttpContextToken<boolean>(() => true);
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { retryDelay, retryInterceptor } from './retry.interceptor';
+import { ConnectivityService } from '../services/connectivity.service';
+
+describe('retryInterceptor', () => {
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+  const connectivity = { reportUnreachable: vi.fn() };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+        { provide: ConnectivityService, useValue: connectivity }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+    vi.useRealTimers();
+  });
+
+  it('should retry a GET after a transient failure', async () => {
+    let result: unknown;
+    http.get('/api/Person').subscribe(value => result = value);
+
+    httpTesting.expectOne('/api/Person').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    await vi.advanceTimersByTimeAsync(retryDelay(1, () => 1));
+    httpTesting.expectOne('/api/Person').flush({ people: [] });
+
+    expect(result).toEqual({ people: [] });
+  });
+
+  it('should never retry a POST', () => {
+    let status: number | undefined;
+    http.post('/api/AstronautDuty', {}).subscribe({ error: err => status = err.status });
+
+    httpTesting.expectOne('/api/AstronautDuty').error(new ProgressEvent('error'), { status: 0 });
+
+    expect(status).toBe(0);
+    expect(connectivity.reportUnreachable).toHaveBeenCalled();
+  });
+
+  it('should back off exponentially with jitter up to a cap', () => {
+    expect(retryDelay(1, () => 0)).toBe(250);
+    expect(retryDelay(1, () => 1)).toBe(500);
+    expect(retryDelay(3, () => 0.5)).toBe(1500);
+    expect(retryDelay(10, () => 1)).toBe(8000);
+  });
+});
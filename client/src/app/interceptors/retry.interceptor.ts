@@ -0,0 +1,71 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, retry, throwError, timer } from 'rxjs';
+import { ConnectivityService } from '../services/connectivity.service';
+import { RETRY_REQUEST } from './request-context';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Only safe reads are retried; a POST that timed out may still have been saved
+const RETRY_METHODS = ['GET', 'HEAD'];
+
+// No response, or a proxy/server answering that it is temporarily unavailable
+const TRANSIENT_STATUSES = [0, 408, 429, 502, 503, 504];
+
+// Statuses that mean the API itself could not be reached
+const UNREACHABLE_STATUSES = [0, 502, 504];
+
+/**
+ * HTTP interceptor that retries GET requests after transient failures with
+ * exponential backoff and jitter, honouring Retry-After. Other methods are
+ * never retried. Requests that still cannot reach the server are reported
+ * to the ConnectivityService so the offline banner can check the API.
+ * Registered before the auth interceptor so every retry gets a fresh token.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const connectivity = inject(ConnectivityService);
+  const retryable = RETRY_METHODS.includes(req.method) && req.context.get(RETRY_REQUEST);
+
+  return next(req).pipe(
+    retry({
+      count: retryable ? MAX_RETRIES : 0,
+      delay: (error: unknown, retryCount: number) => {
+        // Retrying cannot help while the device itself is offline
+        if (!isTransient(error) || !navigator.onLine) {
+          return throwError(() => error);
+        }
+        return timer(retryAfterMs(error) ?? retryDelay(retryCount));
+      }
+    }),
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse && UNREACHABLE_STATUSES.includes(error.status)) {
+        connectivity.reportUnreachable();
+      }
+      return throwError(() => error);
+    })
+  );
+};
+
+/**
+ * Delay before the given retry (1-based): the ceiling doubles each attempt
+ * up to MAX_DELAY_MS, and half of it is random so clients that failed
+ * together do not all retry together
+ */
+export function retryDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return ceiling / 2 + random() * (ceiling / 2);
+}
+
+function isTransient(error: unknown): error is HttpErrorResponse {
+  return error instanceof HttpErrorResponse && TRANSIENT_STATUSES.includes(error.status);
+}
+
+/**
+ * Retry-After in seconds, capped so a long value does not stall the page
+ */
+function retryAfterMs(error: HttpErrorResponse): number | null {
+  const seconds = Number(error.headers?.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds * 1000, MAX_DELAY_MS) : null;
+}
@@ -0,0 +1,16 @@
+import { linePath, niceCeiling } from './line-chart';
+
+describe('LineChart helpers', () => {
+  it('should round axis maximums up to a round number', () => {
+    expect(niceCeiling(0)).toBe(1);
+    expect(niceCeiling(7)).toBe(10);
+    expect(niceCeiling(180)).toBe(200);
+    expect(niceCeiling(0.23)).toBe(0.25);
+  });
+
+  it('should break the line where values are missing', () => {
+    const path = linePath([{ x: 0, y: 10 }, { x: 5, y: 20 }, null, { x: 15, y: 5 }]);
+
+    expect(path).toBe('M0.0,10.0L5.0,20.0M15.0,5.0');
+  });
+});
@@ -0,0 +1,192 @@
+import { Component, computed, input, signal } from '@angular/core';
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  /** One value per timestamp; null leaves a gap in the line */
+  values: (number | null)[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const Y_TICKS = 4;
+const X_TICKS = 6;
+
+/**
+ * Smallest 1, 2, 2.5 or 5 times a power of ten at or above the value, so
+ * axis ticks land on round numbers
+ */
+export function niceCeiling(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+/**
+ * SVG path through the points, starting a new segment after each null
+ */
+export function linePath(points: ({ x: number; y: number } | null)[]): string {
+  let path = '';
+  let drawing = false;
+  for (const point of points) {
+    if (!point) {
+      drawing = false;
+      continue;
+    }
+    path += `${drawing ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+    drawing = true;
+  }
+  return path;
+}
+
+/**
+ * Line chart over a shared time axis, drawn as SVG. Hovering, or focusing the
+ * chart and using the arrow keys, moves a cursor that reads out every visible
+ * series at that time; the legend toggles series on and off.
+ */
+@Component({
+  selector: 'app-line-chart',
+  templateUrl: './line-chart.html',
+  styleUrl: './line-chart.scss'
+})
+export class LineChart {
+  readonly label = input.required<string>();
+  readonly timestamps = input.required<string[]>();
+  readonly series = input.required<ChartSeries[]>();
+  readonly formatValue = input<(value: number) => string>(value => `${value}`);
+
+  protected readonly width = WIDTH;
+  protected readonly height = HEIGHT;
+  protected readonly padding = PADDING;
+
+  protected readonly hidden = signal<ReadonlySet<string>>(new Set());
+  protected readonly activeIndex = signal<number | null>(null);
+
+  protected readonly visibleSeries = computed(() =>
+    this.series().filter(s => !this.hidden().has(s.name))
+  );
+
+  private readonly spansDays = computed(() => {
+    const timestamps = this.timestamps();
+    const span = timestamps.length > 1
+      ? new Date(timestamps[timestamps.length - 1]).getTime() - new Date(timestamps[0]).getTime()
+      : 0;
+    return span > 24 * 60 * 60 * 1000;
+  });
+
+  private readonly yMax = computed(() => {
+    const values = this.visibleSeries().flatMap(s => s.values).filter((v): v is number => v !== null);
+    return niceCeiling(Math.max(0, ...values));
+  });
+
+  protected readonly yTicks = computed(() =>
+    Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+      const value = (this.yMax() / Y_TICKS) * i;
+      return { y: this.y(value), label: this.formatValue()(value) };
+    })
+  );
+
+  protected readonly xTicks = computed(() => {
+    const count = this.timestamps().length;
+    if (count === 0) return [];
+    const step = Math.max(1, Math.ceil((count - 1) / (X_TICKS - 1)));
+    const indices: number[] = [];
+    for (let i = 0; i < count; i += step) indices.push(i);
+    return indices.map(i => ({ x: this.x(i), label: this.formatTime(this.timestamps()[i]) }));
+  });
+
+  protected readonly lines = computed(() =>
+    this.visibleSeries().map(s => ({
+      name: s.name,
+      color: s.color,
+      path: linePath(s.values.map((v, i) => (v === null ? null : { x: this.x(i), y: this.y(v) })))
+    }))
+  );
+
+  protected readonly cursor = computed(() => {
+    const index = this.activeIndex();
+    if (index === null || index >= this.timestamps().length) return null;
+
+    return {
+      x: this.x(index),
+      leftPercent: (this.x(index) / WIDTH) * 100,
+      time: this.formatTime(this.timestamps()[index]),
+      values: this.visibleSeries().map(s => {
+        const value = s.values[index];
+        return {
+          name: s.name,
+          color: s.color,
+          y: value === null ? null : this.y(value),
+          text: value === null ? 'no data' : this.formatValue()(value)
+        };
+      })
+    };
+  });
+
+  protected toggleSeries(name: string): void {
+    this.hidden.update(hidden => {
+      const next = new Set(hidden);
+      if (!next.delete(name)) next.add(name);
+      return next;
+    });
+  }
+
+  protected onPointerMove(event: MouseEvent, svg: Element): void {
+    const count = this.timestamps().length;
+    if (count === 0) return;
+
+    const rect = svg.getBoundingClientRect();
+    const viewX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(((viewX - PADDING.left) / PLOT_WIDTH) * (count - 1));
+    this.activeIndex.set(Math.min(count - 1, Math.max(0, index)));
+  }
+
+  protected onKeydown(event: KeyboardEvent): void {
+    const last = this.timestamps().length - 1;
+    if (last < 0) return;
+
+    const current = this.activeIndex();
+    let next: number | null;
+    switch (event.key) {
+      case 'ArrowLeft':
+        next = current === null ? last : Math.max(0, current - 1);
+        break;
+      case 'ArrowRight':
+        next = current === null ? 0 : Math.min(last, current + 1);
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = last;
+        break;
+      case 'Escape':
+        next = null;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.activeIndex.set(next);
+  }
+
+  private x(index: number): number {
+    const count = this.timestamps().length;
+    return PADDING.left + (count > 1 ? (index / (count - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  }
+
+  private y(value: number): number {
+    return PADDING.top + PLOT_HEIGHT - (value / this.yMax()) * PLOT_HEIGHT;
+  }
+
+  private formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleString('en-US', this.spansDays()
+      ? { month: 'short', day: 'numeric', hour: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' });
+  }
+}
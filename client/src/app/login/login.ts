@@ -1,9 +1,10 @@
 import { Component, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Router, RouterLink } from '@angular/router';
+import { ActivatedRoute, RouterLink } from '@angular/router';
 import { AuthService } from '../services/auth.service';
-import { LoginRequest } from '../models/auth.model';
+import { LoginRequest, SsoConfig } from '../models/auth.model';
+import { ApiError } from '../models/api-error.model';
 
 @Component({
   selector: 'app-login',
@@ -16,11 +17,50 @@ export class LoginComponent {
   password = signal('');
   loading = signal(false);
   error = signal<string | null>(null);
+  notice = signal<string | null>(null);
+  ssoConfig = signal<SsoConfig | null>(null);
+  ssoUnavailable = signal(false);
+  ssoRedirecting = signal(false);
+
+  private readonly returnUrl: string | null;
 
   constructor(
     private authService: AuthService,
-    private router: Router
-  ) {}
+    route: ActivatedRoute
+  ) {
+    this.returnUrl = this.authService.toSafeReturnUrl(route.snapshot.queryParamMap.get('returnUrl'));
+
+    // Explain why the user landed here after a session ended
+    const reason = route.snapshot.queryParamMap.get('reason');
+    if (reason === 'idle') {
+      this.notice.set('You were signed out after a period of inactivity. Please sign in again.');
+    } else if (reason === 'expired') {
+      this.notice.set('Your session has expired. Please sign in again.');
+    }
+
+    // Offer single sign-on when an identity provider is configured
+    this.authService.getSsoConfig().subscribe({
+      next: config => this.ssoConfig.set(config.enabled ? config : null),
+      error: (err: ApiError) => this.ssoUnavailable.set(err.status === 503)
+    });
+  }
+
+  async signInWithSso(): Promise<void> {
+    const config = this.ssoConfig();
+    if (!config) {
+      return;
+    }
+
+    this.ssoRedirecting.set(true);
+    this.error.set(null);
+
+    try {
+      await this.authService.beginSsoLogin(config, this.returnUrl);
+    } catch {
+      this.ssoRedirecting.set(false);
+      this.error.set('Single sign-on could not be started. Please try again.');
+    }
+  }
 
   onSubmit(): void {
     if (!this.email() || !this.password()) {
@@ -39,16 +79,11 @@ export class LoginComponent {
     this.authService.login(request).subscribe({
       next: () => {
         this.loading.set(false);
-        // Navigate based on role
-        if (this.authService.isAdmin()) {
-          this.router.navigate(['/admin']);
-        } else {
-          this.router.navigate(['/people']);
-        }
+        this.authService.navigateAfterSignIn(this.returnUrl);
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         this.loading.set(false);
-        this.error.set(err.error?.message || 'Login failed. Please try again.');
+        this.error.set(err.message || 'Login failed. Please try again.');
       }
     });
   }
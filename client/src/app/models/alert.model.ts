@@ -0,0 +1,46 @@
+export type AlertRuleKind = 'ComponentUnhealthy' | 'ExceptionCount' | 'LatencyP95';
+
+export type AlertIncidentStatus = 'Open' | 'Acknowledged' | 'Resolved';
+
+/**
+ * A condition the API checks every 30 seconds. `target` narrows the rule to
+ * one component, exception type or path; `threshold` is the exception count
+ * or p95 latency (ms) that must be exceeded, and is unused for component
+ * health, where `windowMinutes` is how long the component must stay Unhealthy.
+ */
+export interface AlertRule {
+  id: number;
+  name: string;
+  kind: AlertRuleKind;
+  target: string | null;
+  threshold: number;
+  windowMinutes: number;
+  webhookUrl: string | null;
+  enabled: boolean;
+  createdByEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleRequest = Pick<AlertRule, 'name' | 'kind' | 'target' | 'threshold' | 'windowMinutes' | 'webhookUrl' | 'enabled'>;
+
+/**
+ * One firing of a rule for a subject (the component, exception type or path
+ * that breached it). `resolvedByEmail` is empty when the condition cleared
+ * by itself.
+ */
+export interface AlertIncident {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  kind: AlertRuleKind;
+  subject: string;
+  status: AlertIncidentStatus;
+  message: string;
+  value: number;
+  triggeredAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedByEmail: string | null;
+  resolvedAt: string | null;
+  resolvedByEmail: string | null;
+}
@@ -0,0 +1,55 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { ApiError } from './api-error.model';
+
+describe('ApiError', () => {
+  it('should map field errors from a validation response to camelCase fields', () => {
+    const error = ApiError.fromResponse(new HttpErrorResponse({
+      status: 400,
+      error: {
+        message: 'The new duty start date must be after the current duty starts.',
+        errors: { DutyStartDate: ['The new duty start date must be after the current duty starts.'] },
+        traceId: '0HN1:00000001'
+      }
+    }));
+
+    expect(error.kind).toBe('validation');
+    expect(error.fieldError('dutyStartDate')).toBe('The new duty start date must be after the current duty starts.');
+    expect(error.isOutage).toBe(false);
+  });
+
+  it('should keep the trace and exception ids of a server failure', () => {
+    const error = ApiError.fromResponse(new HttpErrorResponse({
+      status: 500,
+      error: { message: 'An unexpected error occurred.', exceptionId: 'abc123', traceId: '0HN1:00000002' }
+    }));
+
+    expect(error.kind).toBe('server');
+    expect(error.isOutage).toBe(true);
+    expect(error.exceptionId).toBe('abc123');
+    expect(error.traceId).toBe('0HN1:00000002');
+    expect(error.message).toBe('An unexpected error occurred.');
+  });
+
+  it('should join Identity error lists and fall back to a message by kind', () => {
+    const identity = ApiError.fromResponse(new HttpErrorResponse({
+      status: 400,
+      error: { errors: ['Passwords must have at least one digit.', 'Passwords must be at least 8 characters.'] }
+    }));
+    const offline = ApiError.fromResponse(new HttpErrorResponse({ status: 0 }));
+
+    expect(identity.message).toBe('Passwords must have at least one digit., Passwords must be at least 8 characters.');
+    expect(offline.kind).toBe('network');
+    expect(offline.message).toContain('Unable to reach the server');
+  });
+
+  it('should prefer the correlation id the server echoed over the one sent', () => {
+    const echoed = ApiError.fromResponse(new HttpErrorResponse({
+      status: 500,
+      headers: new HttpHeaders({ 'X-Correlation-ID': 'from-server' })
+    }), 'from-request');
+    const sent = ApiError.fromResponse(new HttpErrorResponse({ status: 0 }), 'from-request');
+
+    expect(echoed.correlationId).toBe('from-server');
+    expect(sent.correlationId).toBe('from-request');
+  });
+});
@@ -0,0 +1,135 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+/**
+ * Messages keyed by request field, with camelCase keys matching the client
+ * models (e.g. `dutyStartDate`)
+ */
+export type FieldErrors = Record<string, string[]>;
+
+const FALLBACK_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Check your connection and try again.',
+  validation: 'The request was rejected. Check the highlighted fields and try again.',
+  unauthorized: 'Please sign in to continue.',
+  forbidden: 'You do not have permission to do that.',
+  'not-found': 'The requested record was not found.',
+  conflict: 'The change conflicts with existing records.',
+  server: 'The server could not complete the request. Please try again later.',
+  unknown: 'An unknown error occurred'
+};
+
+/**
+ * A failed API call. Produced by the error interceptor from every error
+ * shape the API returns: `BaseResponse` and exception payloads
+ * (`message`, `exceptionId`, `traceId`, `errors` by field), ASP.NET
+ * validation problem details (`title`, `errors` by field, `traceId`) and
+ * Identity results (`errors` as a list of messages). The correlation id
+ * names the user action behind the request, for the admin trace view.
+ */
+export class ApiError extends Error {
+  override readonly name = 'ApiError';
+
+  constructor(
+    readonly kind: ApiErrorKind,
+    readonly status: number,
+    message: string,
+    readonly fieldErrors: FieldErrors = {},
+    readonly traceId: string | null = null,
+    readonly exceptionId: string | null = null,
+    readonly body: unknown = null,
+    readonly correlationId: string | null = null
+  ) {
+    super(message);
+  }
+
+  /**
+   * The API could not be reached or failed on its side; worth quoting the
+   * trace id in a support ticket
+   */
+  get isOutage(): boolean {
+    return this.kind === 'network' || this.kind === 'server';
+  }
+
+  /**
+   * First message the server gave for a field, or null
+   */
+  fieldError(field: string): string | null {
+    return this.fieldErrors[field]?.[0] ?? null;
+  }
+
+  /**
+   * The correlation id the server echoed, else the one the request was sent with
+   */
+  static fromResponse(response: HttpErrorResponse, requestCorrelationId: string | null = null): ApiError {
+    const kind = kindOf(response.status);
+    const body = response.error instanceof ErrorEvent ? null : response.error;
+    const payload = isRecord(body) ? body : {};
+
+    const fieldErrors: FieldErrors = {};
+    let messages: string[] = [];
+
+    if (Array.isArray(payload['errors'])) {
+      messages = payload['errors'].map(String);
+    } else if (isRecord(payload['errors'])) {
+      for (const [key, value] of Object.entries(payload['errors'])) {
+        fieldErrors[toFieldName(key)] = Array.isArray(value) ? value.map(String) : [String(value)];
+      }
+    }
+
+    const message = messages.length > 0
+      ? messages.join(', ')
+      : stringOrNull(payload['message'])
+        ?? Object.values(fieldErrors)[0]?.[0]
+        ?? stringOrNull(payload['title'])
+        ?? (typeof body === 'string' && body.trim() ? body : null)
+        ?? FALLBACK_MESSAGES[kind];
+
+    return new ApiError(
+      kind,
+      response.status,
+      message,
+      fieldErrors,
+      stringOrNull(payload['traceId']),
+      stringOrNull(payload['exceptionId']),
+      body ?? null,
+      response.headers?.get('X-Correlation-ID') ?? requestCorrelationId
+    );
+  }
+}
+
+function kindOf(status: number): ApiErrorKind {
+  if (status === 0) return 'network';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status === 409) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+/**
+ * Model state keys arrive as property names ("DutyStartDate") or JSON paths
+ * ("$.dutyStartDate")
+ */
+function toFieldName(key: string): string {
+  const name = key.replace(/^\$\.?/, '');
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
@@ -1,3 +1,10 @@
+export type Role = 'Viewer' | 'Editor' | 'Admin';
+
+/**
+ * Roles allowed to create and change people and duties
+ */
+export const EDITOR_ROLES: readonly Role[] = ['Editor', 'Admin'];
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -16,6 +23,44 @@ export interface AuthResponse {
   firstName?: string;
   lastName?: string;
   roles: string[];
+  expiresAt?: string;
+  refreshToken?: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface SsoConfig {
+  enabled: boolean;
+  displayName?: string;
+  authorizationEndpoint?: string;
+  clientId?: string;
+  scope?: string;
+}
+
+export interface SsoCallbackRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+export interface UpdateProfileRequest {
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface SignInHistoryEntry {
+  signedInAt: string;
+  succeeded: boolean;
+  ipAddress?: string | null;
+  userAgent?: string | null;
 }
 
 export interface UserInfo {
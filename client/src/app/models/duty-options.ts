@@ -0,0 +1,36 @@
+/**
+ * Ranks offered when assigning or correcting an astronaut duty
+ */
+export const DUTY_RANKS: readonly string[] = [
+  'O-1 Second Lieutenant',
+  'O-2 First Lieutenant',
+  'O-3 Captain',
+  'O-4 Major',
+  'O-5 Lieutenant Colonel',
+  'O-6 Colonel',
+  'O-7 Brigadier General',
+  'O-8 Major General',
+  'O-9 Lieutenant General',
+  'O-10 General'
+];
+
+/**
+ * Duty titles offered when assigning or correcting an astronaut duty
+ */
+export const DUTY_TITLES: readonly string[] = [
+  'Mission Specialist',
+  'Pilot',
+  'Commander',
+  'Flight Engineer',
+  'Science Officer',
+  'Medical Officer',
+  'Communications Officer',
+  'Navigation Officer',
+  'Security Officer'
+];
+
+/**
+ * Duty title the API treats as retirement. Retiring is its own action on the
+ * person detail page rather than an option in the duty title list.
+ */
+export const RETIRED_DUTY_TITLE = 'RETIRED';
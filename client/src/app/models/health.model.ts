@@ -1,3 +1,5 @@
+import { PersonHistoryChange } from './person.model';
+
 export interface HealthCheckResponse {
   status: string;
   timestamp: string;
@@ -31,6 +33,8 @@ export interface ExceptionResponse {
 export interface ExceptionLogEntry {
   exceptionId: string;
   requestId: string;
+  /** The user action the request belonged to */
+  correlationId?: string | null;
   method: string;
   path: string;
   queryString: string;
@@ -71,6 +75,8 @@ export interface ExceptionsListResponse {
 
 export interface RequestLogEntry {
   requestId: string;
+  /** The user action the request belonged to */
+  correlationId?: string | null;
   method: string;
   path: string;
   queryString: string;
@@ -79,6 +85,29 @@ export interface RequestLogEntry {
   timestampUtc: string;
   userAgent: string | null;
   remoteIp: string | null;
+  /** Set when the request failed with a logged exception */
+  exceptionId: string | null;
+}
+
+/**
+ * Log explorer filters; empty values are left out of the request. Without
+ * `from`, the lists cover the `hours` passed alongside. Duration applies to
+ * requests only, exception type to exceptions only, and free-text search
+ * covers exception messages or request paths.
+ */
+export interface LogFilters {
+  from?: string;
+  to?: string;
+  method?: string;
+  path?: string;
+  statusFrom?: number;
+  statusTo?: number;
+  minDurationMs?: number;
+  exceptionType?: string;
+  userAgent?: string;
+  remoteIp?: string;
+  requestId?: string;
+  search?: string;
 }
 
 export interface EndpointStat {
@@ -103,6 +132,34 @@ export interface RequestStatsResponse {
   data: EndpointStat[];
 }
 
+/**
+ * One time bucket of requests; latency percentiles are null for empty buckets
+ * and error rates are fractions of the bucket's requests
+ */
+export interface RequestTimeBucket {
+  timestamp: string;
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  clientErrorRate: number;
+  serverErrorRate: number;
+}
+
+export interface RequestTimeSeries {
+  /** null for all requests combined */
+  path: string | null;
+  buckets: RequestTimeBucket[];
+}
+
+export interface RequestTimeSeriesResponse {
+  enabled: boolean;
+  hours: number;
+  intervalMinutes: number;
+  timestamp: string;
+  series: RequestTimeSeries[];
+}
+
 export interface RequestsListResponse {
   enabled: boolean;
   data: RequestLogEntry[];
@@ -113,3 +170,49 @@ export interface RequestsListResponse {
 }
 
 export type HealthStatus = 'Healthy' | 'Degraded' | 'Unhealthy';
+
+/**
+ * Request counters for the window since the previous snapshot, pushed by the
+ * admin event stream every few seconds
+ */
+export interface RequestRateSnapshot {
+  timestampUtc: string;
+  windowSeconds: number;
+  requests: number;
+  clientErrors: number;
+  serverErrors: number;
+  requestsPerSecond: number;
+  averageDurationMs: number;
+}
+
+export type AdminStreamState = 'stopped' | 'connecting' | 'live' | 'polling';
+
+/**
+ * A personnel or user account audit entry written during a traced action
+ */
+export interface TraceAuditEntry {
+  source: 'Personnel' | 'UserAccount';
+  id: number;
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes: PersonHistoryChange[];
+  detail: string | null;
+  performedByEmail: string | null;
+  performedAt: string;
+  correlationId: string;
+}
+
+/**
+ * Everything recorded for one user action. `correlationIds` holds the id
+ * asked for plus, when that was a request id, the action it belonged to.
+ */
+export interface TraceResponse {
+  id: string;
+  correlationIds: string[];
+  enabled: boolean;
+  timestamp: string;
+  requests: RequestLogEntry[];
+  exceptions: ExceptionLogEntry[];
+  audits: TraceAuditEntry[];
+}
@@ -7,6 +7,48 @@ export interface Person {
   careerEndDate: string | null;
 }
 
+export type PersonSortField = 'name' | 'currentRank' | 'currentDutyTitle';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type PersonStatus = 'active' | 'retired' | 'unassigned';
+
+export interface PeopleQuery {
+  page: number;
+  pageSize: number;
+  search?: string;
+  sortBy?: PersonSortField;
+  sortDirection?: SortDirection;
+  ranks?: string[];
+  dutyTitles?: string[];
+  statuses?: PersonStatus[];
+  careerStartFrom?: string;
+  careerStartTo?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PeopleFacets {
+  ranks: FacetCount[];
+  dutyTitles: FacetCount[];
+  statuses: FacetCount[];
+}
+
+export interface PeopleListResponse {
+  people: Person[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  totalPeople: number;
+  activeAstronautCount: number;
+  nonAstronautCount: number;
+  facets: PeopleFacets;
+}
+
 export interface AstronautDetail {
   id: number;
   personId: number;
@@ -26,6 +68,29 @@ export interface AstronautDuty {
   person?: Person;
 }
 
+export type PersonHistoryEntityType = 'Person' | 'AstronautDetail' | 'AstronautDuty';
+
+export type PersonHistoryAction = 'Created' | 'Updated' | 'Deleted';
+
+export interface PersonHistoryChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * An audited change to a person, their astronaut detail or one of their duties
+ */
+export interface PersonHistoryEntry {
+  id: number;
+  entityType: PersonHistoryEntityType;
+  entityId: number;
+  action: PersonHistoryAction;
+  changes: PersonHistoryChange[];
+  performedByEmail: string | null;
+  performedAt: string;
+}
+
 export interface CreatePersonRequest {
   name: string;
 }
@@ -37,6 +102,13 @@ export interface CreateAstronautDutyRequest {
   dutyStartDate: string;
 }
 
+export interface UpdateAstronautDutyRequest {
+  rank: string;
+  dutyTitle: string;
+  dutyStartDate: string;
+  dutyEndDate: string | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
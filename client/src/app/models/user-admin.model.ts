@@ -0,0 +1,30 @@
+import { Role } from './auth.model';
+
+export interface UserSummary {
+  id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  roles: Role[];
+  createdAt: string;
+  lastLoginAt?: string | null;
+  isLockedOut: boolean;
+}
+
+export type UserAuditAction = 'RoleGranted' | 'RoleRevoked' | 'Locked' | 'Unlocked' | 'PasswordReset';
+
+export interface UserAuditEntry {
+  id: number;
+  targetUserId: string;
+  targetEmail: string;
+  action: UserAuditAction;
+  detail?: string | null;
+  performedByUserId: string;
+  performedByEmail: string;
+  performedAt: string;
+}
+
+export interface PasswordResetResult {
+  email: string;
+  temporaryPassword: string;
+}
@@ -0,0 +1,20 @@
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+@Component({
+  selector: 'app-not-authorized',
+  imports: [RouterLink],
+  templateUrl: './not-authorized.html',
+  styleUrl: './not-authorized.scss'
+})
+export class NotAuthorized {
+  protected readonly authService = inject(AuthService);
+
+  /**
+   * Sign out so the user can sign back in with an account that has access
+   */
+  switchAccount(): void {
+    this.authService.logout('/login');
+  }
+}
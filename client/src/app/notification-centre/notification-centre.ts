@@ -0,0 +1,75 @@
+import { Component, ElementRef, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { AlertService } from '../services/alert.service';
+import { AlertIncident } from '../models/alert.model';
+import { ApiError } from '../models/api-error.model';
+
+/**
+ * Navbar bell for admins: counts open alert incidents and lists the active
+ * ones in a panel, where they can be acknowledged or resolved
+ */
+@Component({
+  selector: 'app-notification-centre',
+  imports: [RouterLink],
+  templateUrl: './notification-centre.html',
+  styleUrl: './notification-centre.scss',
+  host: {
+    '(document:click)': 'onDocumentClick($event)',
+    '(document:keydown.escape)': 'close()'
+  }
+})
+export class NotificationCentre {
+  private readonly elementRef = inject(ElementRef<HTMLElement>);
+  protected readonly alertService = inject(AlertService);
+
+  protected readonly open = signal(false);
+  protected readonly busyIncident = signal<number | null>(null);
+  protected readonly error = signal<string | null>(null);
+
+  protected toggle(): void {
+    this.open.update(open => !open);
+    this.error.set(null);
+  }
+
+  protected close(): void {
+    this.open.set(false);
+  }
+
+  protected onDocumentClick(event: MouseEvent): void {
+    if (this.open() && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.close();
+    }
+  }
+
+  protected acknowledge(incident: AlertIncident): void {
+    this.busyIncident.set(incident.id);
+    this.alertService.acknowledge(incident.id).subscribe({
+      next: () => this.busyIncident.set(null),
+      error: (err: ApiError) => this.fail(err)
+    });
+  }
+
+  protected resolve(incident: AlertIncident): void {
+    this.busyIncident.set(incident.id);
+    this.alertService.resolve(incident.id).subscribe({
+      next: () => this.busyIncident.set(null),
+      error: (err: ApiError) => this.fail(err)
+    });
+  }
+
+  protected formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  private fail(err: ApiError): void {
+    this.busyIncident.set(null);
+    this.error.set(err.message);
+    // Someone else may have changed it first; show the current state
+    this.alertService.refreshIncidents();
+  }
+}
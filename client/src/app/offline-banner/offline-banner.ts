@@ -0,0 +1,11 @@
+import { Component, inject } from '@angular/core';
+import { ConnectivityService } from '../services/connectivity.service';
+
+@Component({
+  selector: 'app-offline-banner',
+  templateUrl: './offline-banner.html',
+  styleUrl: './offline-banner.scss'
+})
+export class OfflineBanner {
+  protected readonly connectivity = inject(ConnectivityService);
+}
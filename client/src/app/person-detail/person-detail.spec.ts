@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ActivatedRoute, convertToParamMap, provideRouter } from '@angular/router';
+import { PersonDetail } from './person-detail';
+import { AuthService } from '../services/auth.service';
+import { errorInterceptor } from '../interceptors/error.interceptor';
+import { AstronautDuty, Person } from '../models/person.model';
+
+describe('PersonDetail', () => {
+  let http: HttpTestingController;
+
+  const activePerson: Person = {
+    personId: 1, name: 'Jane Doe', currentRank: 'Captain', currentDutyTitle: 'Pilot',
+    careerStartDate: '2020-01-01', careerEndDate: null
+  };
+  const activeDuties: AstronautDuty[] = [
+    { id: 1, personId: 1, rank: 'Captain', dutyTitle: 'Pilot', dutyStartDate: '2020-01-01' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([errorInterceptor])),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: { isAuthenticated: signal(true) } },
+        { provide: ActivatedRoute, useValue: { snapshot: { paramMap: convertToParamMap({ name: 'Jane Doe' }) } } }
+      ]
+    });
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  function openPerson() {
+    const component = TestBed.createComponent(PersonDetail).componentInstance;
+    component.ngOnInit();
+    http.expectOne('/api/Person/Jane%20Doe').flush({ person: activePerson });
+    http.expectOne('/api/AstronautDuty/Jane%20Doe').flush({ astronautDuties: activeDuties });
+    return component;
+  }
+
+  function confirmRetirement(component: PersonDetail) {
+    component['startRetire']();
+    component['onRetirementDateChange']('2024-06-01');
+    component['reviewRetirement'](new Event('submit'));
+    expect(component['retireConfirming']()).toBe(true);
+    component['confirmRetirement']();
+    return http.expectOne({ method: 'POST', url: '/api/AstronautDuty' });
+  }
+
+  it('should retire on the active rank and show the retired record', () => {
+    const component = openPerson();
+
+    const request = confirmRetirement(component);
+    expect(request.request.body).toEqual({
+      name: 'Jane Doe', rank: 'Captain', dutyTitle: 'RETIRED', dutyStartDate: '2024-06-01'
+    });
+    request.flush({ success: true });
+
+    // The cached duties were dropped, so both are fetched again
+    http.expectOne('/api/Person/Jane%20Doe').flush({
+      person: { ...activePerson, currentDutyTitle: 'RETIRED', careerEndDate: '2024-05-31' }
+    });
+    http.expectOne('/api/AstronautDuty/Jane%20Doe').flush({
+      astronautDuties: [
+        { ...activeDuties[0], dutyEndDate: '2024-05-31' },
+        { id: 2, personId: 1, rank: 'Captain', dutyTitle: 'RETIRED', dutyStartDate: '2024-06-01' }
+      ]
+    });
+
+    expect(component['retiring']()).toBe(false);
+    expect(component['isRetired']()).toBe(true);
+    expect(component['canRetire']()).toBe(false);
+    expect(component['activeDuty']()?.dutyTitle).toBe('RETIRED');
+  });
+
+  it('should keep the form open with the server message when retirement is refused', () => {
+    const component = openPerson();
+
+    confirmRetirement(component).flush(
+      { success: false, message: 'Person is already retired' },
+      { status: 400, statusText: 'Bad Request' }
+    );
+
+    expect(component['retireError']()).toBe('Person is already retired');
+    expect(component['retiring']()).toBe(true);
+    expect(component['retireConfirming']()).toBe(false);
+    expect(component['retireSubmitting']()).toBe(false);
+    expect(component['isRetired']()).toBe(false);
+  });
+
+  it('should serve the duties from the cache until a retirement invalidates them', () => {
+    const component = openPerson();
+
+    component['loadDuties']('Jane Doe');
+    http.expectNone('/api/AstronautDuty/Jane%20Doe');
+
+    confirmRetirement(component).flush({ success: true });
+    http.expectOne('/api/Person/Jane%20Doe').flush({ person: activePerson });
+    http.expectOne('/api/AstronautDuty/Jane%20Doe').flush({ astronautDuties: activeDuties });
+  });
+});
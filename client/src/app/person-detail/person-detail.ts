@@ -1,27 +1,66 @@
 import { Component, inject, signal, computed, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ActivatedRoute, RouterLink } from '@angular/router';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { PersonService } from '../services/person.service';
 import { AstronautDutyService } from '../services/astronaut-duty.service';
-import { Person, AstronautDuty } from '../models/person.model';
+import { ExportColumn, ExportService } from '../services/export.service';
+import { Person, AstronautDuty, PersonHistoryEntry } from '../models/person.model';
+import { EDITOR_ROLES } from '../models/auth.model';
+import { HasRoleDirective } from '../directives/has-role.directive';
+import { ApiError } from '../models/api-error.model';
+import { ErrorReference } from '../error-reference/error-reference';
+import { CareerTimeline } from '../career-timeline/career-timeline';
+import { ChangeHistory } from '../change-history/change-history';
+
+type PersonDetailTab = 'overview' | 'history';
+
+const DETAIL_TABS: PersonDetailTab[] = ['overview', 'history'];
 
 @Component({
   selector: 'app-person-detail',
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, RouterLink, HasRoleDirective, ErrorReference, CareerTimeline, ChangeHistory],
   templateUrl: './person-detail.html',
   styleUrl: './person-detail.scss'
 })
 export class PersonDetail implements OnInit {
   private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
   private readonly personService = inject(PersonService);
   private readonly dutyService = inject(AstronautDutyService);
+  private readonly exportService = inject(ExportService);
+
+  private readonly dutyExportColumns: ExportColumn<AstronautDuty>[] = [
+    { header: 'id', value: d => d.id },
+    { header: 'personId', value: d => d.personId },
+    { header: 'rank', value: d => d.rank },
+    { header: 'dutyTitle', value: d => d.dutyTitle },
+    { header: 'dutyStartDate', value: d => this.exportService.toIsoDate(d.dutyStartDate) },
+    { header: 'dutyEndDate', value: d => this.exportService.toIsoDate(d.dutyEndDate) }
+  ];
+
+  protected readonly editorRoles = EDITOR_ROLES;
 
   protected readonly person = signal<Person | null>(null);
   protected readonly duties = signal<AstronautDuty[]>([]);
   protected readonly loading = signal<boolean>(false);
   protected readonly error = signal<string | null>(null);
+  protected readonly serverError = signal<ApiError | null>(null);
   protected readonly dutiesLoading = signal<boolean>(false);
   protected readonly dutiesError = signal<string | null>(null);
+  protected readonly renamedFrom = signal<string | null>(null);
+  protected readonly renaming = signal<boolean>(false);
+  protected readonly newName = signal<string>('');
+  protected readonly renameSubmitting = signal<boolean>(false);
+  protected readonly renameError = signal<string | null>(null);
+  protected readonly retiring = signal<boolean>(false);
+  protected readonly retirementDate = signal<string>('');
+  protected readonly retireConfirming = signal<boolean>(false);
+  protected readonly retireSubmitting = signal<boolean>(false);
+  protected readonly retireError = signal<string | null>(null);
+  protected readonly activeTab = signal<PersonDetailTab>('overview');
+  protected readonly history = signal<PersonHistoryEntry[]>([]);
+  protected readonly historyLoading = signal<boolean>(false);
+  protected readonly historyError = signal<string | null>(null);
 
   protected readonly isAstronaut = computed(() => {
     return this.person()?.careerStartDate !== null && this.person()?.careerStartDate !== undefined;
@@ -52,6 +91,22 @@ export class PersonDetail implements OnInit {
     return Math.floor(diff / (1000 * 60 * 60 * 24));
   });
 
+  protected readonly canRetire = computed(() => this.isAstronaut() && !this.isRetired() && !!this.activeDuty());
+
+  /**
+   * What retiring on the chosen date will do: the API ends the active duty and
+   * the career on the day before the retirement date
+   */
+  protected readonly retirementSummary = computed(() => {
+    const duty = this.activeDuty();
+    const date = this.retirementDate();
+    if (!duty || !date) return null;
+
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+    return { duty, lastDay };
+  });
+
   ngOnInit(): void {
     const name = this.route.snapshot.paramMap.get('name');
     if (name) {
@@ -63,13 +118,21 @@ export class PersonDetail implements OnInit {
   protected loadPerson(name: string): void {
     this.loading.set(true);
     this.error.set(null);
+    this.serverError.set(null);
 
     this.personService.getPersonByName(name).subscribe({
       next: (data: Person) => {
         this.person.set(data);
         this.loading.set(false);
+
+        // The server resolves a previous name to the renamed record
+        if (data.name !== name) {
+          this.renamedFrom.set(name);
+          this.router.navigate(['/personnel', data.name], { replaceUrl: true });
+        }
       },
-      error: (err: Error) => {
+      error: (err: ApiError) => {
+        this.serverError.set(err);
         this.error.set(err.message);
         this.loading.set(false);
       }
@@ -92,6 +155,199 @@ export class PersonDetail implements OnInit {
     });
   }
 
+  protected loadHistory(name: string): void {
+    this.historyLoading.set(true);
+    this.historyError.set(null);
+
+    this.personService.getPersonHistory(name).subscribe({
+      next: (data: PersonHistoryEntry[]) => {
+        this.history.set(data);
+        this.historyLoading.set(false);
+      },
+      error: (err: Error) => {
+        this.historyError.set(err.message);
+        this.historyLoading.set(false);
+      }
+    });
+  }
+
+  /**
+   * Switch tabs, fetching the change history each time it is opened so it
+   * reflects edits made since the page loaded
+   */
+  protected selectTab(tab: PersonDetailTab): void {
+    this.activeTab.set(tab);
+
+    const person = this.person();
+    if (tab === 'history' && person) {
+      this.loadHistory(person.name);
+    }
+  }
+
+  /**
+   * Arrow, Home and End keys move between tabs, following the ARIA tabs pattern
+   */
+  protected onTabKeydown(event: KeyboardEvent): void {
+    const index = DETAIL_TABS.indexOf(this.activeTab());
+    let next: number;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        next = (index + 1) % DETAIL_TABS.length;
+        break;
+      case 'ArrowLeft':
+        next = (index - 1 + DETAIL_TABS.length) % DETAIL_TABS.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = DETAIL_TABS.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.selectTab(DETAIL_TABS[next]);
+    document.getElementById(`tab-${DETAIL_TABS[next]}`)?.focus();
+  }
+
+  protected startRetire(): void {
+    this.retirementDate.set(new Date().toISOString().split('T')[0]);
+    this.retireError.set(null);
+    this.retireConfirming.set(false);
+    this.retiring.set(true);
+  }
+
+  protected cancelRetire(): void {
+    this.retiring.set(false);
+    this.retireConfirming.set(false);
+    this.retireError.set(null);
+  }
+
+  protected onRetirementDateChange(value: string): void {
+    this.retirementDate.set(value);
+    this.retireConfirming.set(false);
+    this.retireError.set(null);
+  }
+
+  protected reviewRetirement(event: Event): void {
+    event.preventDefault();
+
+    const date = this.retirementDate();
+    if (!date) {
+      this.retireError.set('Retirement date is required');
+      return;
+    }
+
+    const dateError = this.dutyService.validateDutyStartDate(date, this.activeDuty()?.dutyStartDate);
+    if (dateError) {
+      this.retireError.set(dateError);
+      return;
+    }
+
+    this.retireConfirming.set(true);
+  }
+
+  protected confirmRetirement(): void {
+    const person = this.person();
+    const duty = this.activeDuty();
+    if (!person || !duty) return;
+
+    this.retireSubmitting.set(true);
+    this.retireError.set(null);
+
+    // Keep the rank held on the active duty rather than inventing one
+    this.dutyService.retireAstronaut(person.name, duty.rank, this.retirementDate()).subscribe({
+      next: () => {
+        this.retireSubmitting.set(false);
+        this.retiring.set(false);
+        this.retireConfirming.set(false);
+        this.loadPerson(person.name);
+        this.loadDuties(person.name);
+        this.refreshHistory(person.name);
+      },
+      error: (err: Error) => {
+        this.retireError.set(err.message || 'Failed to retire astronaut');
+        this.retireSubmitting.set(false);
+        this.retireConfirming.set(false);
+      }
+    });
+  }
+
+  private refreshHistory(name: string): void {
+    if (this.activeTab() === 'history') {
+      this.loadHistory(name);
+    }
+  }
+
+  protected getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  protected startRename(): void {
+    this.newName.set(this.person()?.name ?? '');
+    this.renameError.set(null);
+    this.renaming.set(true);
+  }
+
+  protected cancelRename(): void {
+    this.renaming.set(false);
+    this.renameError.set(null);
+  }
+
+  protected onRenameSubmit(event: Event): void {
+    event.preventDefault();
+
+    const person = this.person();
+    const newName = this.newName().trim();
+    if (!person) return;
+
+    if (!newName) {
+      this.renameError.set('Name is required');
+      return;
+    }
+
+    if (newName === person.name) {
+      this.renameError.set('Enter a different name');
+      return;
+    }
+
+    this.renameSubmitting.set(true);
+    this.renameError.set(null);
+
+    this.personService.renamePerson(person.name, newName).subscribe({
+      next: (savedName: string) => {
+        this.person.set({ ...person, name: savedName });
+        this.renamedFrom.set(person.name);
+        this.renaming.set(false);
+        this.renameSubmitting.set(false);
+        this.router.navigate(['/personnel', savedName], { replaceUrl: true });
+        this.refreshHistory(savedName);
+      },
+      error: (err: Error) => {
+        this.renameError.set(err.message || 'Failed to rename person');
+        this.renameSubmitting.set(false);
+      }
+    });
+  }
+
+  /**
+   * Download the full duty history for this person
+   */
+  protected exportDuties(format: 'csv' | 'json'): void {
+    const person = this.person();
+    if (!person) return;
+
+    const filename = `${person.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-duties.${format}`;
+    if (format === 'csv') {
+      this.exportService.downloadCsv(filename, this.duties(), this.dutyExportColumns);
+    } else {
+      this.exportService.downloadJson(filename, this.duties(), this.dutyExportColumns);
+    }
+  }
+
   protected formatDate(dateString?: string | null): string {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString('en-US', {
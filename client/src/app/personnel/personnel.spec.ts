@@ -0,0 +1,38 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { BehaviorSubject, of } from 'rxjs';
+import { Personnel } from './personnel';
+import { PersonService } from '../services/person.service';
+
+describe('Personnel', () => {
+  const queryParamMap = new BehaviorSubject(convertToParamMap({}));
+  const getPeoplePage = vi.fn(() => of({
+    people: [], total: 0, totalPages: 0, totalPeople: 0, activeAstronautCount: 0, nonAstronautCount: 0,
+    facets: { ranks: [], dutyTitles: [], statuses: [] }
+  }));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        { provide: ActivatedRoute, useValue: { queryParamMap } },
+        { provide: PersonService, useValue: { getPeoplePage } }
+      ]
+    });
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('should drop a pending search when the query string changes', () => {
+    const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+    const component = TestBed.runInInjectionContext(() => new Personnel());
+
+    component['onSearchChange']('Jane');
+    queryParamMap.next(convertToParamMap({ q: 'John' }));
+    vi.advanceTimersByTime(300);
+
+    expect(navigate).not.toHaveBeenCalled();
+    expect(component['searchTerm']()).toBe('John');
+  });
+});
@@ -1,108 +1,164 @@
-import { Component, computed, effect, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { RouterLink } from '@angular/router';
+import { ActivatedRoute, ParamMap, Params, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subscription } from 'rxjs';
 import { PersonService } from '../services/person.service';
-import { Person } from '../models/person.model';
+import { ExportColumn, ExportService } from '../services/export.service';
+import {
+  FacetCount,
+  Person,
+  PeopleFacets,
+  PeopleListResponse,
+  PeopleQuery,
+  PersonSortField,
+  PersonStatus
+} from '../models/person.model';
+import { EDITOR_ROLES } from '../models/auth.model';
+import { HasRoleDirective } from '../directives/has-role.directive';
+import { ApiError } from '../models/api-error.model';
+import { ErrorReference } from '../error-reference/error-reference';
+
+type FacetKind = 'rank' | 'dutyTitle' | 'status';
+
+interface ActiveFilter {
+  kind: FacetKind | 'careerStartFrom' | 'careerStartTo';
+  value: string;
+  label: string;
+}
 
 @Component({
   selector: 'app-personnel',
-  imports: [CommonModule, FormsModule, RouterLink],
+  imports: [CommonModule, FormsModule, RouterLink, HasRoleDirective, ErrorReference],
   templateUrl: './personnel.html',
   styleUrl: './personnel.scss'
 })
 export class Personnel {
   private readonly personService = inject(PersonService);
+  private readonly exportService = inject(ExportService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private loadSubscription: Subscription | null = null;
+  private searchDebounce: ReturnType<typeof setTimeout> | null = null;
+
+  protected readonly editorRoles = EDITOR_ROLES;
+  protected readonly pageSizeOptions = [10, 25, 50];
+  private readonly sortFields: PersonSortField[] = ['name', 'currentRank', 'currentDutyTitle'];
+  private readonly statuses: PersonStatus[] = ['active', 'retired', 'unassigned'];
+
+  protected readonly statusLabels: Record<PersonStatus, string> = {
+    active: 'Active Astronaut',
+    retired: 'Retired',
+    unassigned: 'Never Assigned'
+  };
 
   // Signals for reactive state management
   protected readonly people = signal<Person[]>([]);
   protected readonly loading = signal<boolean>(false);
   protected readonly error = signal<string | null>(null);
+  protected readonly serverError = signal<ApiError | null>(null);
   protected readonly searchTerm = signal<string>('');
-  protected readonly sortField = signal<'name' | 'currentRank' | 'currentDutyTitle'>('name');
+  protected readonly sortField = signal<PersonSortField>('name');
   protected readonly sortAscending = signal<boolean>(true);
   protected readonly currentPage = signal<number>(1);
   protected readonly itemsPerPage = signal<number>(10);
 
-  // Computed values
-  protected readonly filteredPeople = computed(() => {
-    const term = this.searchTerm().toLowerCase();
-    const allPeople = this.people();
-
-    if (!term) return allPeople;
-
-    return allPeople.filter(person =>
-      person.name.toLowerCase().includes(term) ||
-      person.currentRank?.toLowerCase().includes(term) ||
-      person.currentDutyTitle?.toLowerCase().includes(term)
-    );
-  });
+  // Facet filters
+  protected readonly selectedRanks = signal<string[]>([]);
+  protected readonly selectedDutyTitles = signal<string[]>([]);
+  protected readonly selectedStatuses = signal<PersonStatus[]>([]);
+  protected readonly careerStartFrom = signal<string>('');
+  protected readonly careerStartTo = signal<string>('');
+  protected readonly facets = signal<PeopleFacets | null>(null);
 
-  protected readonly sortedPeople = computed(() => {
-    const filtered = [...this.filteredPeople()];
-    const field = this.sortField();
-    const ascending = this.sortAscending();
-
-    filtered.sort((a, b) => {
-      let aVal: string;
-      let bVal: string;
-
-      if (field === 'name') {
-        aVal = a.name;
-        bVal = b.name;
-      } else {
-        aVal = field === 'currentRank' 
-          ? (a.currentRank || '') 
-          : (a.currentDutyTitle || '');
-        bVal = field === 'currentRank' 
-          ? (b.currentRank || '') 
-          : (b.currentDutyTitle || '');
-      }
+  protected readonly exporting = signal<boolean>(false);
+  protected readonly exportError = signal<string | null>(null);
 
-      const comparison = aVal.localeCompare(bVal);
-      return ascending ? comparison : -comparison;
-    });
+  private readonly exportColumns: ExportColumn<Person>[] = [
+    { header: 'personId', value: p => p.personId },
+    { header: 'name', value: p => p.name },
+    { header: 'currentRank', value: p => p.currentRank },
+    { header: 'currentDutyTitle', value: p => p.currentDutyTitle },
+    { header: 'careerStartDate', value: p => this.exportService.toIsoDate(p.careerStartDate) },
+    { header: 'careerEndDate', value: p => this.exportService.toIsoDate(p.careerEndDate) }
+  ];
 
-    return filtered;
-  });
+  // Paging and directory totals reported by the server
+  protected readonly totalResults = signal<number>(0);
+  protected readonly totalPages = signal<number>(0);
+  protected readonly totalPeople = signal<number>(0);
+  protected readonly astronautCount = signal<number>(0);
+  protected readonly nonAstronautCount = signal<number>(0);
 
-  protected readonly paginatedPeople = computed(() => {
-    const sorted = this.sortedPeople();
-    const page = this.currentPage();
-    const perPage = this.itemsPerPage();
-    const start = (page - 1) * perPage;
-    const end = start + perPage;
-    
-    return sorted.slice(start, end);
-  });
+  protected readonly rankFacets = computed(() =>
+    this.withSelectedValues(this.facets()?.ranks ?? [], this.selectedRanks())
+  );
 
-  protected readonly totalPages = computed(() => {
-    return Math.ceil(this.sortedPeople().length / this.itemsPerPage());
-  });
+  protected readonly dutyTitleFacets = computed(() =>
+    this.withSelectedValues(this.facets()?.dutyTitles ?? [], this.selectedDutyTitles())
+  );
 
-  protected readonly astronautCount = computed(() => {
-    // Only count active astronauts (have careerStartDate but no careerEndDate)
-    return this.people().filter(p => p.careerStartDate && !p.careerEndDate).length;
+  protected readonly statusFacets = computed(() => {
+    const counts = this.facets()?.statuses ?? [];
+    return this.statuses.map(status => ({
+      value: status,
+      count: counts.find(c => c.value === status)?.count ?? 0
+    }));
   });
 
-  protected readonly nonAstronautCount = computed(() => {
-    return this.people().filter(p => !p.careerStartDate).length;
-  });
+  protected readonly activeFilters = computed<ActiveFilter[]>(() => [
+    ...this.selectedStatuses().map(value => ({
+      kind: 'status' as const,
+      value,
+      label: `Status: ${this.statusLabels[value]}`
+    })),
+    ...this.selectedRanks().map(value => ({ kind: 'rank' as const, value, label: `Rank: ${value}` })),
+    ...this.selectedDutyTitles().map(value => ({ kind: 'dutyTitle' as const, value, label: `Duty: ${value}` })),
+    ...(this.careerStartFrom()
+      ? [{ kind: 'careerStartFrom' as const, value: this.careerStartFrom(), label: `Started on/after ${this.careerStartFrom()}` }]
+      : []),
+    ...(this.careerStartTo()
+      ? [{ kind: 'careerStartTo' as const, value: this.careerStartTo(), label: `Started on/before ${this.careerStartTo()}` }]
+      : [])
+  ]);
 
   constructor() {
-    this.loadPeople();
+    inject(DestroyRef).onDestroy(() => {
+      this.loadSubscription?.unsubscribe();
+      this.cancelSearchDebounce();
+    });
+
+    // The query string is the source of truth for the directory view, so
+    // shared links and back/forward navigation restore the same results
+    this.route.queryParamMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      // A search still being typed would otherwise overwrite this navigation
+      this.cancelSearchDebounce();
+      this.applyQueryParams(params);
+      this.loadPeople();
+    });
   }
 
   protected loadPeople(): void {
     this.loading.set(true);
     this.error.set(null);
+    this.serverError.set(null);
 
-    this.personService.getPeople().subscribe({
-      next: (data: Person[]) => {
-        this.people.set(data);
+    // Only the latest query matters; drop any response still in flight
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = this.personService.getPeoplePage(this.buildQuery()).subscribe({
+      next: (response: PeopleListResponse) => {
+        this.people.set(response.people);
+        this.totalResults.set(response.total);
+        this.totalPages.set(response.totalPages);
+        this.totalPeople.set(response.totalPeople);
+        this.astronautCount.set(response.activeAstronautCount);
+        this.nonAstronautCount.set(response.nonAstronautCount);
+        this.facets.set(response.facets);
         this.loading.set(false);
       },
-      error: (err: Error) => {
+      error: (err: ApiError) => {
+        this.serverError.set(err);
         this.error.set(err.message);
         this.loading.set(false);
       }
@@ -111,26 +167,205 @@ export class Personnel {
 
   protected onSearchChange(term: string): void {
     this.searchTerm.set(term);
-    this.currentPage.set(1); // Reset to first page on search
+
+    // Wait for the user to stop typing so each search is a single history entry
+    this.cancelSearchDebounce();
+    this.searchDebounce = setTimeout(() => {
+      this.searchDebounce = null;
+      this.currentPage.set(1); // Reset to first page on search
+      this.updateUrl();
+    }, 300);
   }
 
-  protected sortBy(field: 'name' | 'currentRank' | 'currentDutyTitle'): void {
+  protected sortBy(field: PersonSortField): void {
     if (this.sortField() === field) {
       this.sortAscending.update(val => !val);
     } else {
       this.sortField.set(field);
       this.sortAscending.set(true);
     }
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  protected onPageSizeChange(size: number): void {
+    this.itemsPerPage.set(size);
+    this.currentPage.set(1);
+    this.updateUrl();
   }
 
   protected goToPage(page: number): void {
     if (page >= 1 && page <= this.totalPages()) {
       this.currentPage.set(page);
+      this.updateUrl();
       // Scroll to top of table
       document.querySelector('.personnel-table')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }
   }
 
+  /**
+   * Download every person matching the current search, filters and sort
+   */
+  protected exportPeople(format: 'csv' | 'json'): void {
+    const { page, pageSize, ...query } = this.buildQuery();
+    const filename = `personnel-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    this.exporting.set(true);
+    this.exportError.set(null);
+
+    this.personService.getAllPeople(query).subscribe({
+      next: (people: Person[]) => {
+        if (format === 'csv') {
+          this.exportService.downloadCsv(filename, people, this.exportColumns);
+        } else {
+          this.exportService.downloadJson(filename, people, this.exportColumns);
+        }
+        this.exporting.set(false);
+      },
+      error: (err: Error) => {
+        this.exportError.set(err.message);
+        this.exporting.set(false);
+      }
+    });
+  }
+
+  protected isFacetSelected(kind: FacetKind, value: string): boolean {
+    const selected: string[] = kind === 'rank'
+      ? this.selectedRanks()
+      : kind === 'dutyTitle' ? this.selectedDutyTitles() : this.selectedStatuses();
+    return selected.includes(value);
+  }
+
+  protected toggleFacet(kind: FacetKind, value: string): void {
+    this.updateFacet(kind, values =>
+      values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+    );
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  protected onCareerStartFromChange(value: string): void {
+    this.careerStartFrom.set(value);
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  protected onCareerStartToChange(value: string): void {
+    this.careerStartTo.set(value);
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  protected removeFilter(filter: ActiveFilter): void {
+    if (filter.kind === 'careerStartFrom') {
+      this.careerStartFrom.set('');
+    } else if (filter.kind === 'careerStartTo') {
+      this.careerStartTo.set('');
+    } else {
+      this.updateFacet(filter.kind, values => values.filter(v => v !== filter.value));
+    }
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  protected clearFilters(): void {
+    this.selectedRanks.set([]);
+    this.selectedDutyTitles.set([]);
+    this.selectedStatuses.set([]);
+    this.careerStartFrom.set('');
+    this.careerStartTo.set('');
+    this.currentPage.set(1);
+    this.updateUrl();
+  }
+
+  private updateFacet(kind: FacetKind, change: (values: string[]) => string[]): void {
+    if (kind === 'rank') {
+      this.selectedRanks.update(change);
+    } else if (kind === 'dutyTitle') {
+      this.selectedDutyTitles.update(change);
+    } else {
+      // Only known statuses are ever offered or read from the URL
+      this.selectedStatuses.update(values => change(values) as PersonStatus[]);
+    }
+  }
+
+  /**
+   * Keep selected values visible with a zero count when other filters
+   * exclude them, so they can still be unchecked
+   */
+  private withSelectedValues(counts: FacetCount[], selected: string[]): FacetCount[] {
+    const missing = selected
+      .filter(value => !counts.some(c => c.value === value))
+      .map(value => ({ value, count: 0 }));
+    return [...counts, ...missing].sort((a, b) => a.value.localeCompare(b.value));
+  }
+
+  /**
+   * Restore directory state from the query string, falling back to defaults
+   * for anything missing or invalid
+   */
+  private applyQueryParams(params: ParamMap): void {
+    const sort = params.get('sort') as PersonSortField | null;
+    const page = Number(params.get('page'));
+    const pageSize = Number(params.get('pageSize'));
+
+    this.searchTerm.set(params.get('q') ?? '');
+    this.sortField.set(sort && this.sortFields.includes(sort) ? sort : 'name');
+    this.sortAscending.set(params.get('dir') !== 'desc');
+    this.currentPage.set(Number.isInteger(page) && page > 0 ? page : 1);
+    this.itemsPerPage.set(this.pageSizeOptions.includes(pageSize) ? pageSize : this.pageSizeOptions[0]);
+    this.selectedRanks.set(params.getAll('rank'));
+    this.selectedDutyTitles.set(params.getAll('duty'));
+    this.selectedStatuses.set(
+      params.getAll('status').filter((s): s is PersonStatus => this.statuses.includes(s as PersonStatus))
+    );
+    this.careerStartFrom.set(params.get('from') ?? '');
+    this.careerStartTo.set(params.get('to') ?? '');
+  }
+
+  /**
+   * Push the current directory state to the query string, omitting defaults
+   * to keep shared links short
+   */
+  private updateUrl(): void {
+    const queryParams: Params = {
+      q: this.searchTerm().trim() || null,
+      sort: this.sortField() !== 'name' ? this.sortField() : null,
+      dir: this.sortAscending() ? null : 'desc',
+      page: this.currentPage() > 1 ? this.currentPage() : null,
+      pageSize: this.itemsPerPage() !== this.pageSizeOptions[0] ? this.itemsPerPage() : null,
+      rank: this.selectedRanks().length ? this.selectedRanks() : null,
+      duty: this.selectedDutyTitles().length ? this.selectedDutyTitles() : null,
+      status: this.selectedStatuses().length ? this.selectedStatuses() : null,
+      from: this.careerStartFrom() || null,
+      to: this.careerStartTo() || null
+    };
+
+    this.router.navigate([], { relativeTo: this.route, queryParams });
+  }
+
+  private cancelSearchDebounce(): void {
+    if (this.searchDebounce) {
+      clearTimeout(this.searchDebounce);
+      this.searchDebounce = null;
+    }
+  }
+
+  private buildQuery(): PeopleQuery {
+    return {
+      page: this.currentPage(),
+      pageSize: this.itemsPerPage(),
+      search: this.searchTerm().trim() || undefined,
+      sortBy: this.sortField(),
+      sortDirection: this.sortAscending() ? 'asc' : 'desc',
+      ranks: this.selectedRanks(),
+      dutyTitles: this.selectedDutyTitles(),
+      statuses: this.selectedStatuses(),
+      careerStartFrom: this.careerStartFrom() || undefined,
+      careerStartTo: this.careerStartTo() || undefined
+    };
+  }
+
   protected getStatusClass(person: Person): string {
     if (!person.careerStartDate) return 'non-astronaut';
     if (person.careerEndDate) return 'retired';
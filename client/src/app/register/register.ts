@@ -4,6 +4,7 @@ import { FormsModule } from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
 import { AuthService } from '../services/auth.service';
 import { RegisterRequest } from '../models/auth.model';
+import { ApiError } from '../models/api-error.model';
 
 @Component({
   selector: 'app-register',
@@ -32,13 +33,9 @@ export class RegisterComponent {
       return;
     }
 
-    if (this.password() !== this.confirmPassword()) {
-      this.error.set('Passwords do not match');
-      return;
-    }
-
-    if (this.password().length < 8) {
-      this.error.set('Password must be at least 8 characters long');
+    const passwordError = this.authService.validateNewPassword(this.password(), this.confirmPassword());
+    if (passwordError) {
+      this.error.set(passwordError);
       return;
     }
 
@@ -58,14 +55,9 @@ export class RegisterComponent {
         // Navigate to people page after successful registration
         this.router.navigate(['/people']);
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         this.loading.set(false);
-        const errors = err.error?.errors;
-        if (errors && Array.isArray(errors)) {
-          this.error.set(errors.join(', '));
-        } else {
-          this.error.set(err.error?.message || 'Registration failed. Please try again.');
-        }
+        this.error.set(err.message || 'Registration failed. Please try again.');
       }
     });
   }
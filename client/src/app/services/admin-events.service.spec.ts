@@ -0,0 +1,18 @@
+import { parseServerSentEvents } from './admin-events.service';
+
+describe('parseServerSentEvents', () => {
+  it('should return complete events and keep the unfinished tail', () => {
+    const { events, rest } = parseServerSentEvents(
+      'event: health\ndata: {"status":"Healthy"}\n\n: keep-alive\n\nevent: exception\ndata: {"excep'
+    );
+
+    expect(events).toEqual([{ event: 'health', data: '{"status":"Healthy"}' }]);
+    expect(rest).toBe('event: exception\ndata: {"excep');
+  });
+
+  it('should join multi-line data and default the event name', () => {
+    const { events } = parseServerSentEvents('data: first\r\ndata: second\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+});
@@ -0,0 +1,303 @@
+import { DestroyRef, Injectable, effect, inject, signal, untracked } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { AuthService } from './auth.service';
+import { HealthService } from './health.service';
+import {
+  AdminStreamState,
+  ExceptionLogEntry,
+  HealthCheckResponse,
+  RequestRateSnapshot
+} from '../models/health.model';
+import { ApiError } from '../models/api-error.model';
+import { AlertIncident } from '../models/alert.model';
+
+const STREAM_URL = '/api/Health/stream';
+
+// Failed connections in a row before falling back to polling
+const FALLBACK_AFTER_FAILURES = 3;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+// How often the fallback polls while the stream is unavailable
+const POLL_INTERVAL_MS = 30 * 1000;
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split buffered `text/event-stream` text into complete events. Returns the
+ * events and the unfinished text to prepend to the next chunk. Comments and
+ * fields other than `event` and `data` are ignored.
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      const colon = line.indexOf(':');
+      if (colon === 0) continue;
+
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') event = value;
+      if (field === 'data') data.push(value);
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Live feed for the admin dashboard. While an admin is signed in it holds a
+ * server-sent event stream open to `/api/Health/stream` for health changes,
+ * new exceptions, request-rate counters and alert incident changes. The stream is read with fetch
+ * rather than EventSource so it can carry the bearer token. When the stream
+ * keeps failing it falls back to polling, and keeps trying to reconnect.
+ * Exceptions that arrive while the dashboard is closed are counted for the
+ * badge on the navbar's admin link.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminEventsService {
+  private readonly authService = inject(AuthService);
+  private readonly healthService = inject(HealthService);
+
+  private readonly exceptionSubject = new Subject<ExceptionLogEntry>();
+  private readonly alertSubject = new Subject<AlertIncident>();
+  private readonly resyncSubject = new Subject<void>();
+  private abortController: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private failures = 0;
+  private dashboardOpen = false;
+  private lastPolledException: string | null = null;
+
+  readonly state = signal<AdminStreamState>('stopped');
+  readonly health = signal<HealthCheckResponse | null>(null);
+  readonly requestRate = signal<RequestRateSnapshot | null>(null);
+  readonly unseenExceptions = signal(0);
+
+  /**
+   * Exceptions logged since the feed started, as they arrive
+   */
+  readonly exceptions: Observable<ExceptionLogEntry> = this.exceptionSubject.asObservable();
+
+  /**
+   * Alert incidents as they are opened, acknowledged or resolved
+   */
+  readonly alerts: Observable<AlertIncident> = this.alertSubject.asObservable();
+
+  /**
+   * Emits when pushed events may have been missed: on connecting and on
+   * each fallback poll. Listeners reload what they keep from the feed.
+   */
+  readonly resync: Observable<void> = this.resyncSubject.asObservable();
+
+  constructor() {
+    effect(() => {
+      if (this.authService.isAdmin()) {
+        untracked(() => this.start());
+      } else {
+        untracked(() => this.stop());
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => this.stop());
+  }
+
+  /**
+   * The dashboard is showing; new exceptions are seen as they arrive
+   */
+  openDashboard(): void {
+    this.dashboardOpen = true;
+    this.unseenExceptions.set(0);
+  }
+
+  closeDashboard(): void {
+    this.dashboardOpen = false;
+  }
+
+  private start(): void {
+    if (this.state() !== 'stopped') {
+      return;
+    }
+    this.failures = 0;
+    this.connect();
+  }
+
+  private stop(): void {
+    this.state.set('stopped');
+    this.abortController?.abort();
+    this.abortController = null;
+    this.clearReconnect();
+    this.stopPolling();
+    this.health.set(null);
+    this.requestRate.set(null);
+    this.unseenExceptions.set(0);
+  }
+
+  private async connect(): Promise<void> {
+    if (this.state() !== 'polling') {
+      this.state.set('connecting');
+    }
+
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    try {
+      const response = await fetch(STREAM_URL, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${this.authService.getToken()}`
+        },
+        cache: 'no-store',
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream refused with status ${response.status}`);
+      }
+
+      this.failures = 0;
+      this.stopPolling();
+      this.state.set('live');
+      this.resyncSubject.next();
+      await this.read(response.body);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.warn('Admin event stream failed:', error);
+      }
+    }
+
+    if (this.abortController === controller && !controller.signal.aborted) {
+      this.onDisconnected();
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+      parsed.events.forEach(event => this.dispatch(event));
+    }
+  }
+
+  private dispatch({ event, data }: ServerSentEvent): void {
+    switch (event) {
+      case 'health':
+        this.health.set(JSON.parse(data) as HealthCheckResponse);
+        break;
+      case 'requests':
+        this.requestRate.set(JSON.parse(data) as RequestRateSnapshot);
+        break;
+      case 'exception':
+        this.receiveException(JSON.parse(data) as ExceptionLogEntry);
+        break;
+      case 'alert':
+        this.alertSubject.next(JSON.parse(data) as AlertIncident);
+        break;
+    }
+  }
+
+  private receiveException(entry: ExceptionLogEntry): void {
+    if (!this.dashboardOpen) {
+      this.unseenExceptions.update(count => count + 1);
+    }
+    this.exceptionSubject.next(entry);
+  }
+
+  private onDisconnected(): void {
+    this.failures++;
+    this.requestRate.set(null);
+
+    if (this.failures >= FALLBACK_AFTER_FAILURES) {
+      this.startPolling();
+    } else {
+      this.state.set('connecting');
+    }
+
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (this.failures - 1));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer !== null) {
+      return;
+    }
+
+    this.state.set('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer !== null) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.lastPolledException = null;
+  }
+
+  /**
+   * Fallback: refresh health and pick up exceptions logged since the last poll
+   */
+  private poll(): void {
+    this.resyncSubject.next();
+
+    this.healthService.getHealthStatus(true).subscribe({
+      next: health => this.health.set(health),
+      error: (err: ApiError) => {
+        // A report that is not healthy comes back as a 503 carrying the report
+        const report = err.body as HealthCheckResponse | null;
+        if (report?.components) {
+          this.health.set(report);
+        }
+      }
+    });
+
+    this.healthService.getExceptions(1, 20, 1, {}, true).subscribe({
+      next: list => {
+        const newestFirst = list.data;
+        if (this.lastPolledException !== null) {
+          const seen = newestFirst.findIndex(entry => entry.exceptionId === this.lastPolledException);
+          const fresh = seen === -1 ? newestFirst : newestFirst.slice(0, seen);
+          [...fresh].reverse().forEach(entry => this.receiveException(entry));
+        }
+        this.lastPolledException = newestFirst[0]?.exceptionId ?? this.lastPolledException ?? '';
+      }
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject } from 'rxjs';
+import { AlertService } from './alert.service';
+import { AuthService } from './auth.service';
+import { AdminEventsService } from './admin-events.service';
+import { AlertIncident } from '../models/alert.model';
+
+function incident(id: number, status: AlertIncident['status']): AlertIncident {
+  return {
+    id,
+    ruleId: 1,
+    ruleName: 'Database down',
+    kind: 'ComponentUnhealthy',
+    subject: 'database',
+    status,
+    message: 'database has been Unhealthy for 2 minutes.',
+    value: 2,
+    triggeredAt: '2026-10-18T12:00:00Z',
+    acknowledgedAt: null,
+    acknowledgedByEmail: null,
+    resolvedAt: null,
+    resolvedByEmail: null
+  };
+}
+
+describe('AlertService', () => {
+  let service: AlertService;
+  let httpTesting: HttpTestingController;
+  const alerts = new Subject<AlertIncident>();
+  const resync = new Subject<void>();
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: { isAdmin: signal(true) } },
+        { provide: AdminEventsService, useValue: { alerts, resync } }
+      ]
+    });
+    service = TestBed.inject(AlertService);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+  });
+
+  it('should reload incidents when the feed resyncs', () => {
+    resync.next();
+    httpTesting.expectOne('/api/Alerts/incidents?activeOnly=false').flush([incident(1, 'Open')]);
+
+    expect(service.openCount()).toBe(1);
+  });
+
+  it('should apply pushed incident changes in place', () => {
+    alerts.next(incident(1, 'Open'));
+    alerts.next(incident(2, 'Open'));
+    alerts.next(incident(1, 'Acknowledged'));
+
+    expect(service.incidents().map(i => [i.id, i.status])).toEqual([[2, 'Open'], [1, 'Acknowledged']]);
+    expect(service.openCount()).toBe(1);
+  });
+});
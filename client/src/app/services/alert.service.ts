@@ -0,0 +1,112 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, tap } from 'rxjs';
+import { AuthService } from './auth.service';
+import { AdminEventsService } from './admin-events.service';
+import { AlertIncident, AlertRule, AlertRuleRequest } from '../models/alert.model';
+import { BACKGROUND_REQUEST, FORBIDDEN_PAGE } from '../interceptors/request-context';
+
+/**
+ * Alert rules and incidents. For admins it keeps the incident list behind the
+ * notification centre current: reloaded whenever the admin feed (re)connects
+ * or polls, and updated in place as incident changes are pushed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly adminEvents = inject(AdminEventsService);
+  private readonly apiUrl = '/api/Alerts';
+
+  private readonly incidentsSignal = signal<AlertIncident[]>([]);
+
+  /**
+   * Open and acknowledged incidents, newest first, then recently resolved ones
+   */
+  readonly incidents = this.incidentsSignal.asReadonly();
+  readonly activeIncidents = computed(() => this.incidents().filter(incident => incident.status !== 'Resolved'));
+  readonly openCount = computed(() => this.incidents().filter(incident => incident.status === 'Open').length);
+
+  constructor() {
+    effect(() => {
+      if (!this.authService.isAdmin()) {
+        this.incidentsSignal.set([]);
+      }
+    });
+
+    this.adminEvents.alerts.pipe(takeUntilDestroyed()).subscribe(incident => this.upsert(incident));
+    this.adminEvents.resync.pipe(takeUntilDestroyed()).subscribe(() => this.refreshIncidents(true));
+  }
+
+  /**
+   * Reload the incident list; background = true when the feed asked for it
+   */
+  refreshIncidents(background = false): void {
+    // A failed refresh keeps the list as it was; the next resync tries again
+    this.getIncidents(false, background).subscribe({
+      next: incidents => this.incidentsSignal.set(incidents),
+      error: () => {}
+    });
+  }
+
+  /**
+   * Incidents for the notification centre and alerts panel, which report a
+   * 403 inline
+   */
+  getIncidents(activeOnly = false, background = false): Observable<AlertIncident[]> {
+    const params = new HttpParams().set('activeOnly', activeOnly.toString());
+    const context = new HttpContext().set(BACKGROUND_REQUEST, background).set(FORBIDDEN_PAGE, false);
+    return this.http.get<AlertIncident[]>(`${this.apiUrl}/incidents`, { params, context });
+  }
+
+  acknowledge(incidentId: number): Observable<AlertIncident> {
+    return this.http.post<AlertIncident>(`${this.apiUrl}/incidents/${incidentId}/acknowledge`, null)
+      .pipe(tap(incident => this.upsert(incident)));
+  }
+
+  resolve(incidentId: number): Observable<AlertIncident> {
+    return this.http.post<AlertIncident>(`${this.apiUrl}/incidents/${incidentId}/resolve`, null)
+      .pipe(tap(incident => this.upsert(incident)));
+  }
+
+  /**
+   * Alert rules; a refused load shows in the panel's own error box
+   */
+  getRules(): Observable<AlertRule[]> {
+    const context = new HttpContext().set(FORBIDDEN_PAGE, false);
+    return this.http.get<AlertRule[]>(`${this.apiUrl}/rules`, { context });
+  }
+
+  createRule(request: AlertRuleRequest): Observable<AlertRule> {
+    return this.http.post<AlertRule>(`${this.apiUrl}/rules`, request);
+  }
+
+  updateRule(ruleId: number, request: AlertRuleRequest): Observable<AlertRule> {
+    return this.http.put<AlertRule>(`${this.apiUrl}/rules/${ruleId}`, request);
+  }
+
+  /**
+   * Delete a rule along with its incidents
+   */
+  deleteRule(ruleId: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/rules/${ruleId}`).pipe(
+      tap(() => this.incidentsSignal.update(incidents => incidents.filter(incident => incident.ruleId !== ruleId)))
+    );
+  }
+
+  private upsert(incident: AlertIncident): void {
+    this.incidentsSignal.update(incidents => {
+      const index = incidents.findIndex(existing => existing.id === incident.id);
+      if (index === -1) {
+        return [incident, ...incidents];
+      }
+
+      const updated = [...incidents];
+      updated[index] = incident;
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { AstronautDutyService } from './astronaut-duty.service';
+import { AuthService } from './auth.service';
+
+describe('AstronautDutyService', () => {
+  let service: AstronautDutyService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: { isAuthenticated: signal(true) } }
+      ]
+    });
+    service = TestBed.inject(AstronautDutyService);
+  });
+
+  it('should accept a past start date after the current duty starts', () => {
+    expect(service.validateDutyStartDate('2021-03-02', '2021-03-01')).toBeNull();
+    expect(service.validateDutyStartDate('2021-03-02')).toBeNull();
+  });
+
+  it('should reject unreadable and future start dates', () => {
+    expect(service.validateDutyStartDate('2021-02-30x')).toBe('Start date is not a valid date');
+    expect(service.validateDutyStartDate('2999-01-01')).toBe('Start date cannot be in the future');
+  });
+
+  it('should reject a start date on or before the current duty start', () => {
+    expect(service.validateDutyStartDate('2021-03-01', '2021-03-01')).toContain('must be after the current duty start date');
+    expect(service.validateDutyStartDate('2021-02-01', '2021-03-01')).toContain('must be after the current duty start date');
+  });
+});
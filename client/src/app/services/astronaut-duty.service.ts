@@ -1,23 +1,27 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
-import { AstronautDuty, CreateAstronautDutyRequest, ApiResponse } from '../models/person.model';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map, tap } from 'rxjs/operators';
+import { AstronautDuty, CreateAstronautDutyRequest, UpdateAstronautDutyRequest, ApiResponse } from '../models/person.model';
+import { RETIRED_DUTY_TITLE } from '../models/duty-options';
+import { CacheKeys, DataCacheService } from './data-cache.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class AstronautDutyService {
   private readonly http = inject(HttpClient);
+  private readonly cache = inject(DataCacheService);
   private readonly apiUrl = '/api/AstronautDuty';
 
   /**
-   * Get astronaut duties by person name
+   * Get astronaut duties by person name, served from the cache while fresh
    */
   getAstronautDutiesByName(name: string): Observable<AstronautDuty[]> {
-    return this.http.get<{ astronautDuties: AstronautDuty[] }>(`${this.apiUrl}/${encodeURIComponent(name)}`).pipe(
-      map(response => response.astronautDuties),
-      catchError(this.handleError)
+    return this.cache.get(CacheKeys.duties(name), () =>
+      this.http.get<{ astronautDuties: AstronautDuty[] }>(`${this.apiUrl}/${encodeURIComponent(name)}`).pipe(
+        map(response => response.astronautDuties)
+      )
     );
   }
 
@@ -28,25 +32,76 @@ export class AstronautDutyService {
     return this.http.post<ApiResponse<AstronautDuty>>(this.apiUrl, request, {
       headers: { 'Content-Type': 'application/json' }
     }).pipe(
-      catchError(this.handleError)
+      tap(() => this.cache.invalidate(CacheKeys.people, CacheKeys.duties(request.name)))
     );
   }
 
-  private handleError(error: HttpErrorResponse): Observable<never> {
-    let errorMessage = 'An unknown error occurred';
-    
-    if (error.error instanceof ErrorEvent) {
-      // Client-side error
-      errorMessage = `Error: ${error.error.message}`;
-    } else {
-      // Server-side error
-      errorMessage = `Server returned code ${error.status}: ${error.message}`;
-      if (error.error?.message) {
-        errorMessage = error.error.message;
+  /**
+   * Retire an astronaut. The API closes the active duty and sets the career
+   * end date to the day before the retirement date.
+   */
+  retireAstronaut(name: string, rank: string, retirementDate: string): Observable<ApiResponse<AstronautDuty>> {
+    return this.createAstronautDuty({
+      name,
+      rank,
+      dutyTitle: RETIRED_DUTY_TITLE,
+      dutyStartDate: retirementDate
+    });
+  }
+
+  /**
+   * Correct an existing astronaut duty. Returns the person's resulting duty
+   * history; with dryRun the server validates and previews without saving.
+   */
+  updateAstronautDuty(id: number, request: UpdateAstronautDutyRequest, dryRun = false): Observable<AstronautDuty[]> {
+    const params = dryRun ? { dryRun: 'true' } : undefined;
+    return this.http.put<{ astronautDuties: AstronautDuty[] }>(`${this.apiUrl}/${id}`, request, {
+      headers: { 'Content-Type': 'application/json' },
+      params
+    }).pipe(
+      map(response => response.astronautDuties),
+      // The duty is looked up by id, so drop every person's cached duties
+      tap(() => {
+        if (!dryRun) {
+          this.cache.invalidate(CacheKeys.people, CacheKeys.duties());
+        }
+      })
+    );
+  }
+
+  /**
+   * Check a new duty's start date against the duty rules: it cannot be in the
+   * future and must fall after the current duty's start so that duty keeps a
+   * duration of at least one day. Returns an error message, or null if valid.
+   */
+  validateDutyStartDate(dutyStartDate: string, currentDutyStartDate?: string | null): string | null {
+    const selectedDate = new Date(dutyStartDate);
+    if (isNaN(selectedDate.getTime())) {
+      return 'Start date is not a valid date';
+    }
+
+    // Check date is not in future
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (selectedDate > today) {
+      return 'Start date cannot be in the future';
+    }
+
+    // Validate against the current duty to prevent 0 or negative duration
+    if (currentDutyStartDate) {
+      const currentStart = new Date(currentDutyStartDate);
+      currentStart.setHours(0, 0, 0, 0);
+      selectedDate.setHours(0, 0, 0, 0);
+
+      // New duty must start at least 1 day after current duty to ensure positive duration
+      if (selectedDate <= currentStart) {
+        const formattedDate = currentStart.toLocaleDateString();
+        return `New duty start date must be after the current duty start date (${formattedDate}). ` +
+          `This ensures the current duty has a duration of at least 1 day.`;
       }
     }
-    
-    console.error('API Error:', errorMessage);
-    return throwError(() => new Error(errorMessage));
+
+    return null;
   }
 }
@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { AuthService } from './auth.service';
+import { PkceService } from './pkce.service';
+
+function jwt(expiresInMs: number): string {
+  const payload = btoa(JSON.stringify({ exp: Math.floor((Date.now() + expiresInMs) / 1000) }));
+  return `header.${payload}.signature`;
+}
+
+/**
+ * Web Locks stand-in: tasks for the lock run one after another
+ */
+function fakeLocks() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    request: (_name: string, task: () => Promise<unknown>) => {
+      const run = queue.then(() => task());
+      queue = run.catch(() => undefined);
+      return run;
+    }
+  };
+}
+
+describe('AuthService', () => {
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    localStorage.clear();
+    Object.defineProperty(navigator, 'locks', { value: fakeLocks(), configurable: true });
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+    delete (navigator as { locks?: unknown }).locks;
+    localStorage.clear();
+  });
+
+  it('should redeem the refresh token once when two tabs refresh together', async () => {
+    localStorage.setItem('stargate_token', jwt(30 * 1000));
+    localStorage.setItem('stargate_refresh_token', 'first-refresh-token');
+
+    // Two tabs of the same browser share storage but not services
+    const openTab = () => TestBed.runInInjectionContext(() =>
+      new AuthService(TestBed.inject(HttpClient), TestBed.inject(Router), TestBed.inject(PkceService)));
+    const tabs = [openTab(), openTab()];
+    httpTesting.match('/api/Auth/me').forEach(request =>
+      request.flush({ email: 'jane@example.com', roles: ['Viewer'] }));
+
+    const tokens: string[] = [];
+    tabs.forEach(tab => tab.refreshSession().subscribe(token => tokens.push(token)));
+
+    const renewed = jwt(15 * 60 * 1000);
+    const refresh = await vi.waitFor(() => httpTesting.expectOne('/api/Auth/refresh'));
+    expect(refresh.request.body).toEqual({ refreshToken: 'first-refresh-token' });
+    refresh.flush({ token: renewed, refreshToken: 'second-refresh-token', email: 'jane@example.com', roles: ['Viewer'] });
+
+    await vi.waitFor(() => expect(tokens).toHaveLength(2));
+    expect(tokens).toEqual([renewed, renewed]);
+    expect(localStorage.getItem('stargate_refresh_token')).toBe('second-refresh-token');
+  });
+});
@@ -1,14 +1,34 @@
-import { Injectable, signal, computed } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { DestroyRef, Injectable, signal, computed, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
 import { Router } from '@angular/router';
-import { Observable, tap, of, catchError, BehaviorSubject } from 'rxjs';
+import { Observable, tap, of, catchError, BehaviorSubject, map, finalize, shareReplay, throwError, defer, firstValueFrom } from 'rxjs';
 import { 
   LoginRequest, 
   RegisterRequest, 
   AuthResponse, 
+  RefreshRequest,
+  Role,
+  SsoConfig,
+  SsoCallbackRequest,
+  UpdateProfileRequest,
+  ChangePasswordRequest,
+  SignInHistoryEntry,
   UserInfo, 
-  User 
+  User,
+  EDITOR_ROLES
 } from '../models/auth.model';
+import { PkceService } from './pkce.service';
+import { BACKGROUND_REQUEST } from '../interceptors/request-context';
+
+/**
+ * What the single sign-on callback needs from the request that started it
+ */
+interface PendingSsoLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnUrl: string | null;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -16,9 +36,36 @@ import {
 export class AuthService {
   private readonly apiUrl = '/api/Auth';
   private readonly tokenKey = 'stargate_token';
+  private readonly refreshTokenKey = 'stargate_refresh_token';
+  private readonly ssoPendingKey = 'stargate_sso_pending';
+  readonly ssoCallbackPath = '/auth/callback';
+
+  // Held while redeeming the refresh token so tabs never redeem it together
+  private readonly refreshLockName = 'stargate_token_refresh';
+
+  // Renew the access token this long before it expires
+  private readonly refreshLeadMs = 60 * 1000;
   
   // Reactive state using signals
   private userSignal = signal<User | null>(null);
+
+  // Silent refresh bookkeeping
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshInFlight$: Observable<string> | null = null;
+
+  // Another tab that renewed the session saves its tokens to shared storage;
+  // follow its schedule rather than redeeming the rotated token again
+  private readonly onStorage = (event: StorageEvent) => {
+    if (event.key !== this.tokenKey || !this.isAuthenticated()) {
+      return;
+    }
+
+    if (event.newValue) {
+      this.scheduleRefresh(event.newValue);
+    } else {
+      this.cancelRefresh();
+    }
+  };
   
   // Track initialization state
   private initializationSubject = new BehaviorSubject<boolean>(false);
@@ -28,13 +75,21 @@ export class AuthService {
   user = computed(() => this.userSignal());
   isAuthenticated = computed(() => this.userSignal()?.isAuthenticated ?? false);
   isAdmin = computed(() => this.userSignal()?.isAdmin ?? false);
+  canEdit = computed(() => this.hasAnyRole(EDITOR_ROLES));
 
   constructor(
     private http: HttpClient,
-    private router: Router
+    private router: Router,
+    private pkce: PkceService
   ) {
     // Initialize user from stored token
     this.initializeUser();
+
+    window.addEventListener('storage', this.onStorage);
+    inject(DestroyRef).onDestroy(() => {
+      window.removeEventListener('storage', this.onStorage);
+      this.cancelRefresh();
+    });
   }
 
   /**
@@ -43,15 +98,24 @@ export class AuthService {
   private initializeUser(): void {
     const token = this.getToken();
     if (token) {
-      // Verify token is still valid by calling /me endpoint
-      this.getCurrentUser().subscribe({
-        next: (userInfo) => {
-          this.setUser(userInfo);
+      // An expired access token can still be renewed with the refresh token;
+      // otherwise verify the token is still valid by calling /me endpoint
+      const session$: Observable<unknown> = this.isTokenExpired(token) && this.getRefreshToken()
+        ? this.refreshSession()
+        : this.getCurrentUser().pipe(
+            tap(userInfo => {
+              this.setUser(userInfo);
+              this.scheduleRefresh(token);
+            })
+          );
+
+      session$.subscribe({
+        next: () => {
           this.initializationSubject.next(true);
         },
         error: () => {
           // Token is invalid or expired
-          this.clearToken();
+          this.clearSession();
           this.initializationSubject.next(true);
         }
       });
@@ -66,15 +130,7 @@ export class AuthService {
    */
   register(request: RegisterRequest): Observable<AuthResponse> {
     return this.http.post<AuthResponse>(`${this.apiUrl}/register`, request).pipe(
-      tap(response => {
-        this.setToken(response.token);
-        this.setUser({
-          email: response.email,
-          firstName: response.firstName,
-          lastName: response.lastName,
-          roles: response.roles
-        });
-      })
+      tap(response => this.startSession(response))
     );
   }
 
@@ -83,25 +139,163 @@ export class AuthService {
    */
   login(request: LoginRequest): Observable<AuthResponse> {
     return this.http.post<AuthResponse>(`${this.apiUrl}/login`, request).pipe(
-      tap(response => {
-        this.setToken(response.token);
-        this.setUser({
-          email: response.email,
-          firstName: response.firstName,
-          lastName: response.lastName,
-          roles: response.roles
-        });
-      })
+      tap(response => this.startSession(response))
     );
   }
 
+  /**
+   * Single sign-on settings; disabled when no identity provider is configured
+   */
+  getSsoConfig(): Observable<SsoConfig> {
+    return this.http.get<SsoConfig>(`${this.apiUrl}/sso`);
+  }
+
+  /**
+   * Start single sign-on with the authorization-code + PKCE flow. The
+   * verifier, state and nonce are kept in session storage for the callback,
+   * then the browser is sent to the identity provider.
+   */
+  async beginSsoLogin(config: SsoConfig, returnUrl: string | null = null): Promise<void> {
+    if (!config.enabled || !config.authorizationEndpoint || !config.clientId) {
+      throw new Error('Single sign-on is not available');
+    }
+
+    const pending: PendingSsoLogin = {
+      state: this.pkce.createRandomString(),
+      nonce: this.pkce.createRandomString(),
+      codeVerifier: this.pkce.createRandomString(),
+      returnUrl
+    };
+    sessionStorage.setItem(this.ssoPendingKey, JSON.stringify(pending));
+
+    const url = new URL(config.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', this.ssoRedirectUri());
+    url.searchParams.set('scope', config.scope || 'openid profile email');
+    url.searchParams.set('state', pending.state);
+    url.searchParams.set('nonce', pending.nonce);
+    url.searchParams.set('code_challenge', await this.pkce.createCodeChallenge(pending.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    window.location.assign(url.toString());
+  }
+
+  /**
+   * Finish single sign-on from the callback route by redeeming the code.
+   * Emits the return URL saved when the sign-in began.
+   */
+  completeSsoLogin(code: string, state: string | null): Observable<string | null> {
+    // Each sign-in attempt can only be completed once
+    const stored = sessionStorage.getItem(this.ssoPendingKey);
+    sessionStorage.removeItem(this.ssoPendingKey);
+
+    const pending: PendingSsoLogin | null = stored ? JSON.parse(stored) : null;
+    if (!pending || !state || pending.state !== state) {
+      return throwError(() => new Error('This sign-in could not be verified. Please try again.'));
+    }
+
+    const request: SsoCallbackRequest = {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: this.ssoRedirectUri(),
+      nonce: pending.nonce
+    };
+
+    return this.http.post<AuthResponse>(`${this.apiUrl}/sso/callback`, request).pipe(
+      tap(response => this.startSession(response)),
+      map(() => pending.returnUrl)
+    );
+  }
+
+  /**
+   * Only accept app-relative paths so a return URL cannot send users off-site
+   */
+  toSafeReturnUrl(url: string | null): string | null {
+    if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')
+      || url.startsWith('/login') || url.startsWith(this.ssoCallbackPath)) {
+      return null;
+    }
+    return url;
+  }
+
+  /**
+   * Go back to where the user was headed after signing in, otherwise to the
+   * landing page for their role
+   */
+  navigateAfterSignIn(returnUrl: string | null, replaceUrl: boolean = false): void {
+    if (returnUrl) {
+      this.router.navigateByUrl(returnUrl, { replaceUrl });
+    } else if (this.isAdmin()) {
+      this.router.navigate(['/admin'], { replaceUrl });
+    } else {
+      this.router.navigate(['/personnel'], { replaceUrl });
+    }
+  }
+
   /**
    * Logout current user
    */
-  logout(): void {
-    this.clearToken();
-    this.userSignal.set(null);
-    this.router.navigate(['/']);
+  logout(redirectTo: string = '/'): void {
+    const refreshToken = this.getRefreshToken();
+    if (refreshToken) {
+      // Revoke the refresh token server-side; the local session ends regardless
+      const request: RefreshRequest = { refreshToken };
+      this.http.post(`${this.apiUrl}/logout`, request).pipe(
+        catchError(() => of(null))
+      ).subscribe();
+    }
+
+    this.clearSession();
+    this.router.navigateByUrl(redirectTo);
+  }
+
+  /**
+   * End a session that can no longer be renewed and send the user to login,
+   * remembering the page they were on so they can return to it
+   */
+  expireSession(reason: 'expired' | 'idle' = 'expired', returnUrl: string = this.router.url): void {
+    this.clearSession();
+
+    if (this.router.url.startsWith('/login')) {
+      return;
+    }
+
+    const queryParams: Record<string, string> = { reason };
+    if (returnUrl && returnUrl !== '/') {
+      queryParams['returnUrl'] = returnUrl;
+    }
+    this.router.navigate(['/login'], { queryParams });
+  }
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share a single request, and other tabs wait for it
+   * rather than presenting the same token; emits the new access token.
+   * Pass background = true for the scheduled refresh.
+   */
+  refreshSession(background = false): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    this.refreshInFlight$ = defer(() => this.withRefreshLock(() => firstValueFrom(this.redeem(refreshToken, background)))).pipe(
+      catchError(error => {
+        this.clearSession();
+        return throwError(() => error);
+      }),
+      finalize(() => {
+        this.refreshInFlight$ = null;
+      }),
+      shareReplay(1)
+    );
+
+    return this.refreshInFlight$;
   }
 
   /**
@@ -111,6 +305,48 @@ export class AuthService {
     return this.http.get<UserInfo>(`${this.apiUrl}/me`);
   }
 
+  /**
+   * Update the signed-in user's name
+   */
+  updateProfile(request: UpdateProfileRequest): Observable<UserInfo> {
+    return this.http.put<UserInfo>(`${this.apiUrl}/me`, request).pipe(
+      tap(userInfo => this.setUser(userInfo))
+    );
+  }
+
+  /**
+   * Change the signed-in user's password. Other sessions are signed out and
+   * this one continues with the tokens returned.
+   */
+  changePassword(request: ChangePasswordRequest): Observable<AuthResponse> {
+    return this.http.post<AuthResponse>(`${this.apiUrl}/me/password`, request).pipe(
+      tap(response => this.startSession(response))
+    );
+  }
+
+  /**
+   * Recent sign-in attempts for the signed-in user, newest first
+   */
+  getSignInHistory(): Observable<SignInHistoryEntry[]> {
+    return this.http.get<SignInHistoryEntry[]>(`${this.apiUrl}/me/sign-ins`);
+  }
+
+  /**
+   * Check a new password and its confirmation against the account rules.
+   * Returns an error message, or null when the password is acceptable.
+   */
+  validateNewPassword(password: string, confirmPassword: string): string | null {
+    if (password !== confirmPassword) {
+      return 'Passwords do not match';
+    }
+
+    if (password.length < 8) {
+      return 'Password must be at least 8 characters long';
+    }
+
+    return null;
+  }
+
   /**
    * Get stored JWT token
    */
@@ -118,6 +354,138 @@ export class AuthService {
     return localStorage.getItem(this.tokenKey);
   }
 
+  /**
+   * Get stored refresh token
+   */
+  getRefreshToken(): string | null {
+    return localStorage.getItem(this.refreshTokenKey);
+  }
+
+  /**
+   * Read the expiry (epoch milliseconds) from a JWT's exp claim
+   */
+  getTokenExpiry(token: string | null = this.getToken()): number | null {
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      const claims = JSON.parse(atob(payload));
+      return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a JWT has passed its expiry
+   */
+  isTokenExpired(token: string | null = this.getToken()): boolean {
+    const expiry = this.getTokenExpiry(token);
+    return expiry !== null && expiry <= Date.now();
+  }
+
+  /**
+   * Redeem the refresh token for new tokens. If another tab rotated it while
+   * this one waited for the lock, the server would see the old token reused
+   * and end every session, so take up that tab's tokens instead.
+   */
+  private redeem(refreshToken: string, background: boolean): Observable<string> {
+    const storedRefreshToken = this.getRefreshToken();
+    const storedToken = this.getToken();
+
+    if (!storedRefreshToken) {
+      return throwError(() => new Error('Signed out in another tab'));
+    }
+
+    if (storedRefreshToken !== refreshToken && storedToken && !this.isTokenExpired(storedToken)) {
+      this.scheduleRefresh(storedToken);
+      return of(storedToken);
+    }
+
+    const request: RefreshRequest = { refreshToken: storedRefreshToken };
+    const context = new HttpContext().set(BACKGROUND_REQUEST, background);
+    return this.http.post<AuthResponse>(`${this.apiUrl}/refresh`, request, { context }).pipe(
+      tap(response => this.startSession(response)),
+      map(response => response.token)
+    );
+  }
+
+  /**
+   * Run a task while holding the refresh lock shared by every tab of this
+   * origin. Browsers without the Web Locks API run it straight away.
+   */
+  private async withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    if (!('locks' in navigator)) {
+      return task();
+    }
+    return navigator.locks.request(this.refreshLockName, task);
+  }
+
+  /**
+   * Where the identity provider sends the browser back to
+   */
+  private ssoRedirectUri(): string {
+    return `${window.location.origin}${this.ssoCallbackPath}`;
+  }
+
+  /**
+   * Store the tokens and user from an auth response and schedule renewal
+   */
+  private startSession(response: AuthResponse): void {
+    this.setToken(response.token);
+    if (response.refreshToken) {
+      localStorage.setItem(this.refreshTokenKey, response.refreshToken);
+    }
+    this.setUser({
+      email: response.email,
+      firstName: response.firstName,
+      lastName: response.lastName,
+      roles: response.roles
+    });
+    this.scheduleRefresh(response.token);
+  }
+
+  /**
+   * Clear tokens, user state and any pending refresh
+   */
+  private clearSession(): void {
+    this.cancelRefresh();
+    this.clearToken();
+    this.userSignal.set(null);
+  }
+
+  /**
+   * Refresh the access token shortly before it lapses
+   */
+  private scheduleRefresh(token: string): void {
+    this.cancelRefresh();
+
+    const expiry = this.getTokenExpiry(token);
+    if (expiry === null || !this.getRefreshToken()) {
+      return;
+    }
+
+    const delay = Math.max(expiry - Date.now() - this.refreshLeadMs, 0);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshSession(true).subscribe({
+        error: () => this.expireSession()
+      });
+    }, delay);
+  }
+
+  /**
+   * Cancel a scheduled silent refresh
+   */
+  private cancelRefresh(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
   /**
    * Store JWT token
    */
@@ -126,10 +494,11 @@ export class AuthService {
   }
 
   /**
-   * Clear stored JWT token
+   * Clear stored JWT and refresh tokens
    */
   private clearToken(): void {
     localStorage.removeItem(this.tokenKey);
+    localStorage.removeItem(this.refreshTokenKey);
   }
 
   /**
@@ -154,4 +523,12 @@ export class AuthService {
     const user = this.userSignal();
     return user?.roles.includes(role) ?? false;
   }
+
+  /**
+   * Check if user has at least one of the given roles
+   */
+  hasAnyRole(roles: readonly Role[]): boolean {
+    const user = this.userSignal();
+    return roles.some(role => user?.roles.includes(role) ?? false);
+  }
 }
@@ -0,0 +1,130 @@
+import { DestroyRef, Injectable, computed, inject, signal } from '@angular/core';
+import { HealthService } from './health.service';
+import { ApiError } from '../models/api-error.model';
+
+export type ConnectivityStatus = 'online' | 'offline' | 'server-unreachable';
+
+// Heartbeat ping while the API looks healthy and the tab is visible
+const HEARTBEAT_MS = 60 * 1000;
+
+// Re-check this often once the API has stopped answering
+const RECHECK_MS = 5 * 1000;
+
+// Consecutive failed pings before the API is reported unreachable
+const FAILURE_THRESHOLD = 2;
+
+/**
+ * Tracks whether the app can reach its API. The browser's online/offline
+ * events cover the device losing its connection; liveness pings to
+ * `HealthService.getLiveness()` cover the API itself being down. Pings run
+ * on a slow heartbeat, straight after a request fails to reach the server,
+ * and quickly while the API is unreachable so recovery is noticed promptly.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private readonly healthService = inject(HealthService);
+
+  private readonly browserOnline = signal(navigator.onLine);
+  private readonly serverReachable = signal(true);
+  private failures = 0;
+  private checking = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly onOnline = () => {
+    this.browserOnline.set(true);
+    this.check();
+  };
+  private readonly onOffline = () => this.browserOnline.set(false);
+  private readonly onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      this.check();
+    }
+  };
+
+  readonly status = computed<ConnectivityStatus>(() => {
+    if (!this.browserOnline()) return 'offline';
+    return this.serverReachable() ? 'online' : 'server-unreachable';
+  });
+
+  constructor() {
+    window.addEventListener('online', this.onOnline);
+    window.addEventListener('offline', this.onOffline);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    this.schedule(HEARTBEAT_MS);
+
+    inject(DestroyRef).onDestroy(() => {
+      window.removeEventListener('online', this.onOnline);
+      window.removeEventListener('offline', this.onOffline);
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+      this.clearTimer();
+    });
+  }
+
+  /**
+   * A request could not reach the server even after retrying; ping now to
+   * tell a dead API from a one-off failure
+   */
+  reportUnreachable(): void {
+    this.check();
+  }
+
+  /**
+   * Ping the API's liveness endpoint and update the status
+   */
+  check(): void {
+    if (this.checking || !this.browserOnline()) {
+      return;
+    }
+
+    this.checking = true;
+    this.clearTimer();
+
+    this.healthService.getLiveness(false).subscribe({
+      next: () => {
+        this.checking = false;
+        this.failures = 0;
+        this.serverReachable.set(true);
+        this.schedule(HEARTBEAT_MS);
+      },
+      error: (err: unknown) => {
+        this.checking = false;
+
+        // Any answer from the server, even an error, means it is reachable
+        if (err instanceof ApiError && !err.isOutage) {
+          this.failures = 0;
+          this.serverReachable.set(true);
+          this.schedule(HEARTBEAT_MS);
+          return;
+        }
+
+        this.failures++;
+        if (this.failures >= FAILURE_THRESHOLD) {
+          this.serverReachable.set(false);
+        }
+        this.schedule(RECHECK_MS);
+      }
+    });
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Skip heartbeats for background tabs; becoming visible pings again
+      if (document.visibilityState === 'visible' || !this.serverReachable()) {
+        this.check();
+      } else {
+        this.schedule(HEARTBEAT_MS);
+      }
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
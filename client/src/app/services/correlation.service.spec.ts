@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { CorrelationService } from './correlation.service';
+
+describe('CorrelationService', () => {
+  let correlation: CorrelationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideRouter([])]
+    });
+    correlation = TestBed.inject(CorrelationService);
+  });
+
+  it('should keep one id for every request of a user action', () => {
+    const first = correlation.currentId();
+
+    expect(correlation.currentId()).toBe(first);
+    expect(first).toMatch(/^[A-Za-z0-9-]+$/);
+  });
+
+  it('should start a new id after the next click', () => {
+    const before = correlation.currentId();
+
+    document.body.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+    expect(correlation.currentId()).not.toBe(before);
+  });
+
+  it('should start a new id once the action has gone quiet', () => {
+    vi.useFakeTimers();
+    try {
+      const before = correlation.currentId();
+
+      vi.advanceTimersByTime(5 * 1000);
+      expect(correlation.currentId()).toBe(before);
+
+      vi.advanceTimersByTime(11 * 1000);
+      expect(correlation.currentId()).not.toBe(before);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { NavigationStart, Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter } from 'rxjs';
+
+export const CORRELATION_HEADER = 'X-Correlation-ID';
+
+// Browser events that start a new user action, listened for while capturing
+const USER_ACTION_EVENTS = ['click', 'submit', 'keydown', 'change'];
+
+// An action that has made no request for this long is over
+const ACTION_IDLE_MS = 10 * 1000;
+
+/**
+ * A correlation id for each user action. Every request made between one
+ * click, key press, form submit or navigation and the next carries the same
+ * id, so the API can tie its request logs, exceptions and audit entries back
+ * to what the user did. The id is created on the first request of an action
+ * and dropped once the action has gone quiet, so later requests the user did
+ * not trigger are not filed under it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CorrelationService {
+  private current: string | null = null;
+  private lastUsed = 0;
+
+  private readonly onUserAction = () => this.current = null;
+
+  constructor() {
+    USER_ACTION_EVENTS.forEach(type => document.addEventListener(type, this.onUserAction, true));
+
+    inject(Router).events.pipe(
+      filter(event => event instanceof NavigationStart),
+      takeUntilDestroyed()
+    ).subscribe(this.onUserAction);
+
+    inject(DestroyRef).onDestroy(() => {
+      USER_ACTION_EVENTS.forEach(type => document.removeEventListener(type, this.onUserAction, true));
+    });
+  }
+
+  /**
+   * The id of the current user action
+   */
+  currentId(): string {
+    const now = Date.now();
+    if (this.current === null || now - this.lastUsed > ACTION_IDLE_MS) {
+      this.current = newCorrelationId();
+    }
+    this.lastUsed = now;
+    return this.current;
+  }
+
+  /**
+   * A fresh id for a request the app made by itself, leaving the current
+   * user action untouched
+   */
+  backgroundId(): string {
+    return newCorrelationId();
+  }
+}
+
+function newCorrelationId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // randomUUID needs a secure context; fall back to random hex
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
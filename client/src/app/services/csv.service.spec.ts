@@ -0,0 +1,31 @@
+import { TestBed } from '@angular/core/testing';
+import { CsvService } from './csv.service';
+
+describe('CsvService', () => {
+  let service: CsvService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CsvService);
+  });
+
+  it('should parse quoted cells with commas, quotes and line breaks', () => {
+    const rows = service.parse('name,title\r\n"Doe, Jane","Says ""hi""\nloudly"\r\n');
+
+    expect(rows).toEqual([
+      ['name', 'title'],
+      ['Doe, Jane', 'Says "hi"\nloudly']
+    ]);
+  });
+
+  it('should keep blank lines so they can be reported', () => {
+    expect(service.parse('\uFEFFJohn\n\n  Jane  \n')).toEqual([['John'], [''], ['Jane']]);
+  });
+
+  it('should only take a row naming exactly the expected columns as a header', () => {
+    expect(service.isHeaderRow(['name'], ['name'])).toBe(true);
+    expect(service.isHeaderRow(['Name'], ['name'])).toBe(false);
+    expect(service.isHeaderRow(['name', 'Pilot'], ['name'])).toBe(false);
+    expect(service.isHeaderRow(undefined, ['name'])).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { Injectable } from '@angular/core';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CsvService {
+  /**
+   * Parse CSV text into rows of trimmed cells. Handles quoted fields with
+   * embedded commas, quotes and line breaks. Blank lines are kept as a
+   * single empty cell so callers can report them by line number.
+   */
+  parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    };
+
+    // Strip a UTF-8 byte order mark left by spreadsheet exports
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Whether a row is a header naming exactly the expected columns. Data that
+   * merely starts with a column name, such as a person called "Name", is not.
+   */
+  isHeaderRow(row: string[] | undefined, headers: string[]): boolean {
+    return !!row && row.length === headers.length && headers.every((header, index) => row[index] === header);
+  }
+
+  /**
+   * Read a user-selected file as text
+   */
+  readFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+      reader.readAsText(file);
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Subject, of } from 'rxjs';
+import { CACHE_TTL_MS, DataCacheService } from './data-cache.service';
+import { AuthService } from './auth.service';
+
+describe('DataCacheService', () => {
+  let cache: DataCacheService;
+  const isAuthenticated = signal(true);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    isAuthenticated.set(true);
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { isAuthenticated } },
+        { provide: CACHE_TTL_MS, useValue: 1000 }
+      ]
+    });
+    cache = TestBed.inject(DataCacheService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should share one in-flight request between concurrent readers', () => {
+    const response = new Subject<string[]>();
+    const load = vi.fn(() => response);
+    const results: string[][] = [];
+
+    cache.get('people:all', load).subscribe(value => results.push(value));
+    cache.get('people:all', load).subscribe(value => results.push(value));
+    response.next(['Jane Doe']);
+    response.complete();
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([['Jane Doe'], ['Jane Doe']]);
+  });
+
+  it('should serve a fresh entry from the cache and reload once it expires', () => {
+    const load = vi.fn(() => of(['Jane Doe']));
+
+    cache.get('people:all', load).subscribe();
+    cache.get('people:all', load).subscribe();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1001);
+    cache.get('people:all', load).subscribe();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop entries matching an invalidated prefix', () => {
+    cache.get('people:all', () => of(['Jane Doe'])).subscribe();
+    cache.get('duties:Jane Doe', () => of(['Pilot'])).subscribe();
+
+    cache.invalidate('people:');
+
+    expect(cache.value('people:all')()).toBeUndefined();
+    expect(cache.value('duties:Jane Doe')()).toEqual(['Pilot']);
+  });
+
+  it('should not keep a response for a key invalidated while it was in flight', () => {
+    const response = new Subject<string[]>();
+    cache.get('people:all', () => response).subscribe();
+
+    cache.invalidate('people:');
+    response.next(['Stale']);
+    response.complete();
+
+    expect(cache.value('people:all')()).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { Injectable, InjectionToken, Signal, computed, effect, inject, signal } from '@angular/core';
+import { Observable, finalize, of, shareReplay, tap } from 'rxjs';
+import { AuthService } from './auth.service';
+
+/**
+ * How long a cached response is served before it is fetched again
+ */
+export const CACHE_TTL_MS = new InjectionToken<number>('CACHE_TTL_MS', {
+  providedIn: 'root',
+  factory: () => 60 * 1000
+});
+
+/**
+ * Cache keys for personnel data. Anything that changes a person's name,
+ * current rank or duties invalidates `people`; duty changes also invalidate
+ * that person's `duties`.
+ */
+export const CacheKeys = {
+  people: 'people:',
+  peopleList: 'people:all',
+  peoplePage: (params: string) => `people:page?${params}`,
+  duties: (name?: string) => `duties:${name ?? ''}`
+} as const;
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * Shared in-memory cache for API reads, keyed by strings such as
+ * `people:all` or `duties:Jane Doe`. Fresh entries are served without a request,
+ * concurrent reads of the same key share one request, and writes invalidate
+ * keys by prefix. Entries live in a signal so views can react to them, and
+ * the cache is cleared when the user signs out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DataCacheService {
+  private readonly ttlMs = inject(CACHE_TTL_MS);
+  private readonly authService = inject(AuthService);
+
+  private readonly entries = signal<ReadonlyMap<string, CacheEntry>>(new Map());
+  private readonly inFlight = new Map<string, Observable<unknown>>();
+
+  constructor() {
+    // Never show one user's data to the next
+    effect(() => {
+      if (!this.authService.isAuthenticated()) {
+        this.clear();
+      }
+    });
+  }
+
+  /**
+   * Serve the cached value while it is fresh, otherwise load it. Callers
+   * arriving while a load is in flight share that request.
+   */
+  get<T>(key: string, load: () => Observable<T>): Observable<T> {
+    const entry = this.entries().get(key);
+    if (entry && Date.now() - entry.storedAt < this.ttlMs) {
+      return of(entry.value as T);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Observable<T>;
+    }
+
+    const request: Observable<T> = load().pipe(
+      // A response for a key invalidated mid-flight is passed on but not kept
+      tap(value => {
+        if (this.inFlight.get(key) === request) {
+          this.entries.update(entries => new Map(entries).set(key, { value, storedAt: Date.now() }));
+        }
+      }),
+      finalize(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * The last value stored for a key, fresh or not
+   */
+  value<T>(key: string): Signal<T | undefined> {
+    return computed(() => this.entries().get(key)?.value as T | undefined);
+  }
+
+  /**
+   * Drop every entry, and forget every in-flight request, whose key starts
+   * with one of the prefixes
+   */
+  invalidate(...prefixes: string[]): void {
+    const matches = (key: string) => prefixes.some(prefix => key.startsWith(prefix));
+
+    for (const key of [...this.inFlight.keys()]) {
+      if (matches(key)) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    this.entries.update(entries => new Map([...entries].filter(([key]) => !matches(key))));
+  }
+
+  clear(): void {
+    this.inFlight.clear();
+    this.entries.set(new Map());
+  }
+}
@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { ExportService } from './export.service';
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let downloaded: Blob | null;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ExportService);
+    downloaded = null;
+
+    vi.spyOn(URL, 'createObjectURL').mockImplementation((blob: Blob | MediaSource) => {
+      downloaded = blob as Blob;
+      return 'blob:test';
+    });
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => undefined);
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should format API dates as ISO calendar dates', () => {
+    expect(service.toIsoDate('2020-01-01T00:00:00Z')).toBe('2020-01-01');
+    expect(service.toIsoDate(null)).toBe('');
+  });
+
+  it('should quote CSV values and neutralise formulas', async () => {
+    service.downloadCsv('people.csv', [{ name: 'Doe, "JD"' }, { name: '=SUM(A1)' }], [
+      { header: 'name', value: row => row.name }
+    ]);
+
+    expect(await readBlob(downloaded!)).toBe('name\r\n"Doe, ""JD"""\r\n\'=SUM(A1)');
+  });
+
+  it('should key JSON records by column header', async () => {
+    service.downloadJson('people.json', [{ id: 1, end: undefined }], [
+      { header: 'id', value: row => row.id },
+      { header: 'endDate', value: row => row.end }
+    ]);
+
+    expect(JSON.parse(await readBlob(downloaded!))).toEqual([{ id: 1, endDate: null }]);
+  });
+});
@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+  /**
+   * Download rows as a CSV file with one column per definition
+   */
+  downloadCsv<T>(filename: string, rows: T[], columns: ExportColumn<T>[]): void {
+    const lines = [
+      columns.map(column => this.escapeCsv(column.header)).join(','),
+      ...rows.map(row => columns.map(column => this.escapeCsv(column.value(row))).join(','))
+    ];
+
+    this.download(filename, lines.join('\r\n'), 'text/csv;charset=utf-8');
+  }
+
+  /**
+   * Download rows as a JSON array keyed by the column headers
+   */
+  downloadJson<T>(filename: string, rows: T[], columns: ExportColumn<T>[]): void {
+    const records = rows.map(row =>
+      Object.fromEntries(columns.map(column => [column.header, column.value(row) ?? null]))
+    );
+
+    this.download(filename, JSON.stringify(records, null, 2), 'application/json');
+  }
+
+  /**
+   * Format an API date as an ISO calendar date (YYYY-MM-DD)
+   */
+  toIsoDate(dateString?: string | null): string {
+    if (!dateString) return '';
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+  }
+
+  private escapeCsv(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return value.toString();
+
+    // Neutralise values a spreadsheet would evaluate as a formula
+    let text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    if (/[",\r\n]/.test(text)) {
+      text = `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  private download(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
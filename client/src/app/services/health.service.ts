@@ -1,5 +1,5 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import { 
   HealthCheckResponse, 
@@ -7,8 +7,12 @@ import {
   TrendingExceptionsResponse,
   ExceptionsListResponse,
   RequestStatsResponse,
-  RequestsListResponse
+  RequestsListResponse,
+  RequestTimeSeriesResponse,
+  LogFilters,
+  TraceResponse
 } from '../models/health.model';
+import { BACKGROUND_REQUEST, RETRY_REQUEST } from '../interceptors/request-context';
 
 @Injectable({
   providedIn: 'root'
@@ -17,12 +21,22 @@ export class HealthService {
   private readonly http = inject(HttpClient);
   private readonly apiUrl = '/api/Health';
 
-  getHealthStatus(): Observable<HealthCheckResponse> {
-    return this.http.get<HealthCheckResponse>(`${this.apiUrl}/status`);
+  /**
+   * Health report; pass background = true when polling rather than loading
+   * for the user
+   */
+  getHealthStatus(background = false): Observable<HealthCheckResponse> {
+    const context = new HttpContext().set(BACKGROUND_REQUEST, background);
+    return this.http.get<HealthCheckResponse>(`${this.apiUrl}/status`, { context });
   }
 
-  getLiveness(): Observable<{ status: string; timestamp: string; message: string }> {
-    return this.http.get<{ status: string; timestamp: string; message: string }>(`${this.apiUrl}/live`);
+  /**
+   * Liveness ping; pass retry = false to fail fast, as connectivity checks do.
+   * Pings are never part of a user action.
+   */
+  getLiveness(retry = true): Observable<{ status: string; timestamp: string; message: string }> {
+    const context = new HttpContext().set(RETRY_REQUEST, retry).set(BACKGROUND_REQUEST, true);
+    return this.http.get<{ status: string; timestamp: string; message: string }>(`${this.apiUrl}/live`, { context });
   }
 
   getReadiness(): Observable<{ status: string; timestamp: string; ready: boolean }> {
@@ -38,12 +52,16 @@ export class HealthService {
     return this.http.get<TrendingExceptionsResponse>(`${this.apiUrl}/exceptions/trending`, { params });
   }
 
-  getExceptions(page: number = 1, pageSize: number = 20, hours: number = 24): Observable<ExceptionsListResponse> {
-    const params = new HttpParams()
-      .set('page', page.toString())
-      .set('pageSize', pageSize.toString())
-      .set('hours', hours.toString());
-    return this.http.get<ExceptionsListResponse>(`${this.apiUrl}/exceptions`, { params });
+  getExceptions(
+    page: number = 1,
+    pageSize: number = 20,
+    hours: number = 24,
+    filters: LogFilters = {},
+    background = false
+  ): Observable<ExceptionsListResponse> {
+    const params = this.logParams(page, pageSize, hours, filters);
+    const context = new HttpContext().set(BACKGROUND_REQUEST, background);
+    return this.http.get<ExceptionsListResponse>(`${this.apiUrl}/exceptions`, { params, context });
   }
 
   getRequestStats(hours: number = 24): Observable<RequestStatsResponse> {
@@ -51,11 +69,31 @@ export class HealthService {
     return this.http.get<RequestStatsResponse>(`${this.apiUrl}/requests/stats`, { params });
   }
 
-  getRequests(page: number = 1, pageSize: number = 20, hours: number = 24): Observable<RequestsListResponse> {
-    const params = new HttpParams()
+  getRequestTimeSeries(hours: number = 24): Observable<RequestTimeSeriesResponse> {
+    const params = new HttpParams().set('hours', hours.toString());
+    return this.http.get<RequestTimeSeriesResponse>(`${this.apiUrl}/requests/timeseries`, { params });
+  }
+
+  getRequests(page: number = 1, pageSize: number = 20, hours: number = 24, filters: LogFilters = {}): Observable<RequestsListResponse> {
+    const params = this.logParams(page, pageSize, hours, filters);
+    return this.http.get<RequestsListResponse>(`${this.apiUrl}/requests`, { params });
+  }
+
+  getTrace(id: string): Observable<TraceResponse> {
+    return this.http.get<TraceResponse>(`${this.apiUrl}/trace/${encodeURIComponent(id)}`);
+  }
+
+  private logParams(page: number, pageSize: number, hours: number, filters: LogFilters): HttpParams {
+    let params = new HttpParams()
       .set('page', page.toString())
       .set('pageSize', pageSize.toString())
       .set('hours', hours.toString());
-    return this.http.get<RequestsListResponse>(`${this.apiUrl}/requests`, { params });
+
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params = params.set(key, String(value));
+      }
+    }
+    return params;
   }
 }
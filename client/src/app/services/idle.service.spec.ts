@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { IdleService } from './idle.service';
+import { AuthService } from './auth.service';
+
+describe('IdleService', () => {
+  const MINUTE = 60 * 1000;
+  const authService = {
+    isAuthenticated: signal(true),
+    expireSession: vi.fn(),
+    getRefreshToken: () => null
+  };
+  let idle: IdleService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    authService.expireSession.mockReset();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: authService }]
+    });
+    idle = TestBed.inject(IdleService);
+    TestBed.tick();
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  // Another tab records activity and the browser tells this one about it
+  function activityInAnotherTab(event = true): void {
+    localStorage.setItem('stargate_last_activity', String(Date.now()));
+    if (event) {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'stargate_last_activity' }));
+    }
+  }
+
+  it('should sign out after thirty minutes without activity in any tab', () => {
+    vi.advanceTimersByTime(28.5 * MINUTE);
+    expect(idle.warningVisible()).toBe(true);
+
+    vi.advanceTimersByTime(1.5 * MINUTE);
+    expect(authService.expireSession).toHaveBeenCalledWith('idle');
+  });
+
+  it('should share activity in this tab with the others', () => {
+    vi.advanceTimersByTime(10 * MINUTE);
+    window.dispatchEvent(new Event('keydown'));
+
+    expect(localStorage.getItem('stargate_last_activity')).toBe(String(Date.now()));
+  });
+
+  it('should stay signed in while another tab is in use', () => {
+    vi.advanceTimersByTime(20 * MINUTE);
+    activityInAnotherTab();
+    vi.advanceTimersByTime(20 * MINUTE);
+
+    expect(idle.warningVisible()).toBe(false);
+    expect(authService.expireSession).not.toHaveBeenCalled();
+  });
+
+  it('should check the activity of other tabs before signing out', () => {
+    vi.advanceTimersByTime(29 * MINUTE);
+    activityInAnotherTab(false);
+    vi.advanceTimersByTime(2 * MINUTE);
+
+    expect(authService.expireSession).not.toHaveBeenCalled();
+  });
+
+  it('should close the warning when another tab chooses to stay signed in', () => {
+    vi.advanceTimersByTime(29 * MINUTE);
+    expect(idle.warningVisible()).toBe(true);
+
+    activityInAnotherTab();
+    vi.advanceTimersByTime(1000);
+
+    expect(idle.warningVisible()).toBe(false);
+  });
+});
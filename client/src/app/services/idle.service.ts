@@ -0,0 +1,139 @@
+import { DestroyRef, Injectable, effect, inject, signal } from '@angular/core';
+import { AuthService } from './auth.service';
+
+// Sign out after this long without keyboard, pointer or scroll activity
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Show the warning dialog this long before the idle sign-out
+const IDLE_WARNING_MS = 2 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Last activity in any tab, so an idle tab does not sign out one in use
+const ACTIVITY_KEY = 'stargate_last_activity';
+
+// Activity events fire constantly; share them with other tabs at most this often
+const ACTIVITY_SHARE_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Tracks user activity while signed in and signs the user out after a
+ * period of inactivity, raising a warning first so they can stay signed in.
+ * Tabs share one session, so activity in any tab keeps every tab signed in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService {
+  private readonly authService = inject(AuthService);
+
+  private lastActivity = Date.now();
+  private lastShared = 0;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private readonly onActivity = () => {
+    // Once the warning is up only an explicit choice keeps the session alive
+    if (!this.warningVisible()) {
+      this.recordActivity();
+    }
+  };
+  private readonly onStorage = (event: StorageEvent) => {
+    if (event.key === ACTIVITY_KEY) {
+      this.lastActivity = Math.max(this.lastActivity, this.sharedActivity());
+    }
+  };
+
+  readonly warningVisible = signal(false);
+  readonly secondsRemaining = signal(0);
+
+  constructor() {
+    effect(() => {
+      if (this.authService.isAuthenticated()) {
+        this.start();
+      } else {
+        this.stop();
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => this.stop());
+  }
+
+  /**
+   * Keep the session alive: reset the idle timer and renew the access token
+   */
+  staySignedIn(): void {
+    this.recordActivity(true);
+    this.warningVisible.set(false);
+
+    if (this.authService.getRefreshToken()) {
+      this.authService.refreshSession().subscribe({
+        error: () => this.authService.expireSession()
+      });
+    }
+  }
+
+  /**
+   * Sign out straight away from the warning dialog
+   */
+  signOutNow(): void {
+    this.stop();
+    this.authService.logout();
+  }
+
+  private start(): void {
+    if (this.ticker !== null) {
+      return;
+    }
+
+    this.recordActivity(true);
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, this.onActivity, { passive: true }));
+    window.addEventListener('storage', this.onStorage);
+    this.ticker = setInterval(() => this.check(), 1000);
+  }
+
+  private stop(): void {
+    if (this.ticker !== null) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, this.onActivity));
+    window.removeEventListener('storage', this.onStorage);
+    this.warningVisible.set(false);
+  }
+
+  private recordActivity(share = false): void {
+    this.lastActivity = Date.now();
+
+    if (share || this.lastActivity - this.lastShared >= ACTIVITY_SHARE_INTERVAL_MS) {
+      this.lastShared = this.lastActivity;
+      localStorage.setItem(ACTIVITY_KEY, String(this.lastActivity));
+    }
+  }
+
+  private sharedActivity(): number {
+    return Number(localStorage.getItem(ACTIVITY_KEY)) || 0;
+  }
+
+  private check(): void {
+    let remaining = IDLE_TIMEOUT_MS - (Date.now() - this.lastActivity);
+
+    // A suspended background tab can miss storage events, so read the shared time before warning or signing out
+    if (remaining <= IDLE_WARNING_MS) {
+      this.lastActivity = Math.max(this.lastActivity, this.sharedActivity());
+      remaining = IDLE_TIMEOUT_MS - (Date.now() - this.lastActivity);
+    }
+
+    if (remaining <= 0) {
+      this.stop();
+      this.authService.expireSession('idle');
+      return;
+    }
+
+    if (remaining <= IDLE_WARNING_MS) {
+      this.secondsRemaining.set(Math.ceil(remaining / 1000));
+      this.warningVisible.set(true);
+    } else {
+      // Chosen to stay signed in from another tab
+      this.warningVisible.set(false);
+    }
+  }
+}
@@ -1,23 +1,48 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
-import { Person, CreatePersonRequest, ApiResponse } from '../models/person.model';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map, tap } from 'rxjs/operators';
+import { Person, CreatePersonRequest, ApiResponse, PeopleQuery, PeopleListResponse, PersonHistoryEntry } from '../models/person.model';
+import { CacheKeys, DataCacheService } from './data-cache.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class PersonService {
   private readonly http = inject(HttpClient);
+  private readonly cache = inject(DataCacheService);
   private readonly apiUrl = '/api/Person';
 
   /**
-   * Get all people
+   * Get all people, served from the cache while fresh
    */
   getPeople(): Observable<Person[]> {
-    return this.http.get<{ people: Person[] }>(this.apiUrl).pipe(
-      map(response => response.people),
-      catchError(this.handleError)
+    return this.cache.get(CacheKeys.peopleList, () => this.http.get<{ people: Person[] }>(this.apiUrl).pipe(
+      map(response => response.people)
+    ));
+  }
+
+  /**
+   * Get a single page of people, searched, filtered and sorted on the server
+   */
+  getPeoplePage(query: PeopleQuery): Observable<PeopleListResponse> {
+    const params = this.buildPeopleParams(query)
+      .set('page', query.page.toString())
+      .set('pageSize', query.pageSize.toString());
+
+    return this.cache.get(CacheKeys.peoplePage(params.toString()), () =>
+      this.http.get<PeopleListResponse>(this.apiUrl, { params })
+    );
+  }
+
+  /**
+   * Get every person matching a query, ignoring paging
+   */
+  getAllPeople(query: Omit<PeopleQuery, 'page' | 'pageSize'>): Observable<Person[]> {
+    const params = this.buildPeopleParams(query);
+
+    return this.http.get<PeopleListResponse>(this.apiUrl, { params }).pipe(
+      map(response => response.people)
     );
   }
 
@@ -26,8 +51,16 @@ export class PersonService {
    */
   getPersonByName(name: string): Observable<Person> {
     return this.http.get<{ person: Person }>(`${this.apiUrl}/${encodeURIComponent(name)}`).pipe(
-      map(response => response.person),
-      catchError(this.handleError)
+      map(response => response.person)
+    );
+  }
+
+  /**
+   * Audited changes to a person and their duties, newest first
+   */
+  getPersonHistory(name: string): Observable<PersonHistoryEntry[]> {
+    return this.http.get<{ history: PersonHistoryEntry[] }>(`${this.apiUrl}/${encodeURIComponent(name)}/history`).pipe(
+      map(response => response.history)
     );
   }
 
@@ -38,25 +71,51 @@ export class PersonService {
     return this.http.post<ApiResponse<Person>>(this.apiUrl, JSON.stringify(name), {
       headers: { 'Content-Type': 'application/json' }
     }).pipe(
-      catchError(this.handleError)
+      tap(() => this.cache.invalidate(CacheKeys.people))
     );
   }
 
-  private handleError(error: HttpErrorResponse): Observable<never> {
-    let errorMessage = 'An unknown error occurred';
-    
-    if (error.error instanceof ErrorEvent) {
-      // Client-side error
-      errorMessage = `Error: ${error.error.message}`;
-    } else {
-      // Server-side error
-      errorMessage = `Server returned code ${error.status}: ${error.message}`;
-      if (error.error?.message) {
-        errorMessage = error.error.message;
-      }
-    }
-    
-    console.error('API Error:', errorMessage);
-    return throwError(() => new Error(errorMessage));
+  /**
+   * Rename a person. Returns the saved name; the old name keeps resolving
+   * to the same record.
+   */
+  renamePerson(currentName: string, newName: string): Observable<string> {
+    return this.http.put<{ id: number; name: string }>(`${this.apiUrl}/${encodeURIComponent(currentName)}`, JSON.stringify(newName), {
+      headers: { 'Content-Type': 'application/json' }
+    }).pipe(
+      map(response => response.name),
+      tap(() => this.cache.invalidate(CacheKeys.people, CacheKeys.duties(currentName)))
+    );
+  }
+
+  private buildPeopleParams(query: Omit<PeopleQuery, 'page' | 'pageSize'>): HttpParams {
+    let params = new HttpParams();
+
+    if (query.search) {
+      params = params.set('search', query.search);
+    }
+    if (query.sortBy) {
+      params = params.set('sortBy', query.sortBy);
+    }
+    if (query.sortDirection) {
+      params = params.set('sortDirection', query.sortDirection);
+    }
+    for (const rank of query.ranks ?? []) {
+      params = params.append('rank', rank);
+    }
+    for (const dutyTitle of query.dutyTitles ?? []) {
+      params = params.append('dutyTitle', dutyTitle);
+    }
+    for (const status of query.statuses ?? []) {
+      params = params.append('status', status);
+    }
+    if (query.careerStartFrom) {
+      params = params.set('careerStartFrom', query.careerStartFrom);
+    }
+    if (query.careerStartTo) {
+      params = params.set('careerStartTo', query.careerStartTo);
+    }
+
+    return params;
   }
 }
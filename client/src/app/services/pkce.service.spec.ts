@@ -0,0 +1,24 @@
+import { TestBed } from '@angular/core/testing';
+import { PkceService } from './pkce.service';
+
+describe('PkceService', () => {
+  let service: PkceService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PkceService);
+  });
+
+  it('should derive the S256 challenge from the RFC 7636 example verifier', async () => {
+    const challenge = await service.createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk');
+
+    expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should create unpadded URL-safe random strings', () => {
+    const first = service.createRandomString();
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(service.createRandomString()).not.toBe(first);
+  });
+});
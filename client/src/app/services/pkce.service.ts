@@ -0,0 +1,34 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Proof Key for Code Exchange (RFC 7636) helpers for the single sign-on
+ * authorization-code flow
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PkceService {
+  /**
+   * A high-entropy random string, URL-safe. Used for the code verifier,
+   * state and nonce.
+   */
+  createRandomString(byteLength: number = 32): string {
+    const bytes = new Uint8Array(byteLength);
+    crypto.getRandomValues(bytes);
+    return this.base64UrlEncode(bytes);
+  }
+
+  /**
+   * The S256 code challenge sent with the authorization request
+   */
+  async createCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    return this.base64UrlEncode(new Uint8Array(digest));
+  }
+
+  private base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
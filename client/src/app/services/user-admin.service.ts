@@ -0,0 +1,83 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { Role } from '../models/auth.model';
+import { PasswordResetResult, UserAuditEntry, UserSummary } from '../models/user-admin.model';
+import { FORBIDDEN_PAGE } from '../interceptors/request-context';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class UserAdminService {
+  private readonly http = inject(HttpClient);
+  private readonly apiUrl = '/api/Users';
+
+  /**
+   * List registered accounts, optionally filtered by email or name
+   */
+  getUsers(search?: string): Observable<UserSummary[]> {
+    let params = new HttpParams();
+    if (search) {
+      params = params.set('search', search);
+    }
+
+    return this.http.get<UserSummary[]>(this.apiUrl, { params });
+  }
+
+  /**
+   * Recent account changes, newest first. The audit panel reports a 403
+   * inline rather than replacing the page.
+   */
+  getAudit(userId?: string, take = 50): Observable<UserAuditEntry[]> {
+    let params = new HttpParams().set('take', take.toString());
+    if (userId) {
+      params = params.set('userId', userId);
+    }
+
+    const context = new HttpContext().set(FORBIDDEN_PAGE, false);
+    return this.http.get<UserAuditEntry[]>(`${this.apiUrl}/audit`, { params, context });
+  }
+
+  /**
+   * Grant a role; returns the updated account
+   */
+  grantRole(userId: string, role: Role): Observable<UserSummary> {
+    return this.http.post<UserSummary>(this.roleUrl(userId, role), null);
+  }
+
+  /**
+   * Revoke a role; returns the updated account
+   */
+  revokeRole(userId: string, role: Role): Observable<UserSummary> {
+    return this.http.delete<UserSummary>(this.roleUrl(userId, role));
+  }
+
+  /**
+   * Lock an account and end its sessions
+   */
+  lockUser(userId: string): Observable<UserSummary> {
+    return this.http.post<UserSummary>(`${this.userUrl(userId)}/lock`, null);
+  }
+
+  /**
+   * Unlock an account
+   */
+  unlockUser(userId: string): Observable<UserSummary> {
+    return this.http.post<UserSummary>(`${this.userUrl(userId)}/unlock`, null);
+  }
+
+  /**
+   * Replace the user's password with a temporary one, shown once
+   */
+  resetPassword(userId: string): Observable<PasswordResetResult> {
+    return this.http.post<PasswordResetResult>(`${this.userUrl(userId)}/reset-password`, null);
+  }
+
+  private userUrl(userId: string): string {
+    return `${this.apiUrl}/${encodeURIComponent(userId)}`;
+  }
+
+  private roleUrl(userId: string, role: Role): string {
+    return `${this.userUrl(userId)}/roles/${encodeURIComponent(role)}`;
+  }
+}
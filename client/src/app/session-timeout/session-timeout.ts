@@ -0,0 +1,29 @@
+import { Component, ElementRef, effect, inject, viewChild } from '@angular/core';
+import { IdleService } from '../services/idle.service';
+
+@Component({
+  selector: 'app-session-timeout',
+  templateUrl: './session-timeout.html',
+  styleUrl: './session-timeout.scss'
+})
+export class SessionTimeout {
+  protected readonly idle = inject(IdleService);
+
+  private readonly stayButton = viewChild<ElementRef<HTMLButtonElement>>('stayButton');
+
+  constructor() {
+    // Move focus into the dialog as soon as it opens
+    effect(() => {
+      this.stayButton()?.nativeElement.focus();
+    });
+  }
+
+  /**
+   * Format the countdown as m:ss
+   */
+  protected formatRemaining(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return `${minutes}:${rest.toString().padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Landing page for the identity provider's redirect. Redeems the
+ * authorization code and continues to where the user was headed.
+ */
+@Component({
+  selector: 'app-sso-callback',
+  imports: [RouterLink],
+  templateUrl: './sso-callback.html',
+  styleUrl: './sso-callback.scss'
+})
+export class SsoCallback implements OnInit {
+  private readonly authService = inject(AuthService);
+  private readonly route = inject(ActivatedRoute);
+
+  protected readonly error = signal<string | null>(null);
+
+  ngOnInit(): void {
+    const params = this.route.snapshot.queryParamMap;
+
+    // The provider reports cancelled or refused sign-ins through the query string
+    const providerError = params.get('error');
+    if (providerError) {
+      this.error.set(providerError === 'access_denied'
+        ? 'Sign-in was cancelled.'
+        : params.get('error_description') || 'The identity provider could not sign you in.');
+      return;
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      this.error.set('No sign-in response was received.');
+      return;
+    }
+
+    this.authService.completeSsoLogin(code, params.get('state')).subscribe({
+      next: returnUrl => this.authService.navigateAfterSignIn(returnUrl, true),
+      error: (err: Error) => this.error.set(err.message || 'Single sign-on failed. Please try again.')
+    });
+  }
+}